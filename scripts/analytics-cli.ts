@@ -3,7 +3,17 @@
 import 'dotenv/config';
 import { Command } from 'commander';
 import { analyticsService } from '../src/analytics/service';
+import { analyticsDB } from '../src/analytics/database';
 import { deltaSyncService } from '../src/analytics/delta-sync';
+import { createHistoricalSource, HistoricalSourceType } from '../src/analytics/sources';
+import { getReviewReport } from '../src/analytics/player-ids';
+import {
+  BacktestReport,
+  backtest,
+  loadGames,
+  saveModel,
+  trainModel,
+} from '../src/analytics/projections';
 import { logger } from '../src/utils/logger';
 
 const program = new Command();
@@ -15,9 +25,15 @@ program
 
 program
   .command('ingest-historical')
-  .description('Ingest historical player data from GitHub repository')
+  .description('Ingest historical player data from GitHub or local data files')
   .option('-s, --start-year <year>', 'Start year for ingestion', '2015')
   .option('-e, --end-year <year>', 'End year for ingestion', '2024')
+  .option('--source <type>', 'Data source: github, local or nflverse', 'github')
+  .option('-d, --dir <path>', 'Data directory for the local and nflverse sources')
+  .option('--id-type <type>', 'ID system of the local player_id column (e.g. gsis, espn)')
+  .option('--crosswalk <file>', 'CSV mapping source player IDs to Sleeper IDs')
+  .option('--crosswalk-from <column>', 'Crosswalk column holding source IDs', 'gsis_id')
+  .option('--crosswalk-to <column>', 'Crosswalk column holding Sleeper IDs', 'sleeper_id')
   .action(async (options) => {
     try {
       logger.info('Starting historical data ingestion...');
@@ -25,8 +41,16 @@ program
       
       const startYear = parseInt(options.startYear);
       const endYear = parseInt(options.endYear);
+      const source = await createHistoricalSource({
+        type: options.source as HistoricalSourceType,
+        directory: options.dir,
+        idType: options.idType,
+        crosswalkFile: options.crosswalk,
+        crosswalkFrom: options.crosswalkFrom,
+        crosswalkTo: options.crosswalkTo
+      });
       
-      await analyticsService.ingestHistoricalData(startYear, endYear);
+      await analyticsService.ingestHistoricalData(startYear, endYear, undefined, source);
       
       logger.info('Historical data ingestion completed successfully');
       process.exit(0);
@@ -36,6 +60,32 @@ program
     }
   });
 
+program
+  .command('id-review')
+  .description('List ingested players that could not be matched to a Sleeper player')
+  .option('--source <name>', 'Only show records from this data source')
+  .action(async (options) => {
+    try {
+      await analyticsService.initialize();
+
+      const report = await getReviewReport(options.source);
+      console.log(`\n🔍 ${report.length} unresolved players:`);
+      for (const entry of report) {
+        const id = entry.external_id ? `${entry.id_type}:${entry.external_id}` : 'no id';
+        const candidates = entry.candidates.length ? ` -> ${entry.candidates.join(', ')}` : '';
+        console.log(
+          `${entry.season ?? '-'} ${entry.source} ${id} ${entry.name ?? '?'} ` +
+            `(${entry.position ?? '?'}, ${entry.team ?? '?'}) ${entry.reason}${candidates}`
+        );
+      }
+
+      process.exit(0);
+    } catch (error) {
+      logger.error('ID review report failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('update-current')
   .description('Update current player data from Sleeper API')
@@ -136,7 +186,7 @@ program
 
 program
   .command('setup-db')
-  .description('Set up analytics database schema')
+  .description('Set up analytics database schema (applies pending migrations)')
   .action(async () => {
     try {
       logger.info('Setting up analytics database...');
@@ -150,6 +200,148 @@ program
     }
   });
 
+program
+  .command('train-projections')
+  .description('Train the projection model on player_season_stats and report backtest accuracy')
+  .option('-t, --through <season>', 'Last season to train on (default: latest with stats)')
+  .option('--lambda <value>', 'Ridge penalty on standardized features', '10')
+  .option('--level <value>', 'Prediction interval coverage', '0.8')
+  .option('--dry-run', 'Report accuracy without saving the model')
+  .action(async (options) => {
+    try {
+      await analyticsService.initialize();
+
+      const games = await loadGames();
+      const seasons = [...new Set(games.map((game) => game.season))];
+      if (seasons.length === 0) {
+        throw new Error('No weekly stats in player_season_stats; ingest some seasons first');
+      }
+      const through = options.through ? parseInt(options.through) : Math.max(...seasons);
+      const trainingOptions = {
+        lambda: parseFloat(options.lambda),
+        intervalLevel: parseFloat(options.level),
+      };
+
+      // Backtest on the final season, fitting only on the ones before it
+      let report: BacktestReport | null = null;
+      if (seasons.some((season) => season < through)) {
+        report = backtest(games, through, trainingOptions);
+        printBacktest(report);
+      } else {
+        logger.warn(`No seasons before ${through} to backtest against`);
+      }
+
+      const model = trainModel(games, { ...trainingOptions, throughSeason: through });
+      logger.info(
+        `Trained on ${model.seasons.join(', ')}: ${model.examples} games, data checksum ${model.data_checksum}`
+      );
+      if (!options.dryRun) {
+        const id = await saveModel(model, report);
+        logger.info(`Saved projection model ${id}`);
+      }
+
+      process.exit(0);
+    } catch (error) {
+      logger.error('Projection training failed:', error);
+      process.exit(1);
+    }
+  });
+
+function printBacktest(report: BacktestReport): void {
+  console.log(
+    `\n🎯 Backtest on ${report.season} (trained through ${report.trained_through}, ` +
+      `${Math.round(report.interval_level * 100)}% intervals):`
+  );
+  for (const [position, result] of Object.entries(report.positions)) {
+    const rows = [['points', result.points], ...Object.entries(result.stats)] as const;
+    console.log(`\n${position} (${result.examples} games)`);
+    console.log('  stat                    MAE  baseline   RMSE   bias  coverage');
+    for (const [stat, accuracy] of rows) {
+      if (!accuracy) {
+        continue;
+      }
+      console.log(
+        `  ${stat.padEnd(22)} ${accuracy.mae.toFixed(2).padStart(5)} ${accuracy.baseline_mae
+          .toFixed(2)
+          .padStart(9)} ${accuracy.rmse.toFixed(2).padStart(6)} ${accuracy.bias
+          .toFixed(2)
+          .padStart(6)} ${(accuracy.coverage * 100).toFixed(0).padStart(8)}%`
+      );
+    }
+  }
+}
+
+const migrate = program
+  .command('migrate')
+  .description('Manage analytics database schema migrations');
+
+migrate
+  .command('status')
+  .description('List migrations and whether they are applied')
+  .action(async () => {
+    try {
+      const statuses = await analyticsDB.migrator.status();
+
+      console.log('\n🗄️  Schema migrations:');
+      for (const migration of statuses) {
+        const appliedAt = migration.applied_at ? ` (${migration.applied_at.toISOString()})` : '';
+        console.log(
+          `${String(migration.version).padStart(4, '0')} ${migration.name}: ${migration.state}${appliedAt}`
+        );
+      }
+
+      process.exit(0);
+    } catch (error) {
+      logger.error('Migration status failed:', error);
+      process.exit(1);
+    }
+  });
+
+migrate
+  .command('up')
+  .description('Apply pending migrations')
+  .option('--to <version>', 'Stop after this version')
+  .action(async (options) => {
+    try {
+      const applied = await analyticsDB.migrator.up(
+        options.to ? parseInt(options.to) : undefined
+      );
+
+      logger.info(
+        applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : 'No pending migrations'
+      );
+      process.exit(0);
+    } catch (error) {
+      logger.error('Migration failed:', error);
+      process.exit(1);
+    }
+  });
+
+migrate
+  .command('down')
+  .description('Roll back applied migrations (the latest one by default)')
+  .option('-n, --steps <count>', 'Number of migrations to roll back', '1')
+  .option('--to <version>', 'Roll back every migration after this version')
+  .action(async (options) => {
+    try {
+      const rolledBack = await analyticsDB.migrator.down(
+        options.to !== undefined
+          ? { target: parseInt(options.to) }
+          : { steps: parseInt(options.steps) }
+      );
+
+      logger.info(
+        rolledBack.length > 0
+          ? `Rolled back migrations: ${rolledBack.join(', ')}`
+          : 'No migrations to roll back'
+      );
+      process.exit(0);
+    } catch (error) {
+      logger.error('Migration rollback failed:', error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('test-analytics')
   .description('Test analytics functionality with sample queries')
@@ -0,0 +1,32 @@
+import { AnalyticsDatabase } from './database';
+
+describe('AnalyticsDatabase', () => {
+  describe('getPlayerSeasonTotals', () => {
+    it('should prefer weekly rows and fall back to the season-total row', async () => {
+      const db = new AnalyticsDatabase();
+      jest.spyOn(db, 'query').mockResolvedValue({
+        rows: [
+          // GitHub season totals only
+          {
+            player_id: 'p1',
+            week: 0,
+            games_played: 16,
+            fantasy_points: '250.5',
+            ppr_points: '300',
+          },
+          // GitHub season totals plus weekly rows for the same season
+          { player_id: 'p2', week: 0, games_played: 1, fantasy_points: '12', ppr_points: '15' },
+          { player_id: 'p2', week: 1, games_played: 1, fantasy_points: '12', ppr_points: '15' },
+          { player_id: 'p2', week: 2, games_played: 1, fantasy_points: '18', ppr_points: '21' },
+        ],
+      });
+
+      const totals = await db.getPlayerSeasonTotals(['p1', 'p2'], 2023);
+
+      expect(totals).toEqual([
+        { player_id: 'p1', games_played: 16, fantasy_points: 250.5, ppr_points: 300 },
+        { player_id: 'p2', games_played: 2, fantasy_points: 30, ppr_points: 36 },
+      ]);
+    });
+  });
+});
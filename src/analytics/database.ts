@@ -1,11 +1,21 @@
 import { Pool, PoolClient } from 'pg';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import fs from 'fs/promises';
-import path from 'path';
+import { Migrator } from './migrator';
+
+/**
+ * A player's totals for one season
+ */
+export interface SeasonProductionRow {
+  player_id: string;
+  games_played: number;
+  fantasy_points: number;
+  ppr_points: number;
+}
 
 export class AnalyticsDatabase {
   private pool: Pool;
+  readonly migrator = new Migrator(() => this.pool.connect());
 
   constructor() {
     // Use DATABASE_URL if available, otherwise use individual config values
@@ -41,26 +51,24 @@ export class AnalyticsDatabase {
       
       logger.info('Analytics database connection established');
       
-      // Run schema setup
-      await this.setupSchema();
+      // Bring the schema up to date
+      await this.migrate();
     } catch (error) {
       logger.error('Failed to connect to analytics database:', error);
       throw error;
     }
   }
 
-  private async setupSchema(): Promise<void> {
+  private async migrate(): Promise<void> {
     try {
-      const schemaPath = path.join(__dirname, 'schema.sql');
-      const schema = await fs.readFile(schemaPath, 'utf-8');
-      
-      const client = await this.pool.connect();
-      await client.query(schema);
-      client.release();
-      
-      logger.info('Analytics database schema initialized');
+      const applied = await this.migrator.up();
+      logger.info(
+        applied.length > 0
+          ? `Analytics database migrated to version ${applied[applied.length - 1]}`
+          : 'Analytics database schema is up to date'
+      );
     } catch (error) {
-      logger.error('Failed to setup analytics schema:', error);
+      logger.error('Failed to migrate analytics schema:', error);
       throw error;
     }
   }
@@ -234,6 +242,50 @@ export class AnalyticsDatabase {
     return result.rows;
   }
 
+  /**
+   * Season totals per player. A season can hold a week-0 season-total row
+   * (GitHub source), weekly rows (nflverse, Sleeper) or both: weekly rows win
+   * when present so the two are never added together.
+   */
+  async getPlayerSeasonTotals(playerIds: string[], season: number): Promise<SeasonProductionRow[]> {
+    const query = `
+      SELECT player_id, week, games_played, fantasy_points, ppr_points
+      FROM player_season_stats
+      WHERE player_id = ANY($1) AND season = $2
+    `;
+    const result = (await this.query(query, [playerIds, season])) as {
+      rows: Array<{
+        player_id: string;
+        week: number;
+        games_played: number | null;
+        fantasy_points: string | number | null;
+        ppr_points: string | number | null;
+      }>;
+    };
+
+    const hasWeekly = new Set(
+      result.rows.filter((row) => row.week > 0).map((row) => row.player_id)
+    );
+    const totals = new Map<string, SeasonProductionRow>();
+    for (const row of result.rows) {
+      const weekly = row.week > 0;
+      if (weekly !== hasWeekly.has(row.player_id)) {
+        continue;
+      }
+      const total = totals.get(row.player_id) || {
+        player_id: row.player_id,
+        games_played: 0,
+        fantasy_points: 0,
+        ppr_points: 0,
+      };
+      total.games_played += Number(row.games_played) || 0;
+      total.fantasy_points += Number(row.fantasy_points) || 0;
+      total.ppr_points += Number(row.ppr_points) || 0;
+      totals.set(row.player_id, total);
+    }
+    return [...totals.values()];
+  }
+
   async getPlayerTrends(playerId: string, weeks: number = 5): Promise<any[]> {
     const query = `
       SELECT season, week, fantasy_points, ppr_points, 
@@ -2,7 +2,9 @@ import axios from 'axios';
 import { analyticsDB } from './database';
 import { sleeperAPI } from '../api/client';
 import { logger } from '../utils/logger';
-import { dataIngestion } from './ingestion';
+import { SleeperNFLState } from '../types/sleeper';
+import { dataIngestion, ProgressReporter } from './ingestion';
+import { weeklyStatsIngester } from './weekly-stats';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -38,8 +40,9 @@ export class DeltaSyncService {
   /**
    * Run complete nightly delta sync
    */
-  async runNightlySync(): Promise<DeltaCheckResult> {
+  async runNightlySync(onProgress?: ProgressReporter): Promise<DeltaCheckResult> {
     const startTime = Date.now();
+    const totalSteps = 4;
     logger.info('🌙 Starting nightly delta sync...');
 
     try {
@@ -64,6 +67,7 @@ export class DeltaSyncService {
         results.hasNewData = true;
         results.changes.newStats += githubResult.changes.newStats;
       }
+      onProgress?.(1, totalSteps, 'Checked GitHub historical data');
 
       // 2. Update current player data from Sleeper API
       const sleeperResult = await this.checkSleeperUpdates(metadata.lastSleeperCheck);
@@ -74,15 +78,16 @@ export class DeltaSyncService {
         results.changes.newPlayers += sleeperResult.changes.newPlayers;
         results.changes.updatedPlayers += sleeperResult.changes.updatedPlayers;
       }
+      onProgress?.(2, totalSteps, 'Checked Sleeper player data');
 
       // 3. Check for weekly stats updates (during season)
       const weeklyResult = await this.checkWeeklyStatsUpdates();
       if (weeklyResult.hasNewData) {
         logger.info('🏈 New weekly stats detected');
-        await this.syncWeeklyStats();
+        results.changes.newStats += await this.syncWeeklyStats();
         results.hasNewData = true;
-        results.changes.newStats += weeklyResult.changes.newStats;
       }
+      onProgress?.(3, totalSteps, 'Checked weekly stats');
 
       // 4. Update sync metadata
       await this.updateSyncMetadata({
@@ -93,6 +98,7 @@ export class DeltaSyncService {
         totalSyncs: metadata.totalSyncs + 1,
         lastResults: results
       });
+      onProgress?.(4, totalSteps, 'Updated sync metadata');
 
       const duration = Date.now() - startTime;
       logger.info(`✅ Nightly sync completed in ${duration}ms`, {
@@ -224,7 +230,6 @@ export class DeltaSyncService {
   private async checkWeeklyStatsUpdates(): Promise<DeltaCheckResult> {
     try {
       const currentDate = new Date();
-      const currentSeason = currentDate.getFullYear();
       
       // NFL season typically runs September through February
       const isSeasonTime = (
@@ -244,7 +249,9 @@ export class DeltaSyncService {
       }
 
       // Get NFL state to determine current week
-      const nflState = await sleeperAPI.getNFLState();
+      const nflState = (await sleeperAPI.getNFLState()) as SleeperNFLState;
+      // January and February games belong to the previous year's season
+      const currentSeason = Number(nflState.season);
       const currentWeek = nflState.week;
 
       // Check if we have stats for the current week
@@ -297,15 +304,15 @@ export class DeltaSyncService {
   }
 
   /**
-   * Sync weekly stats (placeholder for future implementation)
+   * Ingest weekly game-level stats and projections for every week of the
+   * current season that is not yet final. Returns the stat rows written.
    */
-  private async syncWeeklyStats(): Promise<void> {
+  private async syncWeeklyStats(): Promise<number> {
     logger.info('Syncing weekly stats...');
-    
-    // TODO: Implement weekly stats sync when available
-    // This would fetch current week stats from Sleeper or other sources
-    // For now, just ensure current player data is up to date
-    await dataIngestion.updateCurrentPlayerData();
+
+    const nflState = (await sleeperAPI.getNFLState()) as SleeperNFLState;
+    const results = await weeklyStatsIngester.syncSeason(nflState);
+    return results.reduce((sum, result) => sum + result.stats_rows, 0);
   }
 
   /**
@@ -364,9 +371,9 @@ export class DeltaSyncService {
   /**
    * Force a sync (for testing or manual triggers)
    */
-  async forceDeltaSync(): Promise<DeltaCheckResult> {
+  async forceDeltaSync(onProgress?: ProgressReporter): Promise<DeltaCheckResult> {
     logger.info('🔄 Forcing delta sync...');
-    return this.runNightlySync();
+    return this.runNightlySync(onProgress);
   }
 }
 
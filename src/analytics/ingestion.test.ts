@@ -0,0 +1,96 @@
+import { DataIngestionService } from './ingestion';
+import { analyticsDB } from './database';
+import { PlayerIdResolver } from './player-ids';
+import { HistoricalDataSource, NFLVERSE_FIELD_MAP, RawRecord } from './sources';
+import { SleeperPlayer } from '../types/sleeper';
+
+jest.mock('./database', () => ({
+  analyticsDB: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDB = analyticsDB as jest.Mocked<typeof analyticsDB>;
+
+describe('DataIngestionService', () => {
+  const queries: Array<[string, unknown[]]> = [];
+
+  beforeEach(() => {
+    queries.length = 0;
+    const mahomes = {
+      player_id: '4046',
+      full_name: 'Patrick Mahomes',
+      position: 'QB',
+      team: 'KC',
+      gsis_id: ' 00-0033873',
+    } as SleeperPlayer;
+    mockDB.query.mockImplementation((text: string) =>
+      Promise.resolve({
+        rows: text.includes('player_current_data') ? [{ sleeper_data: mahomes }] : [],
+      } as never)
+    );
+    mockDB.transaction.mockImplementation((callback) =>
+      callback({
+        query: jest.fn((text: string, params: unknown[]) => {
+          queries.push([text, params]);
+          return Promise.resolve({ rows: [] });
+        }),
+      } as never)
+    );
+  });
+
+  it('should store records under the Sleeper ID resolved from the source ID', async () => {
+    const records: RawRecord[] = [
+      {
+        player_id: '00-0033873',
+        player_display_name: 'Patrick Mahomes',
+        position: 'QB',
+        recent_team: 'KC',
+        opponent_team: 'BAL',
+        week: '3',
+        attempts: '35',
+        passing_yards: '291',
+        fantasy_points_ppr: '23.64',
+      },
+      {
+        player_id: '00-0099999',
+        player_display_name: 'Practice Squad',
+        position: 'WR',
+        recent_team: 'KC',
+        week: '3',
+        receiving_yards: '12',
+      },
+    ];
+    const fetchSeason = jest.fn((_year: number) => Promise.resolve(records));
+    const source: HistoricalDataSource = {
+      name: 'fixture',
+      fieldMap: NFLVERSE_FIELD_MAP,
+      idType: 'gsis',
+      fetchSeason,
+    };
+
+    await new DataIngestionService(source, new PlayerIdResolver()).ingestHistoricalData(2023, 2023);
+
+    expect(fetchSeason).toHaveBeenCalledWith(2023);
+    const players = queries.filter(([text]) => text.includes('first_name, last_name'));
+    expect(players).toHaveLength(1);
+    expect(players[0][1].slice(0, 5)).toEqual(['4046', 'Patrick', 'Mahomes', 'QB', 'KC']);
+    const stats = queries.filter(([text]) => text.includes('INSERT INTO player_season_stats'));
+    expect(stats).toHaveLength(1);
+    expect(stats[0][1].slice(0, 8)).toEqual(['4046', 2023, 3, 'KC', 'QB', 35, 0, 291]);
+    expect(stats[0][1][18]).toBe(23.64);
+    expect(stats[0][1][21]).toBe('BAL');
+
+    const mapping = queries.find(([text]) => text.includes('INSERT INTO player_id_map'));
+    expect(mapping?.[1]).toEqual(['gsis', '00-0033873', '4046', 'sleeper_ids', 1]);
+    const review = queries.find(([text]) => text.includes('INSERT INTO player_id_review'));
+    expect(review?.[1].slice(0, 5)).toEqual([
+      'fixture',
+      '00-0099999',
+      'gsis',
+      '00-0099999',
+      'Practice Squad',
+    ]);
+  });
+});
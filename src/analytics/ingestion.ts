@@ -1,26 +1,51 @@
-import axios from 'axios';
-import csv from 'csv-parser';
 import { analyticsDB } from './database';
+import { PlayerIdResolver } from './player-ids';
+import { GitHubCsvSource, HistoricalDataSource, NormalizedField, RawRecord } from './sources';
 import { sleeperAPI } from '../api/client';
 import { logger } from '../utils/logger';
 
+/**
+ * Receives progress updates from long-running sync jobs
+ */
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
 export class DataIngestionService {
-  private readonly githubBaseUrl = 'https://raw.githubusercontent.com/hvpkod/NFL-Data/main/NFL-data-Players';
+  constructor(
+    private readonly source: HistoricalDataSource = new GitHubCsvSource(),
+    private readonly resolver: PlayerIdResolver = new PlayerIdResolver()
+  ) {}
 
   /**
-   * Download and process historical player data from GitHub
+   * Load historical player data from a data source (GitHub CSVs by default)
    */
-  async ingestHistoricalData(startYear: number = 2015, endYear: number = 2024): Promise<void> {
-    logger.info(`Starting historical data ingestion from ${startYear} to ${endYear}`);
+  async ingestHistoricalData(
+    startYear: number = 2015,
+    endYear: number = 2024,
+    onProgress?: ProgressReporter,
+    source: HistoricalDataSource = this.source
+  ): Promise<void> {
+    logger.info(
+      `Starting historical data ingestion from ${startYear} to ${endYear} (${source.name})`
+    );
+    const totalYears = endYear - startYear + 1;
+
+    await this.resolver.load();
+    if (source.crosswalk) {
+      this.resolver.addMappings(source.idType, source.crosswalk);
+    }
 
     for (let year = startYear; year <= endYear; year++) {
       try {
-        await this.ingestYearlyData(year);
-        logger.info(`Completed ingestion for year ${year}`);
+        await this.ingestYearlyData(year, source);
+        const { mappings, review } = await this.resolver.flush();
+        logger.info(
+          `Completed ingestion for year ${year}: ${mappings} new player ID mappings, ${review} players sent to review`
+        );
       } catch (error) {
         logger.error(`Failed to ingest data for year ${year}:`, error);
         // Continue with next year rather than failing completely
       }
+      onProgress?.(year - startYear + 1, totalYears, `Processed ${year}`);
     }
 
     logger.info('Historical data ingestion completed');
@@ -29,82 +54,40 @@ export class DataIngestionService {
   /**
    * Ingest data for a specific year
    */
-  private async ingestYearlyData(year: number): Promise<void> {
-    // Common file patterns from NFL data repositories
-    const possibleFiles = [
-      `${year}/players_${year}.csv`,
-      `${year}/player_stats_${year}.csv`,
-      `${year}/nfl_players_${year}.csv`,
-      `players_${year}.csv`,
-      `${year}.csv`
-    ];
+  private async ingestYearlyData(year: number, source: HistoricalDataSource): Promise<void> {
+    const records = await source.fetchSeason(year);
 
-    for (const filePath of possibleFiles) {
-      try {
-        const url = `${this.githubBaseUrl}/${filePath}`;
-        await this.downloadAndProcessCSV(url, year);
-        return; // Success, move to next year
-      } catch (error) {
-        // Try next file pattern
-        continue;
+    // Process data in batches
+    const batchSize = 100;
+    let processedCount = 0;
+    for (let i = 0; i < records.length; i += batchSize) {
+      const batch = records.slice(i, i + batchSize);
+      await this.processBatch(batch, year, source);
+      processedCount += batch.length;
+
+      if (processedCount % 500 === 0) {
+        logger.info(`Processed ${processedCount}/${records.length} records for ${year}`);
       }
     }
 
-    throw new Error(`No valid data file found for year ${year}`);
-  }
-
-  /**
-   * Download and process a CSV file from URL
-   */
-  private async downloadAndProcessCSV(url: string, year: number): Promise<void> {
-    logger.info(`Downloading data from: ${url}`);
-
-    const response = await axios.get(url, { responseType: 'stream' });
-    
-    return new Promise((resolve, reject) => {
-      const results: any[] = [];
-      let processedCount = 0;
-
-      response.data
-        .pipe(csv())
-        .on('data', (data: any) => {
-          results.push(data);
-        })
-        .on('end', async () => {
-          try {
-            // Process data in batches
-            const batchSize = 100;
-            for (let i = 0; i < results.length; i += batchSize) {
-              const batch = results.slice(i, i + batchSize);
-              await this.processBatch(batch, year);
-              processedCount += batch.length;
-              
-              if (processedCount % 500 === 0) {
-                logger.info(`Processed ${processedCount}/${results.length} records for ${year}`);
-              }
-            }
-            
-            logger.info(`Successfully processed ${results.length} records for year ${year}`);
-            resolve();
-          } catch (error) {
-            reject(error);
-          }
-        })
-        .on('error', reject);
-    });
+    logger.info(`Successfully processed ${records.length} records for year ${year}`);
   }
 
   /**
    * Process a batch of player records
    */
-  private async processBatch(records: any[], year: number): Promise<void> {
+  private async processBatch(
+    records: RawRecord[],
+    year: number,
+    source: HistoricalDataSource
+  ): Promise<void> {
     await analyticsDB.transaction(async (client) => {
       for (const record of records) {
         try {
           // Normalize the data (field names vary between sources)
-          const normalizedData = this.normalizePlayerRecord(record, year);
+          const normalizedData = this.normalizePlayerRecord(record, year, source);
           
-          // Insert player basic info
+          // Insert player basic info, only filling gaps in what Sleeper provided
           if (normalizedData.player) {
             const playerQuery = `
               INSERT INTO players (
@@ -112,16 +95,16 @@ export class DataIngestionService {
                 height, weight, age, years_exp, birth_date, updated_at
               ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)
               ON CONFLICT (player_id) DO UPDATE SET
-                first_name = EXCLUDED.first_name,
-                last_name = EXCLUDED.last_name,
-                position = EXCLUDED.position,
-                team = EXCLUDED.team,
-                college = EXCLUDED.college,
-                height = EXCLUDED.height,
-                weight = EXCLUDED.weight,
-                age = EXCLUDED.age,
-                years_exp = EXCLUDED.years_exp,
-                birth_date = EXCLUDED.birth_date,
+                first_name = COALESCE(players.first_name, EXCLUDED.first_name),
+                last_name = COALESCE(players.last_name, EXCLUDED.last_name),
+                position = COALESCE(players.position, EXCLUDED.position),
+                team = COALESCE(players.team, EXCLUDED.team),
+                college = COALESCE(players.college, EXCLUDED.college),
+                height = COALESCE(players.height, EXCLUDED.height),
+                weight = COALESCE(players.weight, EXCLUDED.weight),
+                age = COALESCE(players.age, EXCLUDED.age),
+                years_exp = COALESCE(players.years_exp, EXCLUDED.years_exp),
+                birth_date = COALESCE(players.birth_date, EXCLUDED.birth_date),
                 updated_at = CURRENT_TIMESTAMP
             `;
 
@@ -148,9 +131,9 @@ export class DataIngestionService {
                 passing_attempts, passing_completions, passing_yards, passing_tds, passing_interceptions,
                 rushing_attempts, rushing_yards, rushing_tds,
                 receiving_targets, receiving_receptions, receiving_yards, receiving_tds,
-                fantasy_points, ppr_points, games_played, games_started
+                fantasy_points, ppr_points, games_played, games_started, opponent
               ) VALUES (
-                $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21
+                $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22
               )
               ON CONFLICT (player_id, season, week) DO UPDATE SET
                 team = EXCLUDED.team,
@@ -170,7 +153,8 @@ export class DataIngestionService {
                 fantasy_points = EXCLUDED.fantasy_points,
                 ppr_points = EXCLUDED.ppr_points,
                 games_played = EXCLUDED.games_played,
-                games_started = EXCLUDED.games_started
+                games_started = EXCLUDED.games_started,
+                opponent = COALESCE(EXCLUDED.opponent, player_season_stats.opponent)
             `;
 
             await client.query(statsQuery, [
@@ -194,7 +178,8 @@ export class DataIngestionService {
               normalizedData.stats.fantasy_points || 0,
               normalizedData.stats.ppr_points || 0,
               normalizedData.stats.games_played || 0,
-              normalizedData.stats.games_started || 0
+              normalizedData.stats.games_started || 0,
+              normalizedData.stats.opponent,
             ]);
           }
         } catch (error) {
@@ -206,45 +191,15 @@ export class DataIngestionService {
   }
 
   /**
-   * Normalize player record from various CSV formats
+   * Normalize a player record using the source's field mappings
    */
-  private normalizePlayerRecord(record: any, year: number): { player?: any; stats?: any } {
-    // Common field name mappings
-    const fieldMap = {
-      // Player info
-      player_id: ['player_id', 'id', 'sleeper_id', 'Player_ID', 'playerID'],
-      first_name: ['first_name', 'fname', 'First_Name', 'firstName', 'first'],
-      last_name: ['last_name', 'lname', 'Last_Name', 'lastName', 'last'],
-      position: ['position', 'pos', 'Position', 'Pos'],
-      team: ['team', 'Team', 'tm', 'Tm'],
-      college: ['college', 'College', 'school'],
-      height: ['height', 'Height', 'ht'],
-      weight: ['weight', 'Weight', 'wt'],
-      age: ['age', 'Age'],
-      years_exp: ['years_exp', 'experience', 'exp', 'Years_Exp'],
-      
-      // Stats
-      passing_attempts: ['pass_att', 'passing_attempts', 'Pass_Att', 'Att'],
-      passing_completions: ['pass_cmp', 'passing_completions', 'Pass_Cmp', 'Cmp'],
-      passing_yards: ['pass_yds', 'passing_yards', 'Pass_Yds', 'PassYds'],
-      passing_tds: ['pass_td', 'passing_tds', 'Pass_TD', 'PassTD'],
-      passing_interceptions: ['pass_int', 'passing_interceptions', 'Pass_Int', 'Int'],
-      
-      rushing_attempts: ['rush_att', 'rushing_attempts', 'Rush_Att', 'RushAtt'],
-      rushing_yards: ['rush_yds', 'rushing_yards', 'Rush_Yds', 'RushYds'],
-      rushing_tds: ['rush_td', 'rushing_tds', 'Rush_TD', 'RushTD'],
-      
-      receiving_targets: ['rec_tgt', 'receiving_targets', 'Rec_Tgt', 'Targets'],
-      receiving_receptions: ['rec', 'receiving_receptions', 'Rec', 'Receptions'],
-      receiving_yards: ['rec_yds', 'receiving_yards', 'Rec_Yds', 'RecYds'],
-      receiving_tds: ['rec_td', 'receiving_tds', 'Rec_TD', 'RecTD'],
-      
-      fantasy_points: ['fantasy_points', 'fpts', 'FantasyPoints', 'Fantasy_Points'],
-      games_played: ['games_played', 'games', 'GP', 'G']
-    };
-
-    const getValue = (fieldKey: string): any => {
-      const possibleFields = fieldMap[fieldKey as keyof typeof fieldMap] || [fieldKey];
+  private normalizePlayerRecord(
+    record: RawRecord,
+    year: number,
+    source: HistoricalDataSource
+  ): { player?: any; stats?: any } {
+    const getValue = (fieldKey: NormalizedField): any => {
+      const possibleFields = source.fieldMap[fieldKey] || [fieldKey];
       for (const field of possibleFields) {
         if (record[field] !== undefined && record[field] !== null && record[field] !== '') {
           return record[field];
@@ -253,9 +208,31 @@ export class DataIngestionService {
       return null;
     };
 
-    // Generate player ID if not present
-    const playerId = getValue('player_id') || 
-                    `${getValue('first_name')}_${getValue('last_name')}_${getValue('team')}`.replace(/\s+/g, '_');
+    // Sources with a single name column
+    if (!getValue('first_name') && !getValue('last_name') && getValue('full_name')) {
+      const [first, ...rest] = String(getValue('full_name')).trim().split(/\s+/);
+      record = { ...record, first_name: first, last_name: rest.join(' ') };
+    }
+
+    // Match the record to a Sleeper player; unmatched records go to review
+    const sourceId: unknown = getValue('player_id');
+    const name: unknown =
+      getValue('full_name') || `${getValue('first_name') ?? ''} ${getValue('last_name') ?? ''}`;
+    const birthDate: unknown = getValue('birth_date');
+    const query = {
+      idType: source.idType,
+      externalId: sourceId ? String(sourceId) : null,
+      name: String(name).trim() || null,
+      position: getValue('position') ? String(getValue('position')) : null,
+      team: getValue('team') ? String(getValue('team')) : null,
+      birthDate: birthDate ? String(birthDate) : null,
+    };
+    const match = this.resolver.resolve(query);
+    if (!('player_id' in match)) {
+      this.resolver.flagUnresolved({ ...match, source: source.name, season: year });
+      return {};
+    }
+    const playerId = match.player_id;
 
     const result: { player?: any; stats?: any } = {};
 
@@ -272,7 +249,7 @@ export class DataIngestionService {
         weight: parseInt(getValue('weight')) || null,
         age: parseInt(getValue('age')) || null,
         years_exp: parseInt(getValue('years_exp')) || null,
-        birth_date: null // Usually not in historical data
+        birth_date: birthDate ? String(birthDate) : null,
       };
     }
 
@@ -302,7 +279,8 @@ export class DataIngestionService {
         fantasy_points: parseFloat(getValue('fantasy_points')) || 0,
         ppr_points: parseFloat(getValue('ppr_points')) || 0,
         games_played: parseInt(getValue('games_played')) || 0,
-        games_started: parseInt(getValue('games_started')) || 0
+        games_started: parseInt(getValue('games_started')) || 0,
+        opponent: getValue('opponent') as string | null,
       };
     }
 
@@ -0,0 +1,7 @@
+DROP VIEW IF EXISTS current_season_leaders;
+DROP VIEW IF EXISTS player_career_stats;
+
+DROP TABLE IF EXISTS teams;
+DROP TABLE IF EXISTS player_current_data;
+DROP TABLE IF EXISTS player_season_stats;
+DROP TABLE IF EXISTS players;
@@ -1,5 +1,6 @@
 -- Analytics Database Schema for NFL Player Data
 -- Optimized for time-series analysis and ML features
+-- IF NOT EXISTS adopts databases set up before versioned migrations
 
 -- Core player information (relatively static)
 CREATE TABLE IF NOT EXISTS players (
@@ -117,4 +118,4 @@ FROM players p
 JOIN player_season_stats pss ON p.player_id = pss.player_id
 WHERE pss.season = EXTRACT(YEAR FROM CURRENT_DATE)
 GROUP BY p.player_id, p.first_name, p.last_name, p.position, p.team
-ORDER BY season_fantasy_points DESC;
\ No newline at end of file
+ORDER BY season_fantasy_points DESC;
@@ -0,0 +1,43 @@
+DROP TABLE IF EXISTS weekly_stats_sync;
+DROP TABLE IF EXISTS player_weekly_projections;
+
+ALTER TABLE player_season_stats
+    DROP COLUMN IF EXISTS passing_2pt,
+    DROP COLUMN IF EXISTS rushing_2pt,
+    DROP COLUMN IF EXISTS receiving_2pt,
+    DROP COLUMN IF EXISTS fumbles_lost,
+    DROP COLUMN IF EXISTS fg_made,
+    DROP COLUMN IF EXISTS fg_attempts,
+    DROP COLUMN IF EXISTS fg_made_0_19,
+    DROP COLUMN IF EXISTS fg_made_20_29,
+    DROP COLUMN IF EXISTS fg_made_30_39,
+    DROP COLUMN IF EXISTS fg_made_40_49,
+    DROP COLUMN IF EXISTS fg_made_50_plus,
+    DROP COLUMN IF EXISTS fg_missed,
+    DROP COLUMN IF EXISTS xp_made,
+    DROP COLUMN IF EXISTS xp_attempts,
+    DROP COLUMN IF EXISTS xp_missed,
+    DROP COLUMN IF EXISTS idp_solo_tackles,
+    DROP COLUMN IF EXISTS idp_assisted_tackles,
+    DROP COLUMN IF EXISTS idp_tackles_for_loss,
+    DROP COLUMN IF EXISTS idp_sacks,
+    DROP COLUMN IF EXISTS idp_qb_hits,
+    DROP COLUMN IF EXISTS idp_interceptions,
+    DROP COLUMN IF EXISTS idp_forced_fumbles,
+    DROP COLUMN IF EXISTS idp_fumble_recoveries,
+    DROP COLUMN IF EXISTS idp_passes_defended,
+    DROP COLUMN IF EXISTS idp_tds,
+    DROP COLUMN IF EXISTS idp_safeties,
+    DROP COLUMN IF EXISTS def_sacks,
+    DROP COLUMN IF EXISTS def_interceptions,
+    DROP COLUMN IF EXISTS def_forced_fumbles,
+    DROP COLUMN IF EXISTS def_fumble_recoveries,
+    DROP COLUMN IF EXISTS def_safeties,
+    DROP COLUMN IF EXISTS def_blocked_kicks,
+    DROP COLUMN IF EXISTS def_tds,
+    DROP COLUMN IF EXISTS def_st_tds,
+    DROP COLUMN IF EXISTS def_points_allowed,
+    DROP COLUMN IF EXISTS def_yards_allowed,
+    DROP COLUMN IF EXISTS half_ppr_points,
+    DROP COLUMN IF EXISTS raw_stats,
+    DROP COLUMN IF EXISTS updated_at;
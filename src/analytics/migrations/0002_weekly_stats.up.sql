@@ -0,0 +1,70 @@
+-- Weekly game-level stats from Sleeper (kicking, IDP and team defense)
+ALTER TABLE player_season_stats
+    ADD COLUMN IF NOT EXISTS passing_2pt INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS rushing_2pt INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS receiving_2pt INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fumbles_lost INTEGER DEFAULT 0,
+
+    ADD COLUMN IF NOT EXISTS fg_made INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_attempts INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_made_0_19 INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_made_20_29 INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_made_30_39 INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_made_40_49 INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_made_50_plus INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS fg_missed INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS xp_made INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS xp_attempts INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS xp_missed INTEGER DEFAULT 0,
+
+    ADD COLUMN IF NOT EXISTS idp_solo_tackles INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_assisted_tackles INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_tackles_for_loss INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_sacks DECIMAL(4,1) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_qb_hits INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_interceptions INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_forced_fumbles INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_fumble_recoveries INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_passes_defended INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_tds INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS idp_safeties INTEGER DEFAULT 0,
+
+    ADD COLUMN IF NOT EXISTS def_sacks DECIMAL(4,1) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_interceptions INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_forced_fumbles INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_fumble_recoveries INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_safeties INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_blocked_kicks INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_tds INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_st_tds INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_points_allowed INTEGER DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS def_yards_allowed INTEGER DEFAULT 0,
+
+    ADD COLUMN IF NOT EXISTS half_ppr_points DECIMAL(6,2) DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS raw_stats JSONB, -- Every Sleeper stat key for the week
+    ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+-- Sleeper weekly projections, one row per player/week
+CREATE TABLE IF NOT EXISTS player_weekly_projections (
+    player_id VARCHAR(20) REFERENCES players(player_id),
+    season INTEGER,
+    week INTEGER,
+    fantasy_points DECIMAL(6,2) DEFAULT 0,
+    half_ppr_points DECIMAL(6,2) DEFAULT 0,
+    ppr_points DECIMAL(6,2) DEFAULT 0,
+    raw_stats JSONB,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (player_id, season, week)
+);
+
+-- Weekly stats ingestion progress; complete weeks are not fetched again
+CREATE TABLE IF NOT EXISTS weekly_stats_sync (
+    season INTEGER,
+    week INTEGER,
+    complete BOOLEAN DEFAULT FALSE,
+    stats_rows INTEGER DEFAULT 0,
+    projection_rows INTEGER DEFAULT 0,
+    synced_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    PRIMARY KEY (season, week)
+);
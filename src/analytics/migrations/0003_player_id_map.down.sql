@@ -0,0 +1,2 @@
+DROP TABLE IF EXISTS player_id_review;
+DROP TABLE IF EXISTS player_id_map;
@@ -0,0 +1,31 @@
+-- Player IDs from other systems (GSIS, ESPN, ...) mapped to our player_id
+CREATE TABLE IF NOT EXISTS player_id_map (
+    id_type VARCHAR(20),
+    external_id VARCHAR(50),
+    player_id VARCHAR(20) REFERENCES players(player_id),
+    match_method VARCHAR(20), -- explicit, sleeper_ids, fuzzy
+    confidence DECIMAL(3,2),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (id_type, external_id)
+);
+
+-- Ingested records that could not be matched to a player
+CREATE TABLE IF NOT EXISTS player_id_review (
+    source VARCHAR(50),
+    record_key VARCHAR(150), -- external ID, or name|team without one
+    id_type VARCHAR(20),
+    external_id VARCHAR(50),
+    full_name VARCHAR(150),
+    position VARCHAR(10),
+    team VARCHAR(5),
+    birth_date DATE,
+    season INTEGER,
+    reason VARCHAR(20), -- no_candidates, ambiguous
+    candidates JSONB, -- player_ids that matched by name
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (source, record_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_id_map_player ON player_id_map(player_id);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS projection_models;
+
+ALTER TABLE player_season_stats DROP COLUMN IF EXISTS opponent;
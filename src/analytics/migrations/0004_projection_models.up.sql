@@ -0,0 +1,12 @@
+-- Opponent for each game, used to rate defenses in projections
+ALTER TABLE player_season_stats ADD COLUMN IF NOT EXISTS opponent VARCHAR(5);
+
+-- Trained projection models, newest used for projections
+CREATE TABLE IF NOT EXISTS projection_models (
+    id SERIAL PRIMARY KEY,
+    trained_through INTEGER NOT NULL,
+    data_checksum VARCHAR(64) NOT NULL, -- sha256 of the training games
+    model JSONB NOT NULL,
+    backtest JSONB, -- accuracy on trained_through, fitting on earlier seasons
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { Migrator, SchemaAheadError, loadMigrations } from './migrator';
+
+describe('Migrator', () => {
+  let directory: string;
+  let applied: Array<{ version: number; name: string; checksum: string; applied_at: Date }>;
+  let executed: string[];
+
+  const client = {
+    query: jest.fn((text: string, params: unknown[] = []) => {
+      if (text.startsWith('SELECT version')) {
+        return Promise.resolve({ rows: [...applied] });
+      }
+      if (text.startsWith('INSERT INTO schema_migrations')) {
+        const [version, name, checksum] = params as [number, string, string];
+        applied.push({ version, name, checksum, applied_at: new Date() });
+      } else if (text.startsWith('DELETE FROM schema_migrations')) {
+        applied = applied.filter((row) => row.version !== params[0]);
+      } else if (!/^(\s*CREATE TABLE IF NOT EXISTS schema_migrations|SELECT pg_)/.test(text)) {
+        executed.push(text.trim());
+      }
+      return Promise.resolve({ rows: [] });
+    }),
+    release: jest.fn(),
+  };
+  const migrator = () =>
+    new Migrator(() => Promise.resolve(client as unknown as PoolClient), directory);
+
+  async function write(file: string, content: string) {
+    await fs.writeFile(path.join(directory, file), content);
+  }
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'migrations-'));
+    applied = [];
+    executed = [];
+    await write('0001_players.up.sql', 'CREATE TABLE players ()');
+    await write('0001_players.down.sql', 'DROP TABLE players');
+    await write('0002_stats.up.sql', 'CREATE TABLE stats ()');
+    await write('0002_stats.down.sql', 'DROP TABLE stats');
+    await write('README.md', 'not a migration');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should load the bundled migrations in order with down scripts', async () => {
+    const migrations = await loadMigrations();
+
+    expect(migrations.map((migration) => migration.version)).toEqual([1, 2, 3, 4]);
+    expect(
+      migrations.every((migration) => migration.down && migration.checksum.length === 64)
+    ).toBe(true);
+  });
+
+  it('should apply pending migrations in transactions and report status', async () => {
+    expect(await migrator().up(1)).toEqual([1]);
+    expect(await migrator().up()).toEqual([2]);
+    expect(await migrator().up()).toEqual([]);
+
+    expect(executed).toEqual([
+      'BEGIN',
+      'CREATE TABLE players ()',
+      'COMMIT',
+      'BEGIN',
+      'CREATE TABLE stats ()',
+      'COMMIT',
+    ]);
+    expect((await migrator().status()).map((migration) => migration.state)).toEqual([
+      'applied',
+      'applied',
+    ]);
+    expect(client.release).toHaveBeenCalledTimes(4);
+  });
+
+  it('should roll back the latest migrations', async () => {
+    await migrator().up();
+    executed = [];
+
+    expect(await migrator().down()).toEqual([2]);
+    expect(await migrator().down({ target: 0 })).toEqual([1]);
+    expect(executed).toEqual([
+      'BEGIN',
+      'DROP TABLE stats',
+      'COMMIT',
+      'BEGIN',
+      'DROP TABLE players',
+      'COMMIT',
+    ]);
+    expect(applied).toEqual([]);
+  });
+
+  it('should refuse to run when the database is ahead of the code or a migration changed', async () => {
+    await migrator().up();
+    applied.push({ version: 3, name: 'future', checksum: 'x', applied_at: new Date() });
+
+    await expect(migrator().up()).rejects.toThrow(SchemaAheadError);
+    expect((await migrator().status()).map((migration) => migration.state)).toEqual([
+      'applied',
+      'applied',
+      'unknown',
+    ]);
+
+    applied.pop();
+    await write('0002_stats.up.sql', 'CREATE TABLE stats (id INTEGER)');
+    await expect(migrator().up()).rejects.toThrow('was changed after it was applied');
+    expect((await migrator().status())[1].state).toBe('modified');
+  });
+});
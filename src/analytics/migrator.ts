@@ -0,0 +1,276 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+
+export const MIGRATIONS_DIRECTORY = path.join(__dirname, 'migrations');
+
+// Held while migrating so two processes starting together don't both apply
+const MIGRATION_LOCK_ID = 7_342_001;
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  // sha256 of the up script, to catch edits to migrations already applied
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'modified' | 'unknown';
+  applied_at: Date | null;
+}
+
+/**
+ * The database has migrations this build doesn't know about, so it was
+ * migrated by newer code. Running against it could corrupt data.
+ */
+export class SchemaAheadError extends Error {
+  constructor(
+    readonly databaseVersion: number,
+    readonly codeVersion: number
+  ) {
+    super(
+      `Analytics database schema is at version ${databaseVersion} but this build only knows ` +
+        `migrations up to ${codeVersion}. Deploy a newer build or roll back with that build's ` +
+        '`migrate down`.'
+    );
+    this.name = 'SchemaAheadError';
+  }
+}
+
+/**
+ * Read NNNN_name.up.sql / NNNN_name.down.sql pairs from a directory, in
+ * version order
+ */
+export async function loadMigrations(
+  directory: string = MIGRATIONS_DIRECTORY
+): Promise<Migration[]> {
+  const migrations = new Map<number, Partial<Migration> & { name: string }>();
+
+  for (const file of (await fs.readdir(directory)).sort()) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, versionText, name, direction] = match;
+    const version = parseInt(versionText, 10);
+    const migration = migrations.get(version) ?? { version, name };
+    if (migration.name !== name) {
+      throw new Error(`Migration ${version} has two names: ${migration.name} and ${name}`);
+    }
+
+    const sql = await fs.readFile(path.join(directory, file), 'utf-8');
+    if (direction === 'up') {
+      migration.up = sql;
+      migration.checksum = createHash('sha256').update(sql).digest('hex');
+    } else {
+      migration.down = sql;
+    }
+    migrations.set(version, migration);
+  }
+
+  return [...migrations.values()]
+    .map((migration) => {
+      if (migration.up === undefined || migration.checksum === undefined) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no up script`);
+      }
+      return {
+        version: migration.version as number,
+        name: migration.name,
+        up: migration.up,
+        down: migration.down ?? null,
+        checksum: migration.checksum,
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Applies and rolls back the analytics schema migrations, recording each in
+ * the schema_migrations table. Every migration runs in its own transaction.
+ */
+export class Migrator {
+  private migrations?: Migration[];
+
+  constructor(
+    private readonly connect: () => Promise<PoolClient>,
+    private readonly directory: string = MIGRATIONS_DIRECTORY
+  ) {}
+
+  /**
+   * Every migration known to the code or recorded in the database
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.withClient(async (client) => {
+      const migrations = await this.getMigrations();
+      const applied = await this.getApplied(client);
+
+      const statuses: MigrationStatus[] = migrations.map((migration) => {
+        const record = applied.get(migration.version);
+        let state: MigrationStatus['state'] = 'pending';
+        if (record) {
+          state = record.checksum === migration.checksum ? 'applied' : 'modified';
+        }
+        return {
+          version: migration.version,
+          name: migration.name,
+          state,
+          applied_at: record?.applied_at ?? null,
+        };
+      });
+      for (const record of applied.values()) {
+        if (!migrations.some((migration) => migration.version === record.version)) {
+          statuses.push({
+            version: record.version,
+            name: record.name,
+            state: 'unknown',
+            applied_at: record.applied_at,
+          });
+        }
+      }
+      return statuses.sort((a, b) => a.version - b.version);
+    });
+  }
+
+  /**
+   * Apply pending migrations up to and including `target` (all by default).
+   * Refuses to run when the database is ahead of the code or an applied
+   * migration was edited. Returns the versions applied.
+   */
+  async up(target?: number): Promise<number[]> {
+    return this.withLock(async (client) => {
+      const migrations = await this.getMigrations();
+      const applied = await this.getApplied(client);
+      this.verify(migrations, applied);
+
+      const pending = migrations.filter(
+        (migration) =>
+          !applied.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+      for (const migration of pending) {
+        logger.info(`Applying migration ${migration.version}_${migration.name}`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.up);
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+            [migration.version, migration.name, migration.checksum]
+          );
+        });
+      }
+      return pending.map((migration) => migration.version);
+    });
+  }
+
+  /**
+   * Roll back the most recent `steps` migrations, or every migration above
+   * `target` when given. Returns the versions rolled back.
+   */
+  async down(options: { steps?: number; target?: number } = {}): Promise<number[]> {
+    return this.withLock(async (client) => {
+      const migrations = await this.getMigrations();
+      const applied = await this.getApplied(client);
+      this.verify(migrations, applied);
+
+      const versions = [...applied.keys()].sort((a, b) => b - a);
+      const rollback =
+        options.target !== undefined
+          ? versions.filter((version) => version > (options.target as number))
+          : versions.slice(0, options.steps ?? 1);
+
+      for (const version of rollback) {
+        const migration = migrations.find((candidate) => candidate.version === version);
+        if (!migration?.down) {
+          throw new Error(`Migration ${version} has no down script`);
+        }
+        logger.info(`Rolling back migration ${migration.version}_${migration.name}`);
+        await this.inTransaction(client, async () => {
+          await client.query(migration.down as string);
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [version]);
+        });
+      }
+      return rollback;
+    });
+  }
+
+  private verify(migrations: Migration[], applied: Map<number, AppliedMigration>): void {
+    const codeVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+    const databaseVersion = Math.max(0, ...applied.keys());
+    if (databaseVersion > codeVersion) {
+      throw new SchemaAheadError(databaseVersion, codeVersion);
+    }
+
+    for (const migration of migrations) {
+      const record = applied.get(migration.version);
+      if (record && record.checksum !== migration.checksum) {
+        throw new Error(
+          `Migration ${migration.version}_${migration.name} was changed after it was applied. ` +
+            'Add a new migration instead of editing an applied one.'
+        );
+      }
+    }
+  }
+
+  private async getMigrations(): Promise<Migration[]> {
+    this.migrations ??= await loadMigrations(this.directory);
+    return this.migrations;
+  }
+
+  private async getApplied(client: PoolClient): Promise<Map<number, AppliedMigration>> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(100) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    const result = await client.query<AppliedMigration>(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    );
+    return new Map(result.rows.map((row) => [row.version, row]));
+  }
+
+  private async inTransaction(client: PoolClient, callback: () => Promise<void>): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await callback();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async withLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        return await callback(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    });
+  }
+
+  private async withClient<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.connect();
+    try {
+      return await callback(client);
+    } finally {
+      client.release();
+    }
+  }
+}
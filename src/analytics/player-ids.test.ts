@@ -0,0 +1,117 @@
+import { PlayerIdResolver, normalizeName } from './player-ids';
+import { SleeperPlayer } from '../types/sleeper';
+
+jest.mock('./database', () => ({ analyticsDB: {} }));
+
+function player(overrides: Partial<SleeperPlayer>): SleeperPlayer {
+  return {
+    player_id: '1',
+    full_name: 'Test Player',
+    position: 'WR',
+    fantasy_positions: ['WR'],
+    team: 'KC',
+    ...overrides,
+  } as SleeperPlayer;
+}
+
+describe('normalizeName', () => {
+  it('should ignore case, punctuation and suffixes', () => {
+    expect(normalizeName('Odell Beckham Jr.')).toBe('odell beckham');
+    expect(normalizeName("D'Andre  Swift")).toBe('dandre swift');
+    expect(normalizeName('Michael Pittman II')).toBe('michael pittman');
+  });
+});
+
+describe('PlayerIdResolver', () => {
+  let resolver: PlayerIdResolver;
+
+  beforeEach(() => {
+    resolver = new PlayerIdResolver();
+    resolver.loadPlayers([
+      player({
+        player_id: '4046',
+        full_name: 'Patrick Mahomes',
+        position: 'QB',
+        gsis_id: ' 00-0033873',
+        espn_id: 3139477 as never,
+      }),
+      player({
+        player_id: '100',
+        full_name: 'Mike Williams',
+        team: 'LAC',
+        birth_date: '1994-10-04',
+      }),
+      player({
+        player_id: '200',
+        full_name: 'Mike Williams',
+        team: 'NYJ',
+        birth_date: '1998-01-01',
+      }),
+      player({
+        player_id: '300',
+        full_name: 'Mike Williams',
+        position: 'TE',
+        fantasy_positions: ['TE'],
+        team: 'TB',
+      }),
+    ]);
+  });
+
+  it('should prefer explicit mappings over the IDs Sleeper publishes', () => {
+    resolver.addMappings('gsis', new Map([['00-0033873', '9999']]));
+
+    expect(resolver.resolve({ idType: 'gsis', externalId: '00-0033873' })).toEqual({
+      player_id: '9999',
+      method: 'explicit',
+      confidence: 1,
+    });
+  });
+
+  it('should match the IDs in the Sleeper payload', () => {
+    expect(resolver.resolve({ idType: 'gsis', externalId: '00-0033873' })).toMatchObject({
+      player_id: '4046',
+      method: 'sleeper_ids',
+    });
+    expect(resolver.resolve({ idType: 'espn', externalId: '3139477' })).toMatchObject({
+      player_id: '4046',
+    });
+    expect(resolver.resolve({ idType: 'sleeper', externalId: '4046' })).toMatchObject({
+      player_id: '4046',
+    });
+  });
+
+  it('should fall back to name, position, birth date and team', () => {
+    expect(
+      resolver.resolve({
+        idType: 'espn',
+        externalId: 'x1',
+        name: 'Patrick Mahomes II',
+        position: 'QB',
+      })
+    ).toEqual({ player_id: '4046', method: 'fuzzy', confidence: 0.85 });
+    expect(
+      resolver.resolve({ name: 'Mike Williams', position: 'WR', birthDate: '1994-10-04T00:00:00Z' })
+    ).toMatchObject({ player_id: '100', confidence: 0.95 });
+    expect(resolver.resolve({ name: 'Mike Williams', position: 'WR', team: 'NYJ' })).toMatchObject({
+      player_id: '200',
+      confidence: 0.8,
+    });
+    expect(resolver.resolve({ name: 'Mike Williams', position: 'TE' })).toMatchObject({
+      player_id: '300',
+    });
+  });
+
+  it('should report ambiguous and unknown players', () => {
+    expect(resolver.resolve({ name: 'Mike Williams', position: 'WR' })).toMatchObject({
+      reason: 'ambiguous',
+      candidates: ['100', '200'],
+    });
+    expect(resolver.resolve({ idType: 'gsis', externalId: '00-1', name: 'Nobody' })).toMatchObject({
+      reason: 'no_candidates',
+      external_id: '00-1',
+      candidates: [],
+    });
+    // A name alone is not enough, even with a single candidate
+    expect(resolver.resolve({ name: 'Patrick Mahomes' })).toMatchObject({ reason: 'ambiguous' });
+  });
+});
@@ -0,0 +1,362 @@
+import { analyticsDB } from './database';
+import { PlayerIdCrosswalk } from './sources';
+import { sleeperAPI } from '../api/client';
+import { logger } from '../utils/logger';
+import { SleeperPlayer } from '../types/sleeper';
+
+/**
+ * ID systems players can be matched by. Every one but 'sleeper' is also a
+ * `<type>_id` field in Sleeper's player payload.
+ */
+export const PLAYER_ID_TYPES = [
+  'sleeper',
+  'gsis',
+  'espn',
+  'yahoo',
+  'sportradar',
+  'rotowire',
+  'rotoworld',
+  'fantasy_data',
+  'stats',
+  'swish',
+] as const;
+
+export type PlayerIdType = (typeof PLAYER_ID_TYPES)[number];
+
+export type MatchMethod = 'explicit' | 'sleeper_ids' | 'fuzzy';
+
+export interface PlayerQuery {
+  idType?: string;
+  externalId?: string | null;
+  name?: string | null;
+  position?: string | null;
+  team?: string | null;
+  birthDate?: string | null;
+}
+
+export interface PlayerMatch {
+  player_id: string;
+  method: MatchMethod;
+  confidence: number;
+}
+
+export interface UnresolvedPlayer {
+  source: string;
+  id_type: string | null;
+  external_id: string | null;
+  name: string | null;
+  position: string | null;
+  team: string | null;
+  birth_date: string | null;
+  season: number | null;
+  reason: 'no_candidates' | 'ambiguous';
+  candidates: string[];
+}
+
+interface PlayerIdentity {
+  player_id: string;
+  position: string | null;
+  positions: string[];
+  team: string | null;
+  birth_date: string | null;
+}
+
+// Fuzzy matches at or above this confidence are accepted
+const MIN_FUZZY_CONFIDENCE = 0.75;
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+/**
+ * Lowercase a player name and drop punctuation and generational suffixes, so
+ * "Odell Beckham Jr." and "odell beckham" compare equal
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.'’`-]/g, '')
+    .split(/\s+/)
+    .filter((part) => part && !NAME_SUFFIXES.has(part))
+    .join(' ');
+}
+
+function normalizeDate(value: string | null | undefined): string | null {
+  const parsed = value ? Date.parse(value) : NaN;
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString().slice(0, 10);
+}
+
+function reviewKey(entry: UnresolvedPlayer): string {
+  return entry.external_id ?? `${entry.name ?? ''}|${entry.team ?? ''}`;
+}
+
+function idKey(idType: string, externalId: string): string {
+  return `${idType}:${externalId.trim()}`;
+}
+
+/**
+ * Resolves players from other ID systems to our player_id (the Sleeper ID).
+ *
+ * Matching tries, in order: explicit mappings (crosswalk files and matches
+ * saved in player_id_map), the IDs Sleeper publishes for each player, then
+ * name + birth date + position. Anything left over is queued for the
+ * player_id_review report instead of being stored under an orphan ID.
+ */
+export class PlayerIdResolver {
+  private readonly mappings = new Map<string, PlayerMatch>();
+  private readonly sleeperIds = new Map<string, string>();
+  private readonly byName = new Map<string, PlayerIdentity[]>();
+  private readonly pendingMappings = new Map<string, PlayerMatch & { idType: string }>();
+  private readonly pendingReview = new Map<string, UnresolvedPlayer>();
+  private loaded = false;
+
+  /**
+   * Index Sleeper's players and the saved mappings. Uses the Sleeper payload
+   * stored with current player data when present, so no network is needed.
+   */
+  async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    const stored = (await analyticsDB.query(
+      'SELECT sleeper_data FROM player_current_data WHERE sleeper_data IS NOT NULL'
+    )) as { rows: Array<{ sleeper_data: SleeperPlayer }> };
+    const players =
+      stored.rows.length > 0
+        ? stored.rows.map((row) => row.sleeper_data)
+        : Object.values(
+            ((await sleeperAPI.getAllPlayers('nfl')) as Record<string, SleeperPlayer> | null) || {}
+          );
+    this.loadPlayers(players);
+
+    const saved = (await analyticsDB.query(
+      'SELECT id_type, external_id, player_id, match_method, confidence FROM player_id_map'
+    )) as {
+      rows: Array<{
+        id_type: string;
+        external_id: string;
+        player_id: string;
+        match_method: MatchMethod;
+        confidence: string | number;
+      }>;
+    };
+    for (const row of saved.rows) {
+      this.mappings.set(idKey(row.id_type, row.external_id), {
+        player_id: row.player_id,
+        method: row.match_method,
+        confidence: Number(row.confidence),
+      });
+    }
+
+    this.loaded = true;
+    logger.info(
+      `Player ID resolver loaded ${players.length} players and ${saved.rows.length} mappings`
+    );
+  }
+
+  /**
+   * Index players from Sleeper's getAllPlayers payload
+   */
+  loadPlayers(players: SleeperPlayer[]): void {
+    for (const player of players) {
+      const fields = player as unknown as Record<string, unknown>;
+      for (const idType of PLAYER_ID_TYPES) {
+        const value = idType === 'sleeper' ? player.player_id : fields[`${idType}_id`];
+        if ((typeof value === 'string' && value.trim()) || typeof value === 'number') {
+          this.sleeperIds.set(idKey(idType, String(value)), player.player_id);
+        }
+      }
+
+      const name = player.full_name || `${player.first_name ?? ''} ${player.last_name ?? ''}`;
+      const key = normalizeName(name);
+      if (key) {
+        this.byName.set(key, [
+          ...(this.byName.get(key) || []),
+          {
+            player_id: player.player_id,
+            position: player.position ?? null,
+            positions: player.fantasy_positions?.length
+              ? player.fantasy_positions
+              : [player.position].filter(Boolean),
+            team: player.team ?? null,
+            birth_date: normalizeDate(player.birth_date),
+          },
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Explicit source ID -> player_id mappings, e.g. from a crosswalk file.
+   * These win over every other kind of match.
+   */
+  addMappings(idType: string, crosswalk: PlayerIdCrosswalk): void {
+    for (const [externalId, playerId] of crosswalk) {
+      const match: PlayerMatch = { player_id: playerId, method: 'explicit', confidence: 1 };
+      this.mappings.set(idKey(idType, externalId), match);
+      this.pendingMappings.set(idKey(idType, externalId), { ...match, idType });
+    }
+  }
+
+  /**
+   * Match a player, or return the reason it could not be matched
+   */
+  resolve(query: PlayerQuery): PlayerMatch | Omit<UnresolvedPlayer, 'source' | 'season'> {
+    const { idType, externalId } = query;
+    if (idType && externalId) {
+      const key = idKey(idType, externalId);
+      const mapped = this.mappings.get(key);
+      if (mapped) {
+        return mapped;
+      }
+      const sleeperId = this.sleeperIds.get(key);
+      if (sleeperId) {
+        return this.remember(idType, externalId, {
+          player_id: sleeperId,
+          method: 'sleeper_ids',
+          confidence: 1,
+        });
+      }
+    }
+
+    const { match, candidates } = this.fuzzyMatch(query);
+    if (match) {
+      return idType && externalId ? this.remember(idType, externalId, match) : match;
+    }
+    return {
+      id_type: idType ?? null,
+      external_id: externalId ?? null,
+      name: query.name ?? null,
+      position: query.position ?? null,
+      team: query.team ?? null,
+      birth_date: query.birthDate ?? null,
+      reason: candidates.length > 0 ? 'ambiguous' : 'no_candidates',
+      candidates,
+    };
+  }
+
+  /**
+   * Queue an unresolved record for the review report
+   */
+  flagUnresolved(unresolved: UnresolvedPlayer): void {
+    this.pendingReview.set(`${unresolved.source}:${reviewKey(unresolved)}`, unresolved);
+  }
+
+  /**
+   * Save new mappings to player_id_map and unresolved records to
+   * player_id_review. Returns how many of each were written.
+   */
+  async flush(): Promise<{ mappings: number; review: number }> {
+    const mappings = [...this.pendingMappings.entries()];
+    const review = [...this.pendingReview.values()];
+
+    await analyticsDB.transaction(async (client) => {
+      for (const [key, match] of mappings) {
+        const externalId = key.slice(match.idType.length + 1);
+        // Explicit and Sleeper-published IDs can reference players not synced yet
+        await client.query(
+          `INSERT INTO players (player_id, sleeper_id) VALUES ($1, $1) ON CONFLICT DO NOTHING`,
+          [match.player_id]
+        );
+        await client.query(
+          `INSERT INTO player_id_map (id_type, external_id, player_id, match_method, confidence, updated_at)
+           VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP)
+           ON CONFLICT (id_type, external_id) DO UPDATE SET
+             player_id = EXCLUDED.player_id,
+             match_method = EXCLUDED.match_method,
+             confidence = EXCLUDED.confidence,
+             updated_at = CURRENT_TIMESTAMP`,
+          [match.idType, externalId, match.player_id, match.method, match.confidence]
+        );
+      }
+      for (const entry of review) {
+        await client.query(
+          `INSERT INTO player_id_review (
+             source, record_key, id_type, external_id, full_name, position, team, birth_date,
+             season, reason, candidates, updated_at
+           ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, CURRENT_TIMESTAMP)
+           ON CONFLICT (source, record_key) DO UPDATE SET
+             season = GREATEST(player_id_review.season, EXCLUDED.season),
+             reason = EXCLUDED.reason,
+             candidates = EXCLUDED.candidates,
+             updated_at = CURRENT_TIMESTAMP`,
+          [
+            entry.source,
+            reviewKey(entry),
+            entry.id_type,
+            entry.external_id,
+            entry.name,
+            entry.position,
+            entry.team,
+            normalizeDate(entry.birth_date),
+            entry.season,
+            entry.reason,
+            JSON.stringify(entry.candidates),
+          ]
+        );
+      }
+    });
+
+    this.pendingMappings.clear();
+    this.pendingReview.clear();
+    return { mappings: mappings.length, review: review.length };
+  }
+
+  private remember(idType: string, externalId: string, match: PlayerMatch): PlayerMatch {
+    this.mappings.set(idKey(idType, externalId), match);
+    this.pendingMappings.set(idKey(idType, externalId), { ...match, idType });
+    return match;
+  }
+
+  /**
+   * Players with the same normalized name, narrowed by position, then birth
+   * date, then team. Only a single remaining candidate is a match.
+   */
+  private fuzzyMatch(query: PlayerQuery): { match: PlayerMatch | null; candidates: string[] } {
+    let candidates = query.name ? this.byName.get(normalizeName(query.name)) || [] : [];
+    let confidence = 0.7;
+
+    const position = query.position?.toUpperCase();
+    if (position) {
+      candidates = candidates.filter(
+        (candidate) => candidate.position === position || candidate.positions.includes(position)
+      );
+      confidence = 0.85;
+    }
+    const birthDate = normalizeDate(query.birthDate);
+    if (birthDate && candidates.length > 0) {
+      candidates = candidates.filter(
+        (candidate) => candidate.birth_date === null || candidate.birth_date === birthDate
+      );
+      if (candidates.some((candidate) => candidate.birth_date === birthDate)) {
+        candidates = candidates.filter((candidate) => candidate.birth_date === birthDate);
+        confidence = 0.95;
+      }
+    }
+    if (candidates.length > 1 && query.team) {
+      const sameTeam = candidates.filter((candidate) => candidate.team === query.team);
+      if (sameTeam.length === 1) {
+        candidates = sameTeam;
+        confidence = Math.min(confidence, 0.8);
+      }
+    }
+
+    const ids = candidates.map((candidate) => candidate.player_id);
+    return candidates.length === 1 && confidence >= MIN_FUZZY_CONFIDENCE
+      ? { match: { player_id: ids[0], method: 'fuzzy', confidence }, candidates: ids }
+      : { match: null, candidates: ids };
+  }
+}
+
+/**
+ * Unresolved records awaiting review, most recent season first
+ */
+export async function getReviewReport(source?: string): Promise<UnresolvedPlayer[]> {
+  const result = (await analyticsDB.query(
+    `SELECT source, id_type, external_id, full_name AS name, position, team,
+            TO_CHAR(birth_date, 'YYYY-MM-DD') AS birth_date, season, reason, candidates
+     FROM player_id_review
+     WHERE $1::text IS NULL OR source = $1
+     ORDER BY season DESC NULLS LAST, source, full_name`,
+    [source ?? null]
+  )) as { rows: UnresolvedPlayer[] };
+  return result.rows;
+}
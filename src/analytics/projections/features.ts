@@ -0,0 +1,323 @@
+import { createHash } from 'crypto';
+import { scoreStats, statsFromSeasonRow } from '../../scoring/engine';
+
+export type ProjectedPosition = 'QB' | 'RB' | 'WR' | 'TE';
+
+export type StatColumn =
+  | 'passing_attempts'
+  | 'passing_completions'
+  | 'passing_yards'
+  | 'passing_tds'
+  | 'passing_interceptions'
+  | 'rushing_attempts'
+  | 'rushing_yards'
+  | 'rushing_tds'
+  | 'receiving_targets'
+  | 'receiving_receptions'
+  | 'receiving_yards'
+  | 'receiving_tds';
+
+// player_season_stats columns projected for each position
+export const PROJECTED_STATS: Record<ProjectedPosition, StatColumn[]> = {
+  QB: [
+    'passing_attempts',
+    'passing_completions',
+    'passing_yards',
+    'passing_tds',
+    'passing_interceptions',
+    'rushing_attempts',
+    'rushing_yards',
+    'rushing_tds',
+  ],
+  RB: [
+    'rushing_attempts',
+    'rushing_yards',
+    'rushing_tds',
+    'receiving_targets',
+    'receiving_receptions',
+    'receiving_yards',
+    'receiving_tds',
+  ],
+  WR: [
+    'receiving_targets',
+    'receiving_receptions',
+    'receiving_yards',
+    'receiving_tds',
+    'rushing_attempts',
+    'rushing_yards',
+  ],
+  TE: ['receiving_targets', 'receiving_receptions', 'receiving_yards', 'receiving_tds'],
+};
+
+export const STAT_COLUMNS = [...new Set(Object.values(PROJECTED_STATS).flat())];
+
+// Full PPR, used to rate defenses and report backtest points whatever the league
+export const REFERENCE_SCORING: Record<string, number> = {
+  pass_yd: 0.04,
+  pass_td: 4,
+  pass_int: -2,
+  rush_yd: 0.1,
+  rush_td: 6,
+  rec: 1,
+  rec_yd: 0.1,
+  rec_td: 6,
+};
+
+/**
+ * One player's stat line for one week
+ */
+export interface PlayerGame {
+  player_id: string;
+  season: number;
+  week: number;
+  position: ProjectedPosition;
+  team: string | null;
+  opponent: string | null;
+  birth_date: string | null;
+  stats: Record<StatColumn, number>;
+  points: number;
+}
+
+/**
+ * The game being projected
+ */
+export interface GameContext {
+  season: number;
+  week: number;
+  team: string | null;
+  opponent: string | null;
+}
+
+// Games averaged for recent usage
+export const RECENT_GAMES = 4;
+// Players need this many prior games to be projected
+export const MIN_HISTORY_GAMES = 2;
+// Games of league-average defense blended into each team's rating
+const DEFENSE_PRIOR_GAMES = 4;
+// Age the age curve is centered on
+const PEAK_AGE = 27;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isProjectedPosition(position: unknown): position is ProjectedPosition {
+  return typeof position === 'string' && position in PROJECTED_STATS;
+}
+
+/**
+ * Turn a player_season_stats row (joined with the player's position and birth
+ * date) into a game, or null for positions without a model
+ */
+export function gameFromRow(row: Record<string, unknown>): PlayerGame | null {
+  const position = row.position;
+  if (!isProjectedPosition(position)) {
+    return null;
+  }
+
+  const stats = {} as Record<StatColumn, number>;
+  for (const column of STAT_COLUMNS) {
+    stats[column] = Number(row[column]) || 0;
+  }
+  return {
+    player_id: String(row.player_id),
+    season: Number(row.season),
+    week: Number(row.week),
+    position,
+    team: typeof row.team === 'string' ? row.team : null,
+    opponent: typeof row.opponent === 'string' ? row.opponent : null,
+    birth_date: typeof row.birth_date === 'string' ? row.birth_date : null,
+    stats,
+    points: scoreStats(statsFromSeasonRow(stats), REFERENCE_SCORING, position).points,
+  };
+}
+
+/**
+ * Whether the player took part in the game, as opposed to a zero row
+ */
+export function played(game: PlayerGame): boolean {
+  return (
+    game.stats.passing_attempts + game.stats.rushing_attempts + game.stats.receiving_targets > 0
+  );
+}
+
+export function compareGames(a: PlayerGame, b: PlayerGame): number {
+  return a.season - b.season || a.week - b.week || a.player_id.localeCompare(b.player_id);
+}
+
+/**
+ * sha256 of the games in a canonical order, recorded with each model so a
+ * training run can be matched to the data it saw
+ */
+export function dataChecksum(games: PlayerGame[]): string {
+  const hash = createHash('sha256');
+  for (const game of [...games].sort(compareGames)) {
+    hash.update(
+      JSON.stringify([
+        game.player_id,
+        game.season,
+        game.week,
+        game.position,
+        game.team,
+        game.opponent,
+        game.birth_date,
+        STAT_COLUMNS.map((column) => game.stats[column]),
+      ])
+    );
+  }
+  return hash.digest('hex');
+}
+
+export function featureNames(position: ProjectedPosition): string[] {
+  return [
+    ...PROJECTED_STATS[position].flatMap((stat) => [
+      `recent_${stat}`,
+      `season_${stat}`,
+      `prior_${stat}`,
+    ]),
+    'experience',
+    'age',
+    'age_squared',
+    'age_unknown',
+    'new_team',
+    'opponent_defense',
+  ];
+}
+
+function average(games: PlayerGame[], stat: StatColumn): number {
+  return games.length > 0
+    ? games.reduce((sum, game) => sum + game.stats[stat], 0) / games.length
+    : 0;
+}
+
+function ageAt(birthDate: string | null, context: GameContext): number | null {
+  const born = birthDate ? Date.parse(birthDate) : NaN;
+  if (Number.isNaN(born)) {
+    return null;
+  }
+  // Week 1 falls around September 7th
+  const gameDay = Date.UTC(context.season, 8, 7) + (context.week - 1) * 7 * DAY_MS;
+  return (gameDay - born) / (365.25 * DAY_MS);
+}
+
+/**
+ * Features for a game from the player's earlier games (oldest first, played
+ * games only), in featureNames order. Null when there is too little history.
+ */
+export function buildFeatures(
+  position: ProjectedPosition,
+  history: PlayerGame[],
+  context: GameContext,
+  birthDate: string | null,
+  defense: DefenseRatings
+): number[] | null {
+  if (history.length < MIN_HISTORY_GAMES) {
+    return null;
+  }
+
+  const recent = history.slice(-RECENT_GAMES);
+  const thisSeason = history.filter((game) => game.season === context.season);
+  const priorSeason = Math.max(
+    ...history.filter((game) => game.season < context.season).map((game) => game.season),
+    0
+  );
+  const prior = history.filter((game) => game.season === priorSeason);
+
+  const usage = PROJECTED_STATS[position].flatMap((stat) => {
+    const recentAverage = average(recent, stat);
+    const priorAverage = prior.length > 0 ? average(prior, stat) : recentAverage;
+    // Early in a season, lean on last season until this one has some games
+    const seasonAverage = thisSeason.length > 0 ? average(thisSeason, stat) : priorAverage;
+    return [recentAverage, seasonAverage, priorAverage];
+  });
+
+  const age = ageAt(birthDate, context);
+  const centeredAge = age === null ? 0 : age - PEAK_AGE;
+  const lastTeamBeforeSeason = prior.length > 0 ? prior[prior.length - 1].team : null;
+  const newTeam =
+    context.team !== null && lastTeamBeforeSeason !== null && context.team !== lastTeamBeforeSeason;
+
+  return [
+    ...usage,
+    Math.min(history.length, 32) / 32,
+    centeredAge,
+    centeredAge ** 2,
+    age === null ? 1 : 0,
+    newTeam ? 1 : 0,
+    defense.factor(context.season, context.week, context.opponent, position) - 1,
+  ];
+}
+
+interface DefenseSummary {
+  leagueAverage: number;
+  teams: Map<string, { points: number; games: number }>;
+}
+
+/**
+ * How many reference points each defense allows to a position relative to
+ * the league, from the weeks of a season before the one asked about. Ratings
+ * are shrunk toward average so a defense's first games don't dominate.
+ */
+export class DefenseRatings {
+  // season -> week -> `${defense}:${position}` -> points allowed that week
+  private readonly allowed = new Map<number, Map<number, Map<string, number>>>();
+  private readonly summaries = new Map<string, DefenseSummary>();
+
+  constructor(games: PlayerGame[]) {
+    for (const game of games) {
+      if (!game.opponent) {
+        continue;
+      }
+      const season = this.allowed.get(game.season) ?? new Map<number, Map<string, number>>();
+      const week = season.get(game.week) ?? new Map<string, number>();
+      const key = `${game.opponent}:${game.position}`;
+      week.set(key, (week.get(key) ?? 0) + game.points);
+      season.set(game.week, week);
+      this.allowed.set(game.season, season);
+    }
+  }
+
+  factor(season: number, week: number, opponent: string | null, position: string): number {
+    if (!opponent) {
+      return 1;
+    }
+    const summary = this.summarize(season, week, position);
+    if (summary.leagueAverage === 0) {
+      return 1;
+    }
+
+    const team = summary.teams.get(opponent) ?? { points: 0, games: 0 };
+    const shrunk =
+      (team.points + DEFENSE_PRIOR_GAMES * summary.leagueAverage) /
+      (team.games + DEFENSE_PRIOR_GAMES);
+    return shrunk / summary.leagueAverage;
+  }
+
+  private summarize(season: number, week: number, position: string): DefenseSummary {
+    const cacheKey = `${season}:${week}:${position}`;
+    const cached = this.summaries.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const teams = new Map<string, { points: number; games: number }>();
+    let leaguePoints = 0;
+    let leagueGames = 0;
+    for (const [weekNumber, totals] of this.allowed.get(season) ?? []) {
+      if (weekNumber >= week) {
+        continue;
+      }
+      for (const [key, points] of totals) {
+        const [defense, keyPosition] = key.split(':');
+        if (keyPosition !== position) {
+          continue;
+        }
+        const team = teams.get(defense) ?? { points: 0, games: 0 };
+        teams.set(defense, { points: team.points + points, games: team.games + 1 });
+        leaguePoints += points;
+        leagueGames += 1;
+      }
+    }
+
+    const summary = { leagueAverage: leagueGames > 0 ? leaguePoints / leagueGames : 0, teams };
+    this.summaries.set(cacheKey, summary);
+    return summary;
+  }
+}
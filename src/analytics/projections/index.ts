@@ -0,0 +1,8 @@
+export * from './features';
+export * from './model';
+export { fitRidge, predictLinear, quantile } from './regression';
+export type { LinearModel } from './regression';
+export { latestWeek, loadGames, loadLatestModel, saveModel } from './store';
+export type { GameFilter, StoredModel } from './store';
+export { PlayerProjector, playerProjector } from './projector';
+export type { PlayerStatProjection } from './projector';
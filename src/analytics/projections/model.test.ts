@@ -0,0 +1,162 @@
+import {
+  DefenseRatings,
+  PlayerGame,
+  REFERENCE_SCORING,
+  StatColumn,
+  STAT_COLUMNS,
+  backtest,
+  fitRidge,
+  predictLinear,
+  projectStatLine,
+  buildFeatures,
+  scoreStatLine,
+  statsFromLine,
+  trainModel,
+} from '.';
+
+jest.mock('../database', () => ({ analyticsDB: {} }));
+
+// Deterministic pseudo-random numbers so every run sees the same league
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return state / 2_147_483_648;
+  };
+}
+
+const DEFENSES = ['BAD', 'AVG1', 'AVG2', 'AVG3', 'GOOD'];
+
+/**
+ * Wide receivers with a fixed target share; BAD gives up 40% more yards
+ */
+function league(seasons: number[]): PlayerGame[] {
+  const next = random(42);
+  const games: PlayerGame[] = [];
+  for (let player = 0; player < 30; player++) {
+    const targetRate = 3 + (player % 10);
+    for (const season of seasons) {
+      for (let week = 1; week <= 17; week++) {
+        const opponent = DEFENSES[(player + week) % DEFENSES.length];
+        const targets = Math.max(0, Math.round(targetRate + (next() - 0.5) * 6));
+        const receptions = Math.round(targets * (0.5 + next() * 0.3));
+        const yards = Math.round(
+          receptions * (8 + next() * 8) * (opponent === 'BAD' ? 1.4 : opponent === 'GOOD' ? 0.7 : 1)
+        );
+        const stats = Object.fromEntries(STAT_COLUMNS.map((column) => [column, 0])) as Record<
+          StatColumn,
+          number
+        >;
+        stats.receiving_targets = targets;
+        stats.receiving_receptions = receptions;
+        stats.receiving_yards = yards;
+        stats.receiving_tds = next() < yards / 400 ? 1 : 0;
+        games.push({
+          player_id: `wr${player}`,
+          season,
+          week,
+          position: 'WR',
+          team: 'KC',
+          opponent,
+          birth_date: `${1990 + (player % 8)}-06-01`,
+          stats,
+          points: receptions + yards / 10 + stats.receiving_tds * 6,
+        });
+      }
+    }
+  }
+  return games;
+}
+
+describe('fitRidge', () => {
+  it('should recover a linear relationship', () => {
+    const rows = [
+      [1, 2],
+      [2, 1],
+      [3, 5],
+      [4, 3],
+      [5, 8],
+    ];
+    const model = fitRidge(
+      rows,
+      rows.map(([a, b]) => 2 + 3 * a - b),
+      1e-9
+    );
+
+    expect(predictLinear(model, [10, 4])).toBeCloseTo(28, 6);
+  });
+});
+
+describe('projection model', () => {
+  const games = league([2021, 2022, 2023]);
+
+  it('should rate defenses from earlier weeks only', () => {
+    const ratings = new DefenseRatings(games);
+
+    expect(ratings.factor(2022, 1, 'BAD', 'WR')).toBe(1);
+    expect(ratings.factor(2022, 10, 'BAD', 'WR')).toBeGreaterThan(1.1);
+    expect(ratings.factor(2022, 10, 'GOOD', 'WR')).toBeLessThan(0.9);
+    expect(ratings.factor(2022, 10, null, 'WR')).toBe(1);
+  });
+
+  it('should train reproducibly whatever order the games arrive in', () => {
+    const model = trainModel(games, { throughSeason: 2022 });
+
+    expect(model.seasons).toEqual([2021, 2022]);
+    expect(model.positions.WR?.features).toContain('opponent_defense');
+    expect(JSON.stringify(trainModel([...games].reverse(), { throughSeason: 2022 }))).toBe(
+      JSON.stringify(model)
+    );
+  });
+
+  it('should project stat lines with intervals that rise with usage and soft defenses', () => {
+    const model = trainModel(games);
+    const ratings = new DefenseRatings(games);
+    const project = (player: string, opponent: string) => {
+      const history = games.filter((game) => game.player_id === player);
+      const features = buildFeatures(
+        'WR',
+        history,
+        { season: 2023, week: 18, team: 'KC', opponent },
+        history[0].birth_date,
+        ratings
+      );
+      return projectStatLine(model, 'WR', features as number[]);
+    };
+
+    const low = project('wr0', 'AVG1');
+    const high = project('wr9', 'AVG1');
+    const soft = project('wr9', 'BAD');
+    expect(high?.receiving_targets?.mean).toBeGreaterThan((low?.receiving_targets?.mean ?? 0) + 4);
+    expect(soft?.receiving_yards?.mean).toBeGreaterThan(high?.receiving_yards?.mean ?? 0);
+    for (const projection of Object.values(high ?? {})) {
+      expect(projection.low).toBeLessThanOrEqual(projection.mean);
+      expect(projection.high).toBeGreaterThanOrEqual(projection.mean);
+    }
+
+    const line = high as NonNullable<typeof high>;
+    expect(statsFromLine(line).rec_tgt).toBe(line.receiving_targets?.mean);
+    const points = scoreStatLine(line, REFERENCE_SCORING, 'WR');
+    expect(points.low).toBeLessThan(points.mean);
+    expect(points.high).toBeGreaterThan(points.mean);
+    // Half PPR scores the same line lower
+    expect(scoreStatLine(line, { ...REFERENCE_SCORING, rec: 0.5 }, 'WR').mean).toBeLessThan(
+      points.mean
+    );
+  });
+
+  it('should backtest a season against the recent-average baseline', () => {
+    const report = backtest(games, 2023);
+    const receivers = report.positions.WR;
+
+    expect(report.trained_through).toBe(2022);
+    // Every game with targets; zero-target rows count as not played
+    expect(receivers?.examples).toBeGreaterThan(500);
+    expect(receivers?.stats.receiving_targets?.mae).toBeLessThan(
+      receivers?.stats.receiving_targets?.baseline_mae ?? 0
+    );
+    expect(receivers?.points.mae).toBeLessThan(receivers?.points.baseline_mae ?? 0);
+    expect(receivers?.stats.receiving_yards?.coverage).toBeGreaterThan(0.65);
+    expect(receivers?.stats.receiving_yards?.coverage).toBeLessThan(0.95);
+  });
+});
@@ -0,0 +1,345 @@
+import { scoreStats, SEASON_STATS_COLUMNS } from '../../scoring/engine';
+import { SleeperPlayerStats } from '../../types/sleeper';
+import {
+  DefenseRatings,
+  PlayerGame,
+  PROJECTED_STATS,
+  ProjectedPosition,
+  REFERENCE_SCORING,
+  RECENT_GAMES,
+  StatColumn,
+  buildFeatures,
+  compareGames,
+  dataChecksum,
+  featureNames,
+  played,
+} from './features';
+import { LinearModel, fitRidge, predictLinear, quantile } from './regression';
+
+export const MODEL_FORMAT_VERSION = 1;
+
+export interface TrainingOptions {
+  // Last season used for training (default: the latest in the data)
+  throughSeason?: number;
+  // Ridge penalty on standardized features
+  lambda?: number;
+  // Share of outcomes the prediction interval should cover
+  intervalLevel?: number;
+}
+
+export interface StatModel extends LinearModel {
+  // Residual quantiles scaled by sqrt(prediction), since counting stats
+  // spread out as they grow
+  interval: [number, number];
+  examples: number;
+}
+
+export interface PositionModel {
+  features: string[];
+  stats: Partial<Record<StatColumn, StatModel>>;
+}
+
+/**
+ * A trained projection model. Plain data, so it can be stored as JSON.
+ */
+export interface ProjectionModel {
+  format: number;
+  trained_through: number;
+  seasons: number[];
+  lambda: number;
+  interval_level: number;
+  examples: number;
+  data_checksum: string;
+  positions: Partial<Record<ProjectedPosition, PositionModel>>;
+}
+
+export interface StatProjection {
+  mean: number;
+  low: number;
+  high: number;
+}
+
+export type StatLine = Partial<Record<StatColumn, StatProjection>>;
+
+export interface StatAccuracy {
+  examples: number;
+  mae: number;
+  rmse: number;
+  bias: number;
+  // Share of actual values inside the prediction interval
+  coverage: number;
+  // MAE of the average of the previous RECENT_GAMES games
+  baseline_mae: number;
+}
+
+export interface BacktestReport {
+  season: number;
+  trained_through: number;
+  interval_level: number;
+  positions: Partial<
+    Record<
+      ProjectedPosition,
+      {
+        examples: number;
+        // Full PPR points from the projected stat line
+        points: StatAccuracy;
+        stats: Partial<Record<StatColumn, StatAccuracy>>;
+      }
+    >
+  >;
+}
+
+interface Example {
+  game: PlayerGame;
+  features: number[];
+  baseline: Record<StatColumn, number>;
+}
+
+const DEFAULT_LAMBDA = 10;
+const DEFAULT_INTERVAL_LEVEL = 0.8;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function spread(prediction: number): number {
+  return Math.sqrt(Math.max(prediction, 1));
+}
+
+/**
+ * Every played game with enough earlier games to build features, grouped by
+ * position. Features only ever look at games before the one they describe.
+ */
+function buildExamples(
+  games: PlayerGame[],
+  defense: DefenseRatings
+): Map<ProjectedPosition, Example[]> {
+  const byPlayer = new Map<string, PlayerGame[]>();
+  for (const game of games.filter(played).sort(compareGames)) {
+    const playerGames = byPlayer.get(game.player_id) ?? [];
+    playerGames.push(game);
+    byPlayer.set(game.player_id, playerGames);
+  }
+
+  const examples = new Map<ProjectedPosition, Example[]>();
+  for (const playerGames of byPlayer.values()) {
+    playerGames.forEach((game, index) => {
+      const history = playerGames.slice(0, index);
+      const features = buildFeatures(game.position, history, game, game.birth_date, defense);
+      if (!features) {
+        return;
+      }
+      const recent = history.slice(-RECENT_GAMES);
+      const baseline = {} as Record<StatColumn, number>;
+      for (const stat of PROJECTED_STATS[game.position]) {
+        baseline[stat] = recent.reduce((sum, prior) => sum + prior.stats[stat], 0) / recent.length;
+      }
+      const positionExamples = examples.get(game.position) ?? [];
+      positionExamples.push({ game, features, baseline });
+      examples.set(game.position, positionExamples);
+    });
+  }
+  return examples;
+}
+
+function fitPositions(
+  examples: Map<ProjectedPosition, Example[]>,
+  lambda: number,
+  intervalLevel: number
+): Partial<Record<ProjectedPosition, PositionModel>> {
+  const tail = (1 - intervalLevel) / 2;
+  const positions: Partial<Record<ProjectedPosition, PositionModel>> = {};
+
+  for (const [position, rows] of examples) {
+    const stats: Partial<Record<StatColumn, StatModel>> = {};
+    for (const stat of PROJECTED_STATS[position]) {
+      const features = rows.map((row) => row.features);
+      const targets = rows.map((row) => row.game.stats[stat]);
+      const linear = fitRidge(features, targets, lambda);
+      const scaledResiduals = rows.map((row, i) => {
+        const prediction = Math.max(0, predictLinear(linear, row.features));
+        return (targets[i] - prediction) / spread(prediction);
+      });
+      stats[stat] = {
+        ...linear,
+        interval: [quantile(scaledResiduals, tail), quantile(scaledResiduals, 1 - tail)],
+        examples: rows.length,
+      };
+    }
+    positions[position] = { features: featureNames(position), stats };
+  }
+  return positions;
+}
+
+/**
+ * Fit a ridge regression per position and stat on every season up to
+ * throughSeason. Deterministic: the same games and options always give the
+ * same model.
+ */
+export function trainModel(games: PlayerGame[], options: TrainingOptions = {}): ProjectionModel {
+  const throughSeason =
+    options.throughSeason ?? games.reduce((latest, game) => Math.max(latest, game.season), 0);
+  const lambda = options.lambda ?? DEFAULT_LAMBDA;
+  const intervalLevel = options.intervalLevel ?? DEFAULT_INTERVAL_LEVEL;
+
+  const training = games.filter((game) => game.season <= throughSeason).sort(compareGames);
+  const examples = buildExamples(training, new DefenseRatings(training));
+  const count = [...examples.values()].reduce((sum, rows) => sum + rows.length, 0);
+  if (count === 0) {
+    throw new Error(`Not enough games through ${throughSeason} to train a projection model`);
+  }
+
+  return {
+    format: MODEL_FORMAT_VERSION,
+    trained_through: throughSeason,
+    seasons: [...new Set(training.map((game) => game.season))].sort((a, b) => a - b),
+    lambda,
+    interval_level: intervalLevel,
+    examples: count,
+    data_checksum: dataChecksum(training),
+    positions: fitPositions(examples, lambda, intervalLevel),
+  };
+}
+
+/**
+ * Project a stat line from features built with buildFeatures. Null when the
+ * model has no fit for the position.
+ */
+export function projectStatLine(
+  model: ProjectionModel,
+  position: ProjectedPosition,
+  features: number[]
+): StatLine | null {
+  const positionModel = model.positions[position];
+  if (!positionModel) {
+    return null;
+  }
+
+  const line: StatLine = {};
+  for (const [stat, statModel] of Object.entries(positionModel.stats) as Array<
+    [StatColumn, StatModel]
+  >) {
+    const mean = Math.max(0, predictLinear(statModel, features));
+    line[stat] = {
+      mean: round(mean),
+      low: round(Math.max(0, mean + statModel.interval[0] * spread(mean))),
+      high: round(Math.max(0, mean + statModel.interval[1] * spread(mean))),
+    };
+  }
+  return line;
+}
+
+/**
+ * Sleeper stat keys for one bound of a stat line, for scoreStats
+ */
+export function statsFromLine(
+  line: StatLine,
+  bound: keyof StatProjection = 'mean'
+): SleeperPlayerStats {
+  const stats: SleeperPlayerStats = {};
+  for (const [column, projection] of Object.entries(line) as Array<[StatColumn, StatProjection]>) {
+    stats[SEASON_STATS_COLUMNS[column]] = projection[bound];
+  }
+  return stats;
+}
+
+/**
+ * Points for a projected stat line under a league's scoring settings. The
+ * range scores every stat at the end of its interval that hurts (low) or
+ * helps (high) the player, so it is wider than the true points interval.
+ */
+export function scoreStatLine(
+  line: StatLine,
+  scoringSettings: Record<string, number>,
+  position?: string
+): StatProjection {
+  const floor: SleeperPlayerStats = {};
+  const ceiling: SleeperPlayerStats = {};
+  for (const [column, projection] of Object.entries(line) as Array<[StatColumn, StatProjection]>) {
+    const stat = SEASON_STATS_COLUMNS[column];
+    const penalized = (scoringSettings[stat] ?? 0) < 0;
+    floor[stat] = penalized ? projection.high : projection.low;
+    ceiling[stat] = penalized ? projection.low : projection.high;
+  }
+  return {
+    mean: scoreStats(statsFromLine(line), scoringSettings, position).points,
+    low: scoreStats(floor, scoringSettings, position).points,
+    high: scoreStats(ceiling, scoringSettings, position).points,
+  };
+}
+
+function accuracy(rows: Array<{ predicted: StatProjection; actual: number; baseline: number }>) {
+  const n = rows.length;
+  const errors = rows.map((row) => row.predicted.mean - row.actual);
+  return {
+    examples: n,
+    mae: round(errors.reduce((sum, error) => sum + Math.abs(error), 0) / n),
+    rmse: round(Math.sqrt(errors.reduce((sum, error) => sum + error ** 2, 0) / n)),
+    bias: round(errors.reduce((sum, error) => sum + error, 0) / n),
+    coverage: round(
+      rows.filter((row) => row.actual >= row.predicted.low && row.actual <= row.predicted.high)
+        .length / n
+    ),
+    baseline_mae: round(
+      rows.reduce((sum, row) => sum + Math.abs(row.baseline - row.actual), 0) / n
+    ),
+  };
+}
+
+/**
+ * Train on the seasons before `season` and score every game of `season`
+ * against the projections, alongside the recent-average baseline
+ */
+export function backtest(
+  games: PlayerGame[],
+  season: number,
+  options: Omit<TrainingOptions, 'throughSeason'> = {}
+): BacktestReport {
+  const model = trainModel(games, { ...options, throughSeason: season - 1 });
+  // Earlier weeks of the test season feed features and defense ratings, as
+  // they would have when projecting each week live
+  const visible = games.filter((game) => game.season <= season).sort(compareGames);
+  const examples = buildExamples(visible, new DefenseRatings(visible));
+
+  const report: BacktestReport = {
+    season,
+    trained_through: model.trained_through,
+    interval_level: model.interval_level,
+    positions: {},
+  };
+  for (const [position, rows] of examples) {
+    const tested = rows.filter((row) => row.game.season === season);
+    const projected = tested
+      .map((row) => ({ row, line: projectStatLine(model, position, row.features) }))
+      .filter((entry): entry is { row: Example; line: StatLine } => entry.line !== null);
+    if (projected.length === 0) {
+      continue;
+    }
+
+    const stats: Partial<Record<StatColumn, StatAccuracy>> = {};
+    for (const stat of PROJECTED_STATS[position]) {
+      stats[stat] = accuracy(
+        projected.map(({ row, line }) => ({
+          predicted: line[stat] as StatProjection,
+          actual: row.game.stats[stat],
+          baseline: row.baseline[stat],
+        }))
+      );
+    }
+    const points = accuracy(
+      projected.map(({ row, line }) => {
+        const baselineLine: StatLine = {};
+        for (const [stat, value] of Object.entries(row.baseline) as Array<[StatColumn, number]>) {
+          baselineLine[stat] = { mean: value, low: value, high: value };
+        }
+        return {
+          predicted: scoreStatLine(line, REFERENCE_SCORING, position),
+          actual: row.game.points,
+          baseline: scoreStatLine(baselineLine, REFERENCE_SCORING, position).mean,
+        };
+      })
+    );
+    report.positions[position] = { examples: projected.length, points, stats };
+  }
+  return report;
+}
@@ -0,0 +1,126 @@
+import { analyticsDB } from '../database';
+import {
+  DefenseRatings,
+  GameContext,
+  REFERENCE_SCORING,
+  buildFeatures,
+  isProjectedPosition,
+  played,
+} from './features';
+import { StatLine, StatProjection, projectStatLine, scoreStatLine } from './model';
+import { StoredModel, latestWeek, loadGames, loadLatestModel } from './store';
+
+export interface PlayerStatProjection {
+  player_id: string;
+  position: string;
+  season: number;
+  week: number;
+  opponent: string | null;
+  model_id: number;
+  trained_through: number;
+  interval_level: number;
+  stat_line: StatLine;
+  // Full PPR points; score stat_line with scoreStatLine for other leagues
+  fantasy_points: StatProjection;
+}
+
+function regularSeasonWeeks(season: number): number {
+  return season >= 2021 ? 18 : 17;
+}
+
+/**
+ * Projects a player's next game with the most recently trained model
+ */
+export class PlayerProjector {
+  private model?: Promise<StoredModel | null>;
+  // Ratings for the week being projected, rebuilt once new weeks are loaded
+  private defense?: { key: string; ratings: Promise<DefenseRatings> };
+
+  /**
+   * Forget the cached model, e.g. after training a new one
+   */
+  reload(): void {
+    this.model = undefined;
+    this.defense = undefined;
+  }
+
+  async getModel(): Promise<StoredModel | null> {
+    this.model ??= loadLatestModel().catch((error) => {
+      this.model = undefined;
+      throw error;
+    });
+    return this.model;
+  }
+
+  /**
+   * Stat line projection for the game after the latest week in the database,
+   * or null without a trained model or enough history for the player
+   */
+  async projectPlayer(
+    playerId: string,
+    options: { opponent?: string } = {}
+  ): Promise<PlayerStatProjection | null> {
+    const [stored, latest] = await Promise.all([this.getModel(), latestWeek()]);
+    if (!stored || !latest) {
+      return null;
+    }
+
+    const playerResult = (await analyticsDB.query(
+      `SELECT position, team, TO_CHAR(birth_date, 'YYYY-MM-DD') AS birth_date
+       FROM players WHERE player_id = $1`,
+      [playerId]
+    )) as {
+      rows: Array<{ position: string | null; team: string | null; birth_date: string | null }>;
+    };
+    const player = playerResult.rows[0];
+    if (!player || !isProjectedPosition(player.position)) {
+      return null;
+    }
+
+    const seasonOver = latest.week >= regularSeasonWeeks(latest.season);
+    const context: GameContext = {
+      season: seasonOver ? latest.season + 1 : latest.season,
+      week: seasonOver ? 1 : latest.week + 1,
+      team: player.team,
+      opponent: options.opponent ?? null,
+    };
+    const history = (await loadGames({ playerId, toSeason: context.season })).filter(played);
+    const features = buildFeatures(
+      player.position,
+      history,
+      context,
+      player.birth_date,
+      await this.defenseRatings(context)
+    );
+    const line = features ? projectStatLine(stored.model, player.position, features) : null;
+    if (!line) {
+      return null;
+    }
+
+    return {
+      player_id: playerId,
+      position: player.position,
+      season: context.season,
+      week: context.week,
+      opponent: context.opponent,
+      model_id: stored.id,
+      trained_through: stored.model.trained_through,
+      interval_level: stored.model.interval_level,
+      stat_line: line,
+      fantasy_points: scoreStatLine(line, REFERENCE_SCORING, player.position),
+    };
+  }
+
+  private async defenseRatings(context: GameContext): Promise<DefenseRatings> {
+    const key = `${context.season}:${context.week}`;
+    if (this.defense?.key !== key) {
+      const ratings = loadGames({ fromSeason: context.season, toSeason: context.season }).then(
+        (games) => new DefenseRatings(games)
+      );
+      this.defense = { key, ratings };
+    }
+    return this.defense.ratings;
+  }
+}
+
+export const playerProjector = new PlayerProjector();
@@ -0,0 +1,118 @@
+/**
+ * A fitted linear model over standardized features
+ */
+export interface LinearModel {
+  intercept: number;
+  coefficients: number[];
+  means: number[];
+  scales: number[];
+}
+
+/**
+ * Ridge regression via the normal equations. Features are standardized so a
+ * single penalty treats them alike; the intercept is not penalized.
+ */
+export function fitRidge(rows: number[][], targets: number[], lambda: number): LinearModel {
+  if (rows.length === 0) {
+    throw new Error('Cannot fit a model without training rows');
+  }
+
+  const width = rows[0].length;
+  const means = new Array<number>(width).fill(0);
+  const scales = new Array<number>(width).fill(0);
+  for (const row of rows) {
+    row.forEach((value, j) => (means[j] += value / rows.length));
+  }
+  for (const row of rows) {
+    row.forEach((value, j) => (scales[j] += (value - means[j]) ** 2 / rows.length));
+  }
+  for (let j = 0; j < width; j++) {
+    // Constant features get a zero coefficient rather than dividing by zero
+    scales[j] = Math.sqrt(scales[j]) || 1;
+  }
+
+  const targetMean = targets.reduce((sum, value) => sum + value, 0) / targets.length;
+  const gram = Array.from({ length: width }, (_, j) =>
+    Array.from({ length: width }, (__, k) => (j === k ? lambda : 0))
+  );
+  const moment = new Array<number>(width).fill(0);
+  rows.forEach((row, i) => {
+    const x = row.map((value, j) => (value - means[j]) / scales[j]);
+    const y = targets[i] - targetMean;
+    for (let j = 0; j < width; j++) {
+      moment[j] += x[j] * y;
+      for (let k = j; k < width; k++) {
+        gram[j][k] += x[j] * x[k];
+      }
+    }
+  });
+  for (let j = 0; j < width; j++) {
+    for (let k = 0; k < j; k++) {
+      gram[j][k] = gram[k][j];
+    }
+  }
+
+  return { intercept: targetMean, coefficients: solve(gram, moment), means, scales };
+}
+
+export function predictLinear(model: LinearModel, features: number[]): number {
+  return features.reduce(
+    (sum, value, j) => sum + ((value - model.means[j]) / model.scales[j]) * model.coefficients[j],
+    model.intercept
+  );
+}
+
+/**
+ * Linear interpolated quantile of unsorted values
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Solve a symmetric positive definite system by Gaussian elimination with
+ * partial pivoting
+ */
+function solve(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) {
+        pivot = row;
+      }
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    if (Math.abs(a[col][col]) < 1e-12) {
+      continue;
+    }
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    if (Math.abs(a[row][row]) < 1e-12) {
+      continue;
+    }
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row][k] * solution[k];
+    }
+    solution[row] = sum / a[row][row];
+  }
+  return solution;
+}
@@ -0,0 +1,73 @@
+import { analyticsDB } from '../database';
+import { PlayerGame, STAT_COLUMNS, gameFromRow } from './features';
+import { BacktestReport, ProjectionModel } from './model';
+
+export interface GameFilter {
+  playerId?: string;
+  fromSeason?: number;
+  toSeason?: number;
+}
+
+export interface StoredModel {
+  id: number;
+  created_at: Date;
+  model: ProjectionModel;
+  backtest: BacktestReport | null;
+}
+
+/**
+ * Weekly games for the projected positions from player_season_stats, oldest
+ * first. Season-total rows (week 0) are left out.
+ */
+export async function loadGames(filter: GameFilter = {}): Promise<PlayerGame[]> {
+  const result = (await analyticsDB.query(
+    `SELECT pss.player_id, pss.season, pss.week, pss.team, pss.opponent,
+            COALESCE(pss.position, p.position) AS position,
+            TO_CHAR(p.birth_date, 'YYYY-MM-DD') AS birth_date,
+            ${STAT_COLUMNS.map((column) => `pss.${column}`).join(', ')}
+     FROM player_season_stats pss
+     JOIN players p ON p.player_id = pss.player_id
+     WHERE pss.week > 0
+       AND ($1::text IS NULL OR pss.player_id = $1)
+       AND ($2::int IS NULL OR pss.season >= $2)
+       AND ($3::int IS NULL OR pss.season <= $3)
+     ORDER BY pss.season, pss.week, pss.player_id`,
+    [filter.playerId ?? null, filter.fromSeason ?? null, filter.toSeason ?? null]
+  )) as { rows: Array<Record<string, unknown>> };
+
+  return result.rows
+    .map((row) => gameFromRow(row))
+    .filter((game): game is PlayerGame => game !== null);
+}
+
+/**
+ * The last week with stats, or null for an empty database
+ */
+export async function latestWeek(): Promise<{ season: number; week: number } | null> {
+  const result = (await analyticsDB.query(
+    `SELECT season, MAX(week) AS week FROM player_season_stats
+     WHERE week > 0 GROUP BY season ORDER BY season DESC LIMIT 1`
+  )) as { rows: Array<{ season: number; week: number }> };
+  const row = result.rows[0];
+  return row ? { season: Number(row.season), week: Number(row.week) } : null;
+}
+
+export async function saveModel(
+  model: ProjectionModel,
+  backtest: BacktestReport | null
+): Promise<number> {
+  const result = (await analyticsDB.query(
+    `INSERT INTO projection_models (trained_through, data_checksum, model, backtest)
+     VALUES ($1, $2, $3, $4) RETURNING id`,
+    [model.trained_through, model.data_checksum, JSON.stringify(model), JSON.stringify(backtest)]
+  )) as { rows: Array<{ id: number }> };
+  return result.rows[0].id;
+}
+
+export async function loadLatestModel(): Promise<StoredModel | null> {
+  const result = (await analyticsDB.query(
+    `SELECT id, created_at, model, backtest FROM projection_models
+     ORDER BY created_at DESC, id DESC LIMIT 1`
+  )) as { rows: StoredModel[] };
+  return result.rows[0] ?? null;
+}
@@ -1,5 +1,8 @@
-import { analyticsDB } from './database';
-import { dataIngestion } from './ingestion';
+import { SeasonProductionRow, analyticsDB } from './database';
+import { dataIngestion, ProgressReporter } from './ingestion';
+import { SchemaAheadError } from './migrator';
+import { PlayerStatProjection, playerProjector } from './projections';
+import { HistoricalDataSource } from './sources';
 import { logger } from '../utils/logger';
 
 export class AnalyticsService {
@@ -16,6 +19,10 @@ export class AnalyticsService {
     } catch (error) {
       this.isInitialized = false;
       logger.error('Failed to initialize analytics service:', error);
+      // A schema newer than this build is a deployment mistake, not an outage
+      if (error instanceof SchemaAheadError) {
+        throw error;
+      }
       // Don't throw error - let the service run without analytics
       // The individual methods will check isInitialized and return null gracefully
     }
@@ -69,7 +76,7 @@ export class AnalyticsService {
   /**
    * Get position rankings and comparisons
    */
-  async getPositionAnalytics(position: string, season?: number): Promise<any> {
+  async getPositionAnalytics(position?: string, season?: number): Promise<any> {
     if (!this.isInitialized) {
       logger.warn(`Analytics service not available, returning null for position ${position}`);
       return null;
@@ -105,7 +112,11 @@ export class AnalyticsService {
   /**
    * Get player projections based on historical performance
    */
-  async getPlayerProjections(playerId: string, weeks: number = 4): Promise<any> {
+  async getPlayerProjections(
+    playerId: string,
+    weeks: number = 4,
+    opponentTeam?: string
+  ): Promise<any> {
     if (!this.isInitialized) {
       logger.warn(`Analytics service not available, returning null for player projections ${playerId}`);
       return null;
@@ -125,6 +136,7 @@ export class AnalyticsService {
       const projection = {
         player_id: playerId,
         projection_period: `Next ${weeks} weeks`,
+        method: 'moving_average',
         projected_stats: {
           fantasy_points_per_game: this.calculateWeightedAverage(recentGames, 'fantasy_points'),
           passing_yards_per_game: this.calculateWeightedAverage(recentGames, 'passing_yards'),
@@ -143,6 +155,27 @@ export class AnalyticsService {
         } : null
       };
 
+      // Prefer the trained regression model when there is one
+      const modeled = await this.getModelProjection(playerId, opponentTeam);
+      if (modeled) {
+        const line = modeled.stat_line;
+        return {
+          ...projection,
+          method: 'regression',
+          projected_stats: {
+            fantasy_points_per_game: modeled.fantasy_points.mean,
+            passing_yards_per_game: line.passing_yards?.mean ?? 0,
+            rushing_yards_per_game: line.rushing_yards?.mean ?? 0,
+            receiving_yards_per_game: line.receiving_yards?.mean ?? 0,
+            total_tds_per_game:
+              (line.passing_tds?.mean ?? 0) +
+              (line.rushing_tds?.mean ?? 0) +
+              (line.receiving_tds?.mean ?? 0),
+          },
+          ...modeled,
+        };
+      }
+
       return projection;
     } catch (error) {
       logger.error(`Failed to get projections for player ${playerId}:`, error);
@@ -150,6 +183,42 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get season totals (games, fantasy and PPR points) for a set of players
+   */
+  async getSeasonProduction(
+    playerIds: string[],
+    season: number
+  ): Promise<SeasonProductionRow[] | null> {
+    if (!this.isInitialized) {
+      logger.warn(
+        `Analytics service not available, returning null for ${season} season production`
+      );
+      return null;
+    }
+
+    try {
+      return await analyticsDB.getPlayerSeasonTotals(playerIds, season);
+    } catch (error) {
+      logger.error(`Failed to get ${season} season production:`, error);
+      throw error;
+    }
+  }
+
+  private async getModelProjection(
+    playerId: string,
+    opponentTeam?: string
+  ): Promise<PlayerStatProjection | null> {
+    try {
+      return await playerProjector.projectPlayer(playerId, { opponent: opponentTeam });
+    } catch (error) {
+      logger.warn(`Projection model unavailable for player ${playerId}, using recent averages`, {
+        error,
+      });
+      return null;
+    }
+  }
+
   /**
    * Get matchup analysis
    */
@@ -210,11 +279,16 @@ export class AnalyticsService {
   /**
    * Run data ingestion processes
    */
-  async ingestHistoricalData(startYear?: number, endYear?: number): Promise<void> {
+  async ingestHistoricalData(
+    startYear?: number,
+    endYear?: number,
+    onProgress?: ProgressReporter,
+    source?: HistoricalDataSource
+  ): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('Analytics service not available - database not connected');
     }
-    return dataIngestion.ingestHistoricalData(startYear, endYear);
+    return dataIngestion.ingestHistoricalData(startYear, endYear, onProgress, source);
   }
 
   async updateCurrentData(): Promise<void> {
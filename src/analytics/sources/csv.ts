@@ -0,0 +1,41 @@
+import { createReadStream } from 'fs';
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import { PlayerIdCrosswalk, RawRecord } from './types';
+
+/**
+ * Parse a CSV stream into records keyed by header
+ */
+export function readCsv(stream: Readable): Promise<RawRecord[]> {
+  return new Promise((resolve, reject) => {
+    const records: RawRecord[] = [];
+    stream
+      .on('error', reject)
+      .pipe(csv())
+      .on('data', (record: RawRecord) => records.push(record))
+      .on('end', () => resolve(records))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Load a player ID crosswalk from a CSV file with one column of source IDs
+ * and one of Sleeper IDs, e.g. DynastyProcess db_playerids.csv
+ * (gsis_id -> sleeper_id). Rows missing either ID are ignored.
+ */
+export async function loadCrosswalk(
+  file: string,
+  fromColumn: string = 'gsis_id',
+  toColumn: string = 'sleeper_id'
+): Promise<PlayerIdCrosswalk> {
+  const records = await readCsv(createReadStream(file));
+  const crosswalk: PlayerIdCrosswalk = new Map();
+  for (const record of records) {
+    const from = record[fromColumn];
+    const to = record[toColumn];
+    if (from && to && from !== 'NA' && to !== 'NA') {
+      crosswalk.set(String(from), String(to));
+    }
+  }
+  return crosswalk;
+}
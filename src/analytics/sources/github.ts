@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { readCsv } from './csv';
+import { FieldMap, HistoricalDataSource, RawRecord } from './types';
+import { logger } from '../../utils/logger';
+
+// Common column names across NFL data CSVs
+export const DEFAULT_FIELD_MAP: FieldMap = {
+  // Player info
+  player_id: ['player_id', 'id', 'sleeper_id', 'Player_ID', 'playerID'],
+  first_name: ['first_name', 'fname', 'First_Name', 'firstName', 'first'],
+  last_name: ['last_name', 'lname', 'Last_Name', 'lastName', 'last'],
+  position: ['position', 'pos', 'Position', 'Pos'],
+  team: ['team', 'Team', 'tm', 'Tm'],
+  college: ['college', 'College', 'school'],
+  height: ['height', 'Height', 'ht'],
+  weight: ['weight', 'Weight', 'wt'],
+  age: ['age', 'Age'],
+  years_exp: ['years_exp', 'experience', 'exp', 'Years_Exp'],
+  birth_date: ['birth_date', 'birthdate', 'dob', 'Birth_Date'],
+
+  // Stats
+  opponent: ['opponent', 'opp', 'Opp', 'opponent_team'],
+  passing_attempts: ['pass_att', 'passing_attempts', 'Pass_Att', 'Att'],
+  passing_completions: ['pass_cmp', 'passing_completions', 'Pass_Cmp', 'Cmp'],
+  passing_yards: ['pass_yds', 'passing_yards', 'Pass_Yds', 'PassYds'],
+  passing_tds: ['pass_td', 'passing_tds', 'Pass_TD', 'PassTD'],
+  passing_interceptions: ['pass_int', 'passing_interceptions', 'Pass_Int', 'Int'],
+
+  rushing_attempts: ['rush_att', 'rushing_attempts', 'Rush_Att', 'RushAtt'],
+  rushing_yards: ['rush_yds', 'rushing_yards', 'Rush_Yds', 'RushYds'],
+  rushing_tds: ['rush_td', 'rushing_tds', 'Rush_TD', 'RushTD'],
+
+  receiving_targets: ['rec_tgt', 'receiving_targets', 'Rec_Tgt', 'Targets'],
+  receiving_receptions: ['rec', 'receiving_receptions', 'Rec', 'Receptions'],
+  receiving_yards: ['rec_yds', 'receiving_yards', 'Rec_Yds', 'RecYds'],
+  receiving_tds: ['rec_td', 'receiving_tds', 'Rec_TD', 'RecTD'],
+
+  fantasy_points: ['fantasy_points', 'fpts', 'FantasyPoints', 'Fantasy_Points'],
+  games_played: ['games_played', 'games', 'GP', 'G'],
+};
+
+/**
+ * Yearly player CSVs from the hvpkod/NFL-Data GitHub repository. File names
+ * vary by year, so the common patterns are tried in turn.
+ */
+export class GitHubCsvSource implements HistoricalDataSource {
+  readonly name = 'github';
+  readonly fieldMap = DEFAULT_FIELD_MAP;
+  readonly idType = 'hvpkod';
+  private readonly baseUrl =
+    'https://raw.githubusercontent.com/hvpkod/NFL-Data/main/NFL-data-Players';
+
+  async fetchSeason(year: number): Promise<RawRecord[]> {
+    const possibleFiles = [
+      `${year}/players_${year}.csv`,
+      `${year}/player_stats_${year}.csv`,
+      `${year}/nfl_players_${year}.csv`,
+      `players_${year}.csv`,
+      `${year}.csv`,
+    ];
+
+    for (const filePath of possibleFiles) {
+      const url = `${this.baseUrl}/${filePath}`;
+      try {
+        logger.info(`Downloading data from: ${url}`);
+        const response = await axios.get<Readable>(url, { responseType: 'stream' });
+        return await readCsv(response.data);
+      } catch (error) {
+        // Try next file pattern
+        continue;
+      }
+    }
+
+    throw new Error(`No valid data file found for year ${year}`);
+  }
+}
@@ -0,0 +1,58 @@
+import { loadCrosswalk } from './csv';
+import { GitHubCsvSource } from './github';
+import { LocalFileSource } from './local';
+import { NflverseWeeklySource } from './nflverse';
+import { HistoricalDataSource, ParquetReader } from './types';
+
+export * from './types';
+export { loadCrosswalk, readCsv } from './csv';
+export { DEFAULT_FIELD_MAP, GitHubCsvSource } from './github';
+export { LocalFileSource } from './local';
+export type { LocalFileSourceOptions } from './local';
+export { NFLVERSE_FIELD_MAP, NflverseWeeklySource } from './nflverse';
+export { readParquet } from './parquet';
+
+export type HistoricalSourceType = 'github' | 'local' | 'nflverse';
+
+export interface HistoricalSourceOptions {
+  type: HistoricalSourceType;
+  // Data directory (local and nflverse)
+  directory?: string;
+  // ID system of the player_id column (local only)
+  idType?: string;
+  // CSV mapping source player IDs to Sleeper IDs
+  crosswalkFile?: string;
+  crosswalkFrom?: string;
+  crosswalkTo?: string;
+  parquetReader?: ParquetReader;
+}
+
+/**
+ * Build a historical data source from CLI-style options
+ */
+export async function createHistoricalSource(
+  options: HistoricalSourceOptions
+): Promise<HistoricalDataSource> {
+  if (options.type === 'github') {
+    return new GitHubCsvSource();
+  }
+  if (options.type !== 'local' && options.type !== 'nflverse') {
+    throw new Error(`Unknown data source: ${String(options.type)}`);
+  }
+  if (!options.directory) {
+    throw new Error(`The ${options.type} source needs a data directory`);
+  }
+
+  const crosswalk = options.crosswalkFile
+    ? await loadCrosswalk(options.crosswalkFile, options.crosswalkFrom, options.crosswalkTo)
+    : undefined;
+  const sourceOptions = {
+    directory: options.directory,
+    idType: options.idType,
+    crosswalk,
+    parquetReader: options.parquetReader,
+  };
+  return options.type === 'nflverse'
+    ? new NflverseWeeklySource(sourceOptions)
+    : new LocalFileSource(sourceOptions);
+}
@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ParquetSchema, ParquetWriter } from 'parquetjs-lite';
+import { LocalFileSource, NflverseWeeklySource, createHistoricalSource, loadCrosswalk } from '.';
+
+describe('local historical data sources', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'historical-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function write(file: string, content: string) {
+    await fs.mkdir(path.dirname(path.join(directory, file)), { recursive: true });
+    await fs.writeFile(path.join(directory, file), content);
+  }
+
+  it('should read every CSV for a season from a year directory or by file name', async () => {
+    await write('2019/qbs.csv', 'player_id,first_name,pass_yds\n1,Tom,4057\n');
+    await write('2019/rbs.csv', 'player_id,first_name,rush_yds\n2,Nick,1000\n');
+    await write('players_2020.csv', 'player_id,first_name\n3,Joe\n');
+    await write('players_2021.csv', 'player_id,first_name\n4,Ja\n');
+    const source = new LocalFileSource({ directory });
+
+    expect((await source.fetchSeason(2019)).map((r) => r.player_id)).toEqual(['1', '2']);
+    expect((await source.fetchSeason(2020)).map((r) => r.player_id)).toEqual(['3']);
+    await expect(source.fetchSeason(2018)).rejects.toThrow('No data files for 2018');
+  });
+
+  it('should read Parquet files, preferring CSV when a file is in both formats', async () => {
+    const schema = new ParquetSchema({
+      player_id: { type: 'UTF8' },
+      week: { type: 'INT64' },
+      passing_yards: { type: 'DOUBLE', optional: true, compression: 'SNAPPY' },
+    });
+    const writer = await ParquetWriter.openFile(schema, path.join(directory, 'stats_2022.parquet'));
+    await writer.appendRow({ player_id: '9', week: 3, passing_yards: 251.5 });
+    await writer.appendRow({ player_id: '10', week: 3 });
+    await writer.close();
+    await write('players_2022.csv', 'player_id,first_name\n9,Joe\n');
+    await write('players_2022.parquet', '');
+
+    expect(await new LocalFileSource({ directory }).fetchSeason(2022)).toEqual([
+      { player_id: '9', first_name: 'Joe' },
+      { player_id: '9', week: 3, passing_yards: 251.5 },
+      { player_id: '10', week: 3, passing_yards: undefined },
+    ]);
+
+    const parquetReader = jest.fn((_file: string) => Promise.resolve([{ player_id: '11' }]));
+    await new LocalFileSource({ directory, parquetReader }).fetchSeason(2022);
+    expect(parquetReader.mock.calls).toEqual([[path.join(directory, 'stats_2022.parquet')]]);
+  });
+
+  it('should find nflverse season files and load a GSIS crosswalk', async () => {
+    await write(
+      'player_stats/player_stats_2023.csv',
+      'player_id,player_display_name,week,passing_yards\n00-0033873,Patrick Mahomes,1,226\n00-0099999,Nobody,1,0\n'
+    );
+    await write('player_stats/player_stats_2023.parquet', '');
+    await write(
+      'crosswalk.csv',
+      'gsis_id,sleeper_id,name\n00-0033873,4046,Patrick Mahomes\nNA,1,x\n'
+    );
+
+    const crosswalk = await loadCrosswalk(path.join(directory, 'crosswalk.csv'));
+    expect([...crosswalk.entries()]).toEqual([['00-0033873', '4046']]);
+
+    const source = new NflverseWeeklySource({ directory, crosswalk });
+    const records = await source.fetchSeason(2023);
+    expect(records).toHaveLength(2);
+    expect(source.idType).toBe('gsis');
+    expect(source.crosswalk?.get('00-0033873')).toBe('4046');
+    expect(source.fieldMap.full_name).toContain('player_display_name');
+  });
+
+  it('should build sources from CLI options', async () => {
+    expect((await createHistoricalSource({ type: 'github' })).name).toBe('github');
+    expect((await createHistoricalSource({ type: 'nflverse', directory })).name).toBe('nflverse');
+    await expect(createHistoricalSource({ type: 'local' })).rejects.toThrow('data directory');
+  });
+});
@@ -0,0 +1,103 @@
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { readCsv } from './csv';
+import { DEFAULT_FIELD_MAP } from './github';
+import { readParquet } from './parquet';
+import {
+  FieldMap,
+  HistoricalDataSource,
+  ParquetReader,
+  PlayerIdCrosswalk,
+  RawRecord,
+} from './types';
+
+export interface LocalFileSourceOptions {
+  directory: string;
+  fieldMap?: FieldMap;
+  // ID system of the player_id column, Sleeper IDs by default
+  idType?: string;
+  crosswalk?: PlayerIdCrosswalk;
+  // Defaults to readParquet
+  parquetReader?: ParquetReader;
+}
+
+const DATA_FILE = /\.(csv|parquet)$/i;
+
+/**
+ * Historical data from CSV or Parquet files in a local directory, for loading
+ * archived data without network access. A season's data is every file in a
+ * directory named after the year, or any file in the top level whose name
+ * contains the year (e.g. 2019/players.csv or players_2019.parquet). When a
+ * file exists as both CSV and Parquet, only the CSV is read.
+ */
+export class LocalFileSource implements HistoricalDataSource {
+  readonly name: string = 'local';
+  readonly fieldMap: FieldMap;
+  readonly idType: string;
+  readonly crosswalk?: PlayerIdCrosswalk;
+  protected readonly directory: string;
+  private readonly parquetReader: ParquetReader;
+
+  constructor(options: LocalFileSourceOptions) {
+    this.directory = options.directory;
+    this.fieldMap = options.fieldMap ?? DEFAULT_FIELD_MAP;
+    this.idType = options.idType ?? 'sleeper';
+    this.crosswalk = options.crosswalk;
+    this.parquetReader = options.parquetReader ?? readParquet;
+  }
+
+  async fetchSeason(year: number): Promise<RawRecord[]> {
+    const files = await this.seasonFiles(year);
+    if (files.length === 0) {
+      throw new Error(`No data files for ${year} in ${this.directory}`);
+    }
+
+    const records: RawRecord[] = [];
+    for (const file of files) {
+      records.push(...(await this.readFile(file)));
+    }
+    return records;
+  }
+
+  /**
+   * Data files holding a season, in name order
+   */
+  protected async seasonFiles(year: number): Promise<string[]> {
+    const yearDirectory = path.join(this.directory, String(year));
+    const nested = await this.listDataFiles(yearDirectory);
+    if (nested.length > 0) {
+      return nested;
+    }
+    return (await this.listDataFiles(this.directory)).filter((file) =>
+      path.basename(file).includes(String(year))
+    );
+  }
+
+  protected async listDataFiles(directory: string): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch (error) {
+      return [];
+    }
+    const dataFiles = entries.filter((entry) => DATA_FILE.test(entry));
+    const csvStems = new Set(
+      dataFiles
+        .filter((entry) => /\.csv$/i.test(entry))
+        .map((entry) => entry.replace(DATA_FILE, ''))
+    );
+    // The same data may be exported in both formats; read only one
+    return dataFiles
+      .filter((entry) => /\.csv$/i.test(entry) || !csvStems.has(entry.replace(DATA_FILE, '')))
+      .sort()
+      .map((entry) => path.join(directory, entry));
+  }
+
+  protected async readFile(file: string): Promise<RawRecord[]> {
+    if (/\.parquet$/i.test(file)) {
+      return this.parquetReader(file);
+    }
+    return readCsv(createReadStream(file));
+  }
+}
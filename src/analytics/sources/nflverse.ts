@@ -0,0 +1,63 @@
+import path from 'path';
+import { LocalFileSource, LocalFileSourceOptions } from './local';
+import { FieldMap } from './types';
+
+// nflverse player_stats / stats_player_week columns
+export const NFLVERSE_FIELD_MAP: FieldMap = {
+  player_id: ['player_id'],
+  full_name: ['player_display_name', 'player_name'],
+  position: ['position'],
+  team: ['recent_team', 'team'],
+  week: ['week'],
+  opponent: ['opponent_team'],
+  passing_attempts: ['attempts'],
+  passing_completions: ['completions'],
+  passing_yards: ['passing_yards'],
+  passing_tds: ['passing_tds'],
+  passing_interceptions: ['interceptions', 'passing_interceptions'],
+  rushing_attempts: ['carries'],
+  rushing_yards: ['rushing_yards'],
+  rushing_tds: ['rushing_tds'],
+  receiving_targets: ['targets'],
+  receiving_receptions: ['receptions'],
+  receiving_yards: ['receiving_yards'],
+  receiving_tds: ['receiving_tds'],
+  fantasy_points: ['fantasy_points'],
+  ppr_points: ['fantasy_points_ppr'],
+};
+
+// Release folders the season files may sit in, besides the top level
+const RELEASE_DIRECTORIES = ['', 'player_stats', 'stats_player'];
+
+/**
+ * Weekly player stats in the nflverse release layout: one file per season
+ * named player_stats_{season} or stats_player_week_{season}, as CSV or
+ * Parquet, one row per player per week. Player IDs are GSIS IDs, which
+ * Sleeper publishes for most players; a crosswalk (see loadCrosswalk) covers
+ * the rest.
+ */
+export class NflverseWeeklySource extends LocalFileSource {
+  readonly name = 'nflverse';
+
+  constructor(options: LocalFileSourceOptions) {
+    super({
+      ...options,
+      fieldMap: options.fieldMap ?? NFLVERSE_FIELD_MAP,
+      idType: options.idType ?? 'gsis',
+    });
+  }
+
+  protected async seasonFiles(year: number): Promise<string[]> {
+    const pattern = new RegExp(`^(player_stats|stats_player_week)_${year}\\.(csv|parquet)$`, 'i');
+    for (const release of RELEASE_DIRECTORIES) {
+      const matches = (await this.listDataFiles(path.join(this.directory, release))).filter(
+        (file) => pattern.test(path.basename(file))
+      );
+      // The same season may be published in both formats; read only one
+      if (matches.length > 0) {
+        return [matches.find((file) => /\.csv$/i.test(file)) ?? matches[0]];
+      }
+    }
+    return [];
+  }
+}
@@ -0,0 +1,47 @@
+import { ParquetReader as ParquetFileReader } from 'parquetjs-lite';
+import { ParquetReader, RawRecord } from './types';
+
+function rawValue(value: unknown): RawRecord[string] {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('utf8');
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Default ParquetReader, built on parquetjs-lite (pure JS). Handles
+ * uncompressed, Snappy and gzip files, which covers the nflverse releases;
+ * INT64 columns come back as numbers and dates as ISO strings.
+ */
+export const readParquet: ParquetReader = async (file) => {
+  const reader = await ParquetFileReader.openFile(file);
+  try {
+    const cursor = reader.getCursor();
+    const records: RawRecord[] = [];
+    for (let row = await cursor.next(); row; row = await cursor.next()) {
+      const record: RawRecord = {};
+      for (const [column, value] of Object.entries(row)) {
+        record[column] = rawValue(value);
+      }
+      records.push(record);
+    }
+    return records;
+  } finally {
+    await reader.close();
+  }
+};
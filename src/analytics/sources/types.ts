@@ -0,0 +1,70 @@
+/**
+ * One row of a historical data file, keyed by the source's column names
+ */
+export type RawRecord = Record<string, string | number | null | undefined>;
+
+// Fields DataIngestionService understands, before mapping to the schema
+export type NormalizedField =
+  | 'player_id'
+  | 'full_name'
+  | 'first_name'
+  | 'last_name'
+  | 'position'
+  | 'team'
+  | 'college'
+  | 'height'
+  | 'weight'
+  | 'age'
+  | 'years_exp'
+  | 'birth_date'
+  | 'week'
+  | 'opponent'
+  | 'passing_attempts'
+  | 'passing_completions'
+  | 'passing_yards'
+  | 'passing_tds'
+  | 'passing_interceptions'
+  | 'rushing_attempts'
+  | 'rushing_yards'
+  | 'rushing_tds'
+  | 'receiving_targets'
+  | 'receiving_receptions'
+  | 'receiving_yards'
+  | 'receiving_tds'
+  | 'fantasy_points'
+  | 'ppr_points'
+  | 'games_played'
+  | 'games_started';
+
+/**
+ * Source column names for each normalized field, tried in order
+ */
+export type FieldMap = Partial<Record<NormalizedField, string[]>>;
+
+/**
+ * Source player ID -> Sleeper player ID
+ */
+export type PlayerIdCrosswalk = Map<string, string>;
+
+/**
+ * Reads every row of a Parquet file. Sources use readParquet unless given
+ * another reader (e.g. one built on DuckDB for compression it lacks).
+ */
+export type ParquetReader = (file: string) => Promise<RawRecord[]>;
+
+/**
+ * A place historical player stats can be loaded from
+ */
+export interface HistoricalDataSource {
+  readonly name: string;
+  readonly fieldMap: FieldMap;
+  // ID system of the player_id field, e.g. 'gsis' (see PlayerIdResolver)
+  readonly idType: string;
+  // Explicit mappings to Sleeper IDs, preferred over any other match
+  readonly crosswalk?: PlayerIdCrosswalk;
+
+  /**
+   * Every record for a season. Throws when the source has no data for it.
+   */
+  fetchSeason(year: number): Promise<RawRecord[]>;
+}
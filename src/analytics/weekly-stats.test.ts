@@ -0,0 +1,159 @@
+import { WeeklyStatsIngester, isWeekComplete, mapWeeklyStats } from './weekly-stats';
+import { analyticsDB } from './database';
+import { SleeperNFLState, SleeperPlayerStats, SleeperWeeklyStats } from '../types/sleeper';
+
+jest.mock('./database', () => ({
+  analyticsDB: {
+    query: jest.fn(),
+    transaction: jest.fn(),
+  },
+}));
+
+const mockDB = analyticsDB as jest.Mocked<typeof analyticsDB>;
+
+// Sleeper /stats/nfl/regular/{season}/{week} shape
+const statsFixture: SleeperWeeklyStats = {
+  '4046': { gp: 1, gs: 1, pass_att: 35, pass_cmp: 24, pass_yd: 291, pass_td: 3, pts_std: 23.64 },
+  '6794': { gp: 1, fgm: 3, fga: 4, fgm_50p: 1, fgmiss: 1, xpm: 2, xpa: 2, pts_std: 13 },
+  '7000': { gp: 1, idp_tkl_solo: 7, idp_tkl_ast: 3, idp_sack: 1.5, idp_ff: 1 },
+  KC: { gp: 1, sack: 4, int: 2, fum_rec: 1, def_td: 1, pts_allow: 10, yds_allow: 287 },
+  '9999': { gp: 0 },
+};
+
+const projectionsFixture: SleeperWeeklyStats = {
+  '4046': { pass_yd: 265.2, pass_td: 1.9, pts_std: 19.4, pts_half_ppr: 19.4, pts_ppr: 19.4 },
+};
+
+function state(fields: Partial<SleeperNFLState>): SleeperNFLState {
+  return {
+    season_type: 'regular',
+    season: '2024',
+    previous_season: '2023',
+    week: 3,
+    season_start_date: '2024-09-05',
+    leg: 3,
+    display_week: 3,
+    ...fields,
+  };
+}
+
+describe('weekly stats ingestion', () => {
+  const queries: Array<[string, unknown[]]> = [];
+
+  beforeEach(() => {
+    queries.length = 0;
+    jest.clearAllMocks();
+    mockDB.transaction.mockImplementation((callback) =>
+      callback({
+        query: jest.fn((text: string, params: unknown[]) => {
+          queries.push([text, params]);
+          return Promise.resolve({ rows: [] });
+        }),
+      } as never)
+    );
+  });
+
+  it('should map passing, kicking, IDP and defense stat keys to columns', () => {
+    const qb = mapWeeklyStats('4046', statsFixture['4046'], 2024, 2);
+    expect(qb?.columns).toMatchObject({ passing_yards: 291, passing_tds: 3, rushing_yards: 0 });
+    expect(qb).toMatchObject({ fantasy_points: 23.64, games_played: 1, games_started: 1 });
+
+    expect(mapWeeklyStats('6794', statsFixture['6794'], 2024, 2)?.columns).toMatchObject({
+      fg_made: 3,
+      fg_attempts: 4,
+      fg_made_50_plus: 1,
+      fg_missed: 1,
+      xp_made: 2,
+    });
+    expect(mapWeeklyStats('7000', statsFixture['7000'], 2024, 2)?.columns).toMatchObject({
+      idp_solo_tackles: 7,
+      idp_assisted_tackles: 3,
+      idp_sacks: 1.5,
+      idp_forced_fumbles: 1,
+    });
+    const defense = mapWeeklyStats('KC', statsFixture.KC, 2024, 2);
+    expect(defense?.columns).toMatchObject({
+      def_sacks: 4,
+      def_interceptions: 2,
+      def_tds: 1,
+      def_points_allowed: 10,
+      def_yards_allowed: 287,
+    });
+    expect(defense?.raw_stats).toEqual(statsFixture.KC);
+
+    expect(mapWeeklyStats('9999', statsFixture['9999'], 2024, 2)).toBeNull();
+  });
+
+  it('should keep zero points allowed for a defense shutout', () => {
+    const shutout = mapWeeklyStats('BAL', { gp: 1, sack: 3, int: 1, pts_allow: 0 }, 2024, 2);
+
+    expect(shutout?.columns.def_points_allowed).toBe(0);
+    expect(shutout?.raw_stats).toEqual({ gp: 1, sack: 3, int: 1, pts_allow: 0 });
+    expect(mapWeeklyStats('BAL', { gp: 0, pts_allow: 0 }, 2024, 2)).toBeNull();
+  });
+
+  it('should record the opponent when the stat line names one', () => {
+    const line = { gp: 1, rec: 6, opp: 'kc' } as unknown as SleeperPlayerStats;
+
+    expect(mapWeeklyStats('6794', line, 2024, 2)?.opponent).toBe('KC');
+    expect(mapWeeklyStats('6794', line, 2024, 2)?.raw_stats).toEqual({ gp: 1, rec: 6 });
+    expect(mapWeeklyStats('6794', { gp: 1, rec: 6 }, 2024, 2)?.opponent).toBeNull();
+  });
+
+  it('should treat weeks as complete once the NFL state moves past them', () => {
+    expect(isWeekComplete(2024, 2, state({ week: 3 }))).toBe(true);
+    expect(isWeekComplete(2024, 3, state({ week: 3 }))).toBe(false);
+    expect(isWeekComplete(2024, 18, state({ season_type: 'post', week: 19 }))).toBe(true);
+    expect(isWeekComplete(2023, 18, state({ week: 1 }))).toBe(true);
+  });
+
+  it('should upsert stats and projections and record the week', async () => {
+    const ingester = new WeeklyStatsIngester({
+      getWeeklyStats: () => Promise.resolve(statsFixture),
+      getWeeklyProjections: () => Promise.resolve(projectionsFixture),
+    });
+
+    const result = await ingester.ingestWeek(2024, 2, true);
+
+    expect(result).toEqual({
+      season: 2024,
+      week: 2,
+      complete: true,
+      stats_rows: 4,
+      projection_rows: 1,
+      skipped: 1,
+    });
+    const upserts = queries.filter(([text]) => text.includes('INSERT INTO player_season_stats'));
+    expect(upserts).toHaveLength(4);
+    expect(upserts[0][0]).toContain('ON CONFLICT (player_id, season, week) DO UPDATE');
+    // A line without opp keeps an opponent another source already recorded
+    expect(upserts[0][0]).toContain(
+      'opponent = COALESCE(EXCLUDED.opponent, player_season_stats.opponent)'
+    );
+    expect(upserts[0][1].slice(0, 3)).toEqual(['4046', 2024, 2]);
+    expect(
+      queries.filter(([text]) => text.includes('INSERT INTO player_weekly_projections'))
+    ).toHaveLength(1);
+    const recorded = queries.find(([text]) => text.includes('INSERT INTO weekly_stats_sync'));
+    expect(recorded?.[1]).toEqual([2024, 2, true, 4, 1]);
+  });
+
+  it('should only ingest weeks not yet recorded as complete', async () => {
+    mockDB.query.mockResolvedValue({ rows: [{ week: 1 }] });
+    const getWeeklyStats = jest.fn((_season: string, _week: number) =>
+      Promise.resolve(statsFixture)
+    );
+    const ingester = new WeeklyStatsIngester({
+      getWeeklyStats,
+      getWeeklyProjections: () => Promise.resolve(null),
+    });
+
+    const results = await ingester.syncSeason(state({ week: 3 }));
+
+    expect(getWeeklyStats.mock.calls.map(([, week]) => week)).toEqual([2, 3]);
+    expect(results.map((r) => [r.week, r.complete])).toEqual([
+      [2, true],
+      [3, false],
+    ]);
+  });
+});
@@ -0,0 +1,294 @@
+import { analyticsDB } from './database';
+import { ProgressReporter } from './ingestion';
+import { sleeperAPI } from '../api/client';
+import { SEASON_STATS_COLUMNS } from '../scoring/engine';
+import { logger } from '../utils/logger';
+import { SleeperNFLState, SleeperPlayerStats, SleeperWeeklyStats } from '../types/sleeper';
+
+/**
+ * Where weekly stat lines come from. Sleeper's API by default; tests pass
+ * fixtures in the same per-week JSON shape.
+ */
+export interface WeeklyStatsSource {
+  getWeeklyStats(season: string, week: number): Promise<SleeperWeeklyStats | null>;
+  getWeeklyProjections(season: string, week: number): Promise<SleeperWeeklyStats | null>;
+}
+
+export interface WeeklyStatsRow {
+  player_id: string;
+  season: number;
+  week: number;
+  // player_season_stats column -> value
+  columns: Record<string, number>;
+  fantasy_points: number;
+  half_ppr_points: number;
+  ppr_points: number;
+  games_played: number;
+  games_started: number;
+  raw_stats: SleeperPlayerStats;
+  // Team played that week, from the line's opp key when Sleeper includes it
+  opponent: string | null;
+}
+
+export interface WeeklyIngestResult {
+  season: number;
+  week: number;
+  complete: boolean;
+  stats_rows: number;
+  projection_rows: number;
+  // Entries with no non-zero stats
+  skipped: number;
+}
+
+const REGULAR_SEASON_WEEKS = 18;
+const STAT_COLUMNS = Object.keys(SEASON_STATS_COLUMNS);
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Map one player's Sleeper stat line onto player_season_stats. Every key is
+ * kept in raw_stats, so stats without a column of their own are not lost.
+ * Returns null for lines with nothing recorded.
+ */
+export function mapWeeklyStats(
+  playerId: string,
+  stats: SleeperPlayerStats | null | undefined,
+  season: number,
+  week: number
+): WeeklyStatsRow | null {
+  // Zero points allowed is a shutout, not a missing stat, for a defense that played
+  const played = (stats?.gp ?? 0) > 0;
+  const recorded = Object.fromEntries(
+    Object.entries(stats || {}).filter(
+      ([key, value]) =>
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (value !== 0 || (key === 'pts_allow' && played))
+    )
+  );
+  if (Object.keys(recorded).length === 0) {
+    return null;
+  }
+
+  const opp: unknown = (stats as Record<string, unknown> | null | undefined)?.opp;
+
+  const columns: Record<string, number> = {};
+  for (const [column, stat] of Object.entries(SEASON_STATS_COLUMNS)) {
+    columns[column] = recorded[stat] ?? 0;
+  }
+  return {
+    player_id: playerId,
+    season,
+    week,
+    columns,
+    fantasy_points: round(recorded.pts_std ?? 0),
+    half_ppr_points: round(recorded.pts_half_ppr ?? 0),
+    ppr_points: round(recorded.pts_ppr ?? 0),
+    games_played: recorded.gp ?? 0,
+    games_started: recorded.gs ?? 0,
+    raw_stats: recorded,
+    opponent: typeof opp === 'string' && opp ? opp.toUpperCase() : null,
+  };
+}
+
+/**
+ * A week's stats are final once the NFL state has moved past it
+ */
+export function isWeekComplete(season: number, week: number, state: SleeperNFLState): boolean {
+  const currentSeason = Number(state.season);
+  if (season !== currentSeason) {
+    return season < currentSeason;
+  }
+  return state.season_type === 'post' || (state.season_type === 'regular' && week < state.week);
+}
+
+// Weeks of the current season with stats so far
+function weeksPlayed(state: SleeperNFLState): number {
+  if (state.season_type === 'post') {
+    return REGULAR_SEASON_WEEKS;
+  }
+  return state.season_type === 'regular' ? Math.min(state.week, REGULAR_SEASON_WEEKS) : 0;
+}
+
+const STATS_COLUMN_LIST = [
+  'player_id',
+  'season',
+  'week',
+  ...STAT_COLUMNS,
+  'fantasy_points',
+  'half_ppr_points',
+  'ppr_points',
+  'games_played',
+  'games_started',
+  'raw_stats',
+  'opponent',
+];
+
+// Team and position come from the players table as of ingestion
+const UPSERT_STATS_QUERY = `
+  INSERT INTO player_season_stats (
+    team, position, ${STATS_COLUMN_LIST.join(', ')}, updated_at
+  ) VALUES (
+    (SELECT team FROM players WHERE player_id = $1),
+    (SELECT position FROM players WHERE player_id = $1),
+    ${STATS_COLUMN_LIST.map((_, i) => `$${i + 1}`).join(', ')},
+    CURRENT_TIMESTAMP
+  )
+  ON CONFLICT (player_id, season, week) DO UPDATE SET
+    ${STATS_COLUMN_LIST.slice(3)
+      .map((column) =>
+        column === 'opponent'
+          ? 'opponent = COALESCE(EXCLUDED.opponent, player_season_stats.opponent)'
+          : `${column} = EXCLUDED.${column}`
+      )
+      .join(',\n    ')},
+    updated_at = CURRENT_TIMESTAMP
+`;
+
+const UPSERT_PROJECTION_QUERY = `
+  INSERT INTO player_weekly_projections (
+    player_id, season, week, fantasy_points, half_ppr_points, ppr_points, raw_stats, updated_at
+  ) VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)
+  ON CONFLICT (player_id, season, week) DO UPDATE SET
+    fantasy_points = EXCLUDED.fantasy_points,
+    half_ppr_points = EXCLUDED.half_ppr_points,
+    ppr_points = EXCLUDED.ppr_points,
+    raw_stats = EXCLUDED.raw_stats,
+    updated_at = CURRENT_TIMESTAMP
+`;
+
+// Players the stats reference may not have been synced from Sleeper yet
+const ENSURE_PLAYER_QUERY = `
+  INSERT INTO players (player_id, sleeper_id) VALUES ($1, $1)
+  ON CONFLICT DO NOTHING
+`;
+
+const RECORD_WEEK_QUERY = `
+  INSERT INTO weekly_stats_sync (
+    season, week, complete, stats_rows, projection_rows, synced_at, completed_at
+  ) VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP, CASE WHEN $3 THEN CURRENT_TIMESTAMP END)
+  ON CONFLICT (season, week) DO UPDATE SET
+    complete = EXCLUDED.complete,
+    stats_rows = EXCLUDED.stats_rows,
+    projection_rows = EXCLUDED.projection_rows,
+    synced_at = CURRENT_TIMESTAMP,
+    completed_at = COALESCE(weekly_stats_sync.completed_at, EXCLUDED.completed_at)
+`;
+
+export class WeeklyStatsIngester {
+  constructor(private readonly source: WeeklyStatsSource = sleeperAPI) {}
+
+  /**
+   * Fetch one week of stats and projections and upsert them. Re-running a
+   * week replaces its rows, so partial weeks can be refreshed until final.
+   */
+  async ingestWeek(season: number, week: number, complete: boolean): Promise<WeeklyIngestResult> {
+    const [stats, projections] = await Promise.all([
+      this.source.getWeeklyStats(String(season), week),
+      this.source.getWeeklyProjections(String(season), week),
+    ]);
+
+    const isRow = (row: WeeklyStatsRow | null): row is WeeklyStatsRow => row !== null;
+    const map = (feed: SleeperWeeklyStats | null) =>
+      Object.entries(feed || {}).map(([playerId, line]) =>
+        mapWeeklyStats(playerId, line, season, week)
+      );
+    const statLines = map(stats);
+    const statRows = statLines.filter(isRow);
+    const projectionRows = map(projections).filter(isRow);
+
+    const result: WeeklyIngestResult = {
+      season,
+      week,
+      complete,
+      stats_rows: statRows.length,
+      projection_rows: projectionRows.length,
+      skipped: statLines.length - statRows.length,
+    };
+
+    await analyticsDB.transaction(async (client) => {
+      for (const row of statRows) {
+        await client.query(ENSURE_PLAYER_QUERY, [row.player_id]);
+        await client.query(UPSERT_STATS_QUERY, this.statsParams(row));
+      }
+      for (const row of projectionRows) {
+        await client.query(ENSURE_PLAYER_QUERY, [row.player_id]);
+        await client.query(UPSERT_PROJECTION_QUERY, [
+          row.player_id,
+          row.season,
+          row.week,
+          row.fantasy_points,
+          row.half_ppr_points,
+          row.ppr_points,
+          JSON.stringify(row.raw_stats),
+        ]);
+      }
+      await client.query(RECORD_WEEK_QUERY, [
+        season,
+        week,
+        complete,
+        result.stats_rows,
+        result.projection_rows,
+      ]);
+    });
+
+    logger.info(`Ingested ${season} week ${week} stats`, result);
+    return result;
+  }
+
+  /**
+   * Ingest every week of the current season that is not yet recorded as
+   * complete, including the week in progress
+   */
+  async syncSeason(
+    state: SleeperNFLState,
+    onProgress?: ProgressReporter
+  ): Promise<WeeklyIngestResult[]> {
+    const season = Number(state.season);
+    const completed = new Set(await this.getCompletedWeeks(season));
+    const pending: number[] = [];
+    for (let week = 1; week <= weeksPlayed(state); week++) {
+      if (!completed.has(week)) {
+        pending.push(week);
+      }
+    }
+
+    const results: WeeklyIngestResult[] = [];
+    for (const week of pending) {
+      results.push(await this.ingestWeek(season, week, isWeekComplete(season, week, state)));
+      onProgress?.(results.length, pending.length, `Ingested week ${week}`);
+    }
+    return results;
+  }
+
+  /**
+   * Weeks of a season whose final stats have been ingested
+   */
+  async getCompletedWeeks(season: number): Promise<number[]> {
+    const result = (await analyticsDB.query(
+      'SELECT week FROM weekly_stats_sync WHERE season = $1 AND complete ORDER BY week',
+      [season]
+    )) as { rows: Array<{ week: number }> };
+    return result.rows.map((row) => row.week);
+  }
+
+  private statsParams(row: WeeklyStatsRow): unknown[] {
+    return [
+      row.player_id,
+      row.season,
+      row.week,
+      ...STAT_COLUMNS.map((column) => row.columns[column]),
+      row.fantasy_points,
+      row.half_ppr_points,
+      row.ppr_points,
+      row.games_played,
+      row.games_started,
+      JSON.stringify(row.raw_stats),
+      row.opponent,
+    ];
+  }
+}
+
+export const weeklyStatsIngester = new WeeklyStatsIngester();
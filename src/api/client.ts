@@ -5,6 +5,7 @@ import { config } from '../config';
 import { logger } from '../utils/logger';
 import { CacheService } from '../cache/service';
 import { BatchProcessor } from './batch-processor';
+import { SleeperWeeklyStats } from '../types/sleeper';
 
 export class SleeperAPIClient {
   private client: AxiosInstance;
@@ -226,6 +227,13 @@ export class SleeperAPIClient {
     );
   }
 
+  /**
+   * Drop the cached matchups for a week so the next getMatchups hits Sleeper
+   */
+  async invalidateMatchups(leagueId: string, week: number) {
+    await this.cache.del(`matchups:${leagueId}:${week}`);
+  }
+
   async getWinnersBracket(leagueId: string) {
     const cacheKey = `winners_bracket:${leagueId}`;
     return this.cache.wrap(
@@ -282,6 +290,32 @@ export class SleeperAPIClient {
     );
   }
 
+  // Stats endpoints
+  async getWeeklyStats(season: string, week: number, seasonType: string = 'regular') {
+    const cacheKey = `stats:nfl:${seasonType}:${season}:${week}`;
+    return this.cache.wrap<SleeperWeeklyStats | null>(
+      cacheKey,
+      () =>
+        this.client
+          .get<SleeperWeeklyStats | null>(`/stats/nfl/${seasonType}/${season}/${week}`)
+          .then((res) => res.data),
+      config.CACHE_TTL.STATS
+    );
+  }
+
+  // Projections share the stat keys of weekly stats
+  async getWeeklyProjections(season: string, week: number, seasonType: string = 'regular') {
+    const cacheKey = `projections:nfl:${seasonType}:${season}:${week}`;
+    return this.cache.wrap<SleeperWeeklyStats | null>(
+      cacheKey,
+      () =>
+        this.client
+          .get<SleeperWeeklyStats | null>(`/projections/nfl/${seasonType}/${season}/${week}`)
+          .then((res) => res.data),
+      config.CACHE_TTL.STATS
+    );
+  }
+
   // Draft endpoints
   async getDraftsForUser(userId: string, sport: string = 'nfl', season: string) {
     const cacheKey = `drafts:user:${userId}:${sport}:${season}`;
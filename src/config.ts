@@ -74,6 +74,7 @@ export const config = {
     DRAFT: 3600, // 1 hour
     NFL_STATE: 60, // 1 minute
     TRENDING: 300, // 5 minutes
+    STATS: 600, // 10 minutes
   },
 
   // API endpoint paths
@@ -13,6 +13,7 @@ import { config } from './config';
 import { initializeCache } from './cache/redis';
 import { gracefulShutdown } from './utils/shutdown';
 import { analyticsService } from './analytics/service';
+import { SchemaAheadError } from './analytics/migrator';
 // Advanced cache imports temporarily disabled to avoid circular dependencies
 // import { cacheWarmer } from './cache/warming';
 // import { cacheInvalidator } from './cache/invalidation';
@@ -29,6 +30,9 @@ async function bootstrap() {
       await analyticsService.initialize();
       logger.info('Analytics service initialized successfully');
     } catch (error) {
+      if (error instanceof SchemaAheadError) {
+        throw error;
+      }
       logger.warn('Analytics service initialization failed (continuing without analytics):', error);
     }
 
@@ -46,6 +50,10 @@ async function bootstrap() {
           if (req.headers['x-no-compression']) {
             return false;
           }
+          // Compression buffers output, which would hold back MCP SSE events
+          if (String(res.getHeader('Content-Type')).startsWith('text/event-stream')) {
+            return false;
+          }
           // Fallback to standard filter function
           return compression.filter(req, res);
         },
@@ -71,6 +79,7 @@ async function bootstrap() {
       cors({
         origin: config.CORS_ORIGIN,
         credentials: true,
+        exposedHeaders: ['Mcp-Session-Id'],
       })
     );
 
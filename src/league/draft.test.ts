@@ -0,0 +1,230 @@
+import {
+  DraftCandidate,
+  PlayerProduction,
+  availabilityAfter,
+  buildDraftReport,
+  draftSlot,
+  draftTurn,
+  rankDraftTargets,
+} from './draft';
+import { SleeperDraft, SleeperDraftPick, SleeperPlayer } from '../types/sleeper';
+
+function buildDraft(type: SleeperDraft['type'], settings: Record<string, number>): SleeperDraft {
+  return {
+    draft_id: 'D1',
+    league_id: 'L1',
+    season: '2024',
+    type,
+    status: 'complete',
+    settings,
+    draft_order: { uA: 1, uB: 2 },
+    slot_to_roster_id: { '1': 10, '2': 20 },
+  } as unknown as SleeperDraft;
+}
+
+function pick(
+  pickNo: number,
+  round: number,
+  slot: number,
+  rosterId: number,
+  playerId: string,
+  amount?: number
+): SleeperDraftPick {
+  return {
+    pick_no: pickNo,
+    round,
+    draft_slot: slot,
+    roster_id: rosterId,
+    player_id: playerId,
+    picked_by: rosterId === 10 ? 'uA' : 'uB',
+    draft_id: 'D1',
+    metadata: amount === undefined ? {} : { amount: String(amount) },
+  };
+}
+
+const players = new Map<string, SleeperPlayer>(
+  (
+    [
+      ['a', 6],
+      ['b', 1],
+      ['c', 2],
+      ['d', 3],
+      ['e', 4],
+    ] as Array<[string, number]>
+  ).map(([id, rank]) => [
+    id,
+    {
+      player_id: id,
+      full_name: `Player ${id}`,
+      position: 'RB',
+      search_rank: rank,
+    } as SleeperPlayer,
+  ])
+);
+
+describe('draft report', () => {
+  it('should lay out snake, third-round reversal and linear orders', () => {
+    const snake = buildDraft('snake', {});
+    const reversal = buildDraft('snake', { reversal_round: 3 });
+    const linear = buildDraft('linear', {});
+
+    expect([1, 2, 3, 4].map((round) => draftSlot(snake, round, 1, 4))).toEqual([1, 4, 1, 4]);
+    expect([1, 2, 3, 4, 5].map((round) => draftSlot(reversal, round, 1, 4))).toEqual([
+      1, 4, 4, 1, 4,
+    ]);
+    expect([1, 2, 3].map((round) => draftSlot(linear, round, 1, 4))).toEqual([1, 1, 1]);
+  });
+
+  // Pick 6 has not been made yet
+  const picks = [
+    pick(1, 1, 1, 10, 'a'),
+    pick(2, 1, 2, 20, 'b'),
+    pick(3, 2, 2, 20, 'c'),
+    pick(4, 2, 1, 10, 'd'),
+    pick(5, 3, 1, 10, 'e'),
+  ];
+
+  it('should annotate picks against ADP and grade each team', () => {
+    const { board, grades } = buildDraftReport(
+      buildDraft('snake', { teams: 2, rounds: 3 }),
+      picks,
+      players,
+      new Map()
+    );
+
+    expect(board).toHaveLength(3);
+    const cells = board.flatMap((round) => round.picks);
+    expect(cells.map((cell) => [cell.pick_no, cell.slot, cell.slot_user_id])).toEqual([
+      [1, 1, 'uA'],
+      [2, 2, 'uB'],
+      [3, 2, 'uB'],
+      [4, 1, 'uA'],
+      [5, 1, 'uA'],
+      [6, 2, 'uB'],
+    ]);
+    expect(cells[0]).toMatchObject({ player_name: 'Player a', adp_rank: 5, adp_value: -4 });
+    expect(cells[0].verdict).toBe('reach');
+    expect(cells[1]).toMatchObject({ adp_value: 1, verdict: 'fair' });
+    expect(cells[5]).toMatchObject({ player_id: null, roster_id: 20, verdict: null });
+
+    expect(grades.map((team) => [team.roster_id, team.user_id, team.picks, team.grade])).toEqual([
+      [20, 'uB', 2, 'A'],
+      [10, 'uA', 3, 'D'],
+    ]);
+    expect(grades[1]).toMatchObject({ reaches: 1, season_points: null });
+    expect(grades[1].worst_pick?.player_id).toBe('a');
+  });
+
+  it('should rank production when the analytics season is available', () => {
+    const production = new Map<string, PlayerProduction>([
+      ['a', { games_played: 17, fantasy_points: 300 }],
+      ['b', { games_played: 16, fantasy_points: 100 }],
+      ['c', { games_played: 10, fantasy_points: 50 }],
+    ]);
+    const { board, grades } = buildDraftReport(
+      buildDraft('snake', { teams: 2, rounds: 3 }),
+      picks,
+      players,
+      production
+    );
+
+    const cells = board.flatMap((round) => round.picks);
+    expect(cells[0]).toMatchObject({ season_points: 300, games_played: 17, production_rank: 1 });
+    expect(cells[3]).toMatchObject({ season_points: null, production_rank: null });
+    expect(grades.find((team) => team.roster_id === 10)?.season_points).toBe(300);
+    expect(grades.find((team) => team.roster_id === 10)?.score).toBe(-0.33);
+  });
+
+  it('should use the price paid as the draft position in auctions', () => {
+    const { board } = buildDraftReport(
+      buildDraft('auction', { teams: 2, rounds: 1 }),
+      [pick(1, 1, 1, 10, 'b', 10), pick(2, 1, 2, 20, 'a', 50)],
+      players,
+      new Map()
+    );
+
+    expect(board[0].picks.map((cell) => [cell.player_id, cell.amount, cell.adp_value])).toEqual([
+      ['b', 10, 1],
+      ['a', 50, -1],
+    ]);
+  });
+
+  it("should find the roster's next picks through the snake and traded picks", () => {
+    const draft = buildDraft('snake', { teams: 2, rounds: 4 });
+
+    // Slot 1 picks 1, 4, 5, 8
+    expect(draftTurn(draft, [], 0, 10)).toEqual({
+      current_pick: 1,
+      next_pick: 1,
+      following_pick: 4,
+    });
+    expect(draftTurn(draft, [], 4, 10)).toMatchObject({ next_pick: 5, following_pick: 8 });
+    // Roster 20 owns roster 10's third-round pick
+    const traded = [
+      { season: '2024', round: 3, roster_id: 10, previous_owner_id: 10, owner_id: 20 },
+    ];
+    expect(draftTurn(draft, traded, 1, 20)).toMatchObject({ next_pick: 2, following_pick: 3 });
+    expect(draftTurn(draft, traded, 4, 10)).toMatchObject({ next_pick: 8, following_pick: null });
+    expect(draftTurn(draft, [], 8, 10)).toEqual({
+      current_pick: null,
+      next_pick: null,
+      following_pick: null,
+    });
+  });
+
+  it('should estimate availability from consensus rank', () => {
+    expect(availabilityAfter(1, 0)).toBe(1);
+    expect(availabilityAfter(1, 5)).toBeLessThan(0.1);
+    expect(availabilityAfter(20, 5)).toBeGreaterThan(0.9);
+  });
+
+  it('should favour scarce positions and open starting slots', () => {
+    const candidate = (
+      id: string,
+      position: string,
+      points: number,
+      adpRank: number
+    ): DraftCandidate => ({
+      projection: {
+        player_id: id,
+        player_name: id,
+        position,
+        positions: [position],
+        team: 'KC',
+        points_per_week: points,
+        source: 'analytics',
+      },
+      adp_rank: adpRank,
+    });
+    // One good TE and a cliff behind him; receivers are deep
+    const candidates = [
+      candidate('wr1', 'WR', 15, 1),
+      candidate('te1', 'TE', 14, 2),
+      candidate('wr2', 'WR', 14.5, 3),
+      candidate('wr3', 'WR', 14, 6),
+      candidate('te2', 'TE', 6, 7),
+    ];
+
+    const recommendations = rankDraftTargets(
+      candidates,
+      {
+        rosterPositions: ['WR', 'TE', 'BN'],
+        roster: [{ player_id: 'mine', positions: ['WR'], points: 16 }],
+        picksBeforeNext: 2,
+        picksBeforeFollowing: 4,
+      },
+      3
+    );
+
+    expect(recommendations[0]).toMatchObject({
+      player_id: 'te1',
+      fills_need: true,
+      starter_gain: 14,
+      dropoff: 8,
+    });
+    const wr1 = recommendations.find((r) => r.player_id === 'wr1');
+    expect(wr1).toMatchObject({ fills_need: false, starter_gain: 0, dropoff: 1 });
+    expect(wr1?.likely_gone).toBe(true);
+    expect(recommendations[0].likely_gone).toBe(true);
+  });
+});
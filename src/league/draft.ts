@@ -0,0 +1,452 @@
+import { LineupCandidate, isEligible, optimalLineup } from './lineup';
+import { PlayerProjection } from '../scoring/projections';
+import {
+  SleeperDraft,
+  SleeperDraftPick,
+  SleeperPlayer,
+  SleeperTradedDraftPick,
+} from '../types/sleeper';
+
+export interface PlayerProduction {
+  games_played: number;
+  fantasy_points: number;
+}
+
+export type PickVerdict = 'steal' | 'reach' | 'fair';
+
+export interface DraftBoardPick {
+  pick_no: number;
+  round: number;
+  pick_in_round: number;
+  slot: number;
+  // Roster and user the slot belongs to
+  slot_roster_id: number | null;
+  slot_user_id: string | null;
+  // Roster that made the pick; differs from slot_roster_id when the pick was traded
+  roster_id: number | null;
+  picked_by: string | null;
+  player_id: string | null;
+  player_name: string | null;
+  position: string | null;
+  team: string | null;
+  is_keeper: boolean;
+  amount: number | null;
+  adp_rank: number | null;
+  adp_value: number | null;
+  verdict: PickVerdict | null;
+  season_points: number | null;
+  games_played: number | null;
+  production_rank: number | null;
+}
+
+export interface DraftBoardRound {
+  round: number;
+  picks: DraftBoardPick[];
+}
+
+export type DraftGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+export interface DraftTeamGrade {
+  roster_id: number;
+  user_id: string | null;
+  picks: number;
+  steals: number;
+  reaches: number;
+  adp_value: number;
+  season_points: number | null;
+  score: number;
+  grade: DraftGrade;
+  best_pick: DraftBoardPick | null;
+  worst_pick: DraftBoardPick | null;
+}
+
+export interface DraftReport {
+  board: DraftBoardRound[];
+  grades: DraftTeamGrade[];
+}
+
+export interface DraftTurn {
+  // Overall pick on the clock; null once the draft is over
+  current_pick: number | null;
+  // The roster's next two picks at or after the current one
+  next_pick: number | null;
+  following_pick: number | null;
+}
+
+export interface DraftCandidate {
+  projection: PlayerProjection;
+  // Consensus rank among the players still available, 1 = best
+  adp_rank: number;
+}
+
+export interface DraftAssistantContext {
+  rosterPositions: string[];
+  roster: LineupCandidate[];
+  // Picks made before the roster's next and following picks (null if it has none)
+  picksBeforeNext: number | null;
+  picksBeforeFollowing: number | null;
+}
+
+export interface DraftRecommendation {
+  player_id: string;
+  player_name: string | null;
+  position: string | null;
+  team: string | null;
+  score: number;
+  adp_rank: number;
+  projected_points: number;
+  projection_source: string;
+  starter_gain: number;
+  fills_need: boolean;
+  // Projected points over the best player at the position expected to last until the following pick
+  dropoff: number;
+  // Chance the player is still there at the roster's next pick
+  availability: number | null;
+  likely_gone: boolean;
+}
+
+// Team score z-scores at or above each threshold earn the grade
+const GRADE_SCALE: Array<[number, DraftGrade]> = [
+  [1, 'A'],
+  [0.35, 'B'],
+  [-0.35, 'C'],
+  [-1, 'D'],
+  [-Infinity, 'F'],
+];
+// Smallest gap between draft position and ADP that counts as a steal or reach
+const MIN_VERDICT_GAP = 3;
+// Recommendation score weights (sum to 1)
+const PROJECTION_WEIGHT = 0.3;
+const STARTER_GAIN_WEIGHT = 0.25;
+const SCARCITY_WEIGHT = 0.2;
+const ADP_WEIGHT = 0.15;
+const NEED_WEIGHT = 0.1;
+// How quickly uncertainty in where a player goes grows with the picks in between
+const AVAILABILITY_SPREAD = 0.15;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Draft slot making the given pick of a round. Snake drafts reverse every
+ * other round; with a reversal round (e.g. third-round reversal) that round
+ * repeats the previous round's direction and snaking continues from there.
+ * Linear and auction drafts keep the same order every round.
+ */
+export function draftSlot(
+  draft: Pick<SleeperDraft, 'type' | 'settings'>,
+  roundNumber: number,
+  pickInRound: number,
+  teams: number
+): number {
+  if (draft.type !== 'snake') {
+    return pickInRound;
+  }
+  const reversalRound = draft.settings?.reversal_round || 0;
+  const reversed = (roundNumber % 2 === 0) !== (reversalRound > 0 && roundNumber >= reversalRound);
+  return reversed ? teams - pickInRound + 1 : pickInRound;
+}
+
+// 1-based rank of each key when sorted by value, best first
+function rankBy<T>(items: T[], key: (item: T) => string, value: (item: T) => number) {
+  return new Map(
+    [...items].sort((a, b) => value(a) - value(b)).map((item, index) => [key(item), index + 1])
+  );
+}
+
+/**
+ * Lay a draft out as a board and grade it.
+ *
+ * ADP comes from Sleeper's search_rank (the consensus ranking at the time of
+ * the request), ranked within the players drafted. A pick's ADP value is how
+ * many spots after its ADP rank it was taken: positive is a steal, negative a
+ * reach. Auction drafts use the price paid, most expensive first, as the
+ * draft position. Production (when the analytics database has the season) is
+ * scored the same way against draft position, and each team's grade is its
+ * average score relative to the other teams.
+ */
+export function buildDraftReport(
+  draft: SleeperDraft,
+  picks: SleeperDraftPick[],
+  players: Map<string, SleeperPlayer>,
+  production: Map<string, PlayerProduction>
+): DraftReport {
+  const slotToRoster = draft.slot_to_roster_id || {};
+  const teams =
+    draft.settings?.teams ||
+    Math.max(0, ...Object.keys(slotToRoster).map(Number), ...picks.map((p) => p.draft_slot));
+  const rounds = draft.settings?.rounds || Math.max(0, ...picks.map((p) => p.round));
+  const slotToUser = new Map(
+    Object.entries(draft.draft_order || {}).map(([userId, slot]) => [slot, userId])
+  );
+  const threshold = Math.max(MIN_VERDICT_GAP, Math.ceil(teams / 2));
+
+  const made = picks.filter((pick) => pick.player_id);
+  const amount = (pick: SleeperDraftPick) => Number(pick.metadata?.amount) || 0;
+  const draftPosition =
+    draft.type === 'auction'
+      ? rankBy(
+          made,
+          (p) => p.player_id,
+          (p) => -amount(p)
+        )
+      : new Map(made.map((pick) => [pick.player_id, pick.pick_no]));
+  const adpRank = rankBy(
+    made,
+    (p) => p.player_id,
+    (p) => players.get(p.player_id)?.search_rank ?? Infinity
+  );
+  const produced = made.filter((pick) => production.has(pick.player_id));
+  const productionRank = rankBy(
+    produced,
+    (p) => p.player_id,
+    (p) => -(production.get(p.player_id)?.fantasy_points ?? 0)
+  );
+
+  const byPickNo = new Map(picks.map((pick) => [pick.pick_no, pick]));
+  const board: DraftBoardRound[] = [];
+  for (let roundNumber = 1; roundNumber <= rounds; roundNumber++) {
+    const cells: DraftBoardPick[] = [];
+    for (let pickInRound = 1; pickInRound <= teams; pickInRound++) {
+      const pickNo = (roundNumber - 1) * teams + pickInRound;
+      const pick = byPickNo.get(pickNo);
+      const slot = pick?.draft_slot ?? draftSlot(draft, roundNumber, pickInRound, teams);
+      const playerId = pick?.player_id || null;
+      const player = playerId ? players.get(playerId) : undefined;
+      const position = playerId ? draftPosition.get(playerId) : undefined;
+      const adp = playerId ? adpRank.get(playerId) : undefined;
+      const adpValue = position !== undefined && adp !== undefined ? position - adp : null;
+      const stats = playerId ? production.get(playerId) : undefined;
+
+      cells.push({
+        pick_no: pickNo,
+        round: roundNumber,
+        pick_in_round: pickInRound,
+        slot,
+        slot_roster_id: slotToRoster[String(slot)] ?? null,
+        slot_user_id: slotToUser.get(slot) ?? null,
+        roster_id: pick?.roster_id ?? slotToRoster[String(slot)] ?? null,
+        picked_by: pick?.picked_by || null,
+        player_id: playerId,
+        player_name: player
+          ? player.full_name || `${player.first_name} ${player.last_name}`
+          : pick
+            ? `${pick.metadata?.first_name ?? ''} ${pick.metadata?.last_name ?? ''}`.trim() || null
+            : null,
+        position: player?.position ?? pick?.metadata?.position ?? null,
+        team: player?.team ?? pick?.metadata?.team ?? null,
+        is_keeper: !!pick?.is_keeper,
+        amount: pick && draft.type === 'auction' ? amount(pick) : null,
+        adp_rank: adp ?? null,
+        adp_value: adpValue,
+        verdict:
+          adpValue === null
+            ? null
+            : adpValue >= threshold
+              ? 'steal'
+              : adpValue <= -threshold
+                ? 'reach'
+                : 'fair',
+        season_points: stats ? round(stats.fantasy_points) : null,
+        games_played: stats?.games_played ?? null,
+        production_rank: (playerId && productionRank.get(playerId)) || null,
+      });
+    }
+    board.push({ round: roundNumber, picks: cells });
+  }
+
+  // Score each made pick: ADP value, averaged with production value when known
+  const hasProduction = produced.length > 0;
+  const pickScore = (cell: DraftBoardPick) => {
+    const position = cell.player_id ? (draftPosition.get(cell.player_id) ?? 0) : 0;
+    const adpValue = cell.adp_value ?? 0;
+    return hasProduction
+      ? (adpValue + (cell.production_rank ? position - cell.production_rank : 0)) / 2
+      : adpValue;
+  };
+
+  const byRoster = new Map<number, DraftBoardPick[]>();
+  for (const cell of board.flatMap((r) => r.picks)) {
+    // Keepers were not draft decisions
+    if (cell.player_id && cell.roster_id !== null && !cell.is_keeper) {
+      byRoster.set(cell.roster_id, [...(byRoster.get(cell.roster_id) || []), cell]);
+    }
+  }
+
+  const scored = [...byRoster.entries()].map(([rosterId, cells]) => {
+    const scores = cells.map(pickScore);
+    const ranked = [...cells].sort((a, b) => pickScore(b) - pickScore(a));
+    const slot = Object.entries(slotToRoster).find(([, roster]) => roster === rosterId)?.[0];
+    return {
+      roster_id: rosterId,
+      user_id: (slot && slotToUser.get(Number(slot))) || cells[0].picked_by || null,
+      picks: cells.length,
+      steals: cells.filter((cell) => cell.verdict === 'steal').length,
+      reaches: cells.filter((cell) => cell.verdict === 'reach').length,
+      adp_value: cells.reduce((sum, cell) => sum + (cell.adp_value ?? 0), 0),
+      season_points: hasProduction
+        ? round(cells.reduce((sum, cell) => sum + (cell.season_points ?? 0), 0))
+        : null,
+      score: round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      best_pick: ranked[0] ?? null,
+      worst_pick: ranked[ranked.length - 1] ?? null,
+    };
+  });
+
+  const mean = scored.reduce((sum, team) => sum + team.score, 0) / (scored.length || 1);
+  const sd = Math.sqrt(
+    scored.reduce((sum, team) => sum + (team.score - mean) ** 2, 0) / (scored.length || 1)
+  );
+  const grades: DraftTeamGrade[] = scored
+    .map((team) => {
+      const z = sd > 0 ? (team.score - mean) / sd : 0;
+      const grade = GRADE_SCALE.find(([min]) => z >= min)?.[1] ?? 'F';
+      return { ...team, grade };
+    })
+    .sort((a, b) => b.score - a.score || a.roster_id - b.roster_id);
+
+  return { board, grades };
+}
+
+/**
+ * Where a roster stands in a draft: the pick on the clock and the roster's
+ * next two picks, following the snake order and any traded picks. Auction
+ * drafts have no pick order, so only the current pick is known.
+ */
+export function draftTurn(
+  draft: SleeperDraft,
+  tradedPicks: SleeperTradedDraftPick[],
+  picksMade: number,
+  rosterId: number
+): DraftTurn {
+  const slotToRoster = draft.slot_to_roster_id || {};
+  const teams = draft.settings?.teams || Object.keys(slotToRoster).length;
+  const total = teams * (draft.settings?.rounds || 0);
+  const current = picksMade < total ? picksMade + 1 : null;
+  if (current === null || draft.type === 'auction') {
+    return { current_pick: current, next_pick: null, following_pick: null };
+  }
+
+  const owned: number[] = [];
+  for (let pickNo = current; pickNo <= total && owned.length < 2; pickNo++) {
+    const roundNumber = Math.ceil(pickNo / teams);
+    const slot = draftSlot(draft, roundNumber, pickNo - (roundNumber - 1) * teams, teams);
+    const original = slotToRoster[String(slot)];
+    const owner =
+      tradedPicks.find((pick) => pick.round === roundNumber && pick.roster_id === original)
+        ?.owner_id ?? original;
+    if (owner === rosterId) {
+      owned.push(pickNo);
+    }
+  }
+  return { current_pick: current, next_pick: owned[0] ?? null, following_pick: owned[1] ?? null };
+}
+
+/**
+ * Chance a player is still on the board after the given number of picks,
+ * modelled as a logistic curve around their consensus rank that widens the
+ * further away the pick is
+ */
+export function availabilityAfter(adpRank: number, picks: number): number {
+  if (picks <= 0) {
+    return 1;
+  }
+  const spread = 1 + picks * AVAILABILITY_SPREAD;
+  return round(1 / (1 + Math.exp(-(adpRank - picks - 0.5) / spread)));
+}
+
+/**
+ * Starting slots a roster cannot fill yet
+ */
+export function openSlots(rosterPositions: string[], roster: LineupCandidate[]): string[] {
+  return optimalLineup(rosterPositions, roster)
+    .starters.filter((starter) => starter.player_id === null)
+    .map((starter) => starter.slot);
+}
+
+/**
+ * Rank available players for a roster's next pick on projected points,
+ * starting-lineup gain, positional scarcity (the drop to the best player at
+ * the position expected to last until the roster's following pick), consensus
+ * rank and unfilled starting slots. Each is tagged with the chance it is
+ * still available when the roster is on the clock.
+ */
+export function rankDraftTargets(
+  candidates: DraftCandidate[],
+  context: DraftAssistantContext,
+  limit: number
+): DraftRecommendation[] {
+  const { rosterPositions, roster, picksBeforeNext, picksBeforeFollowing } = context;
+  const baseline = optimalLineup(rosterPositions, roster);
+  const open = openSlots(rosterPositions, roster);
+  // Without a following pick, nobody at the position is left to fall back on
+  const window = picksBeforeFollowing ?? Infinity;
+
+  const evaluated = candidates.map((candidate) => {
+    const { projection } = candidate;
+    const asCandidate: LineupCandidate = {
+      player_id: projection.player_id,
+      positions: projection.positions,
+      points: projection.points_per_week,
+    };
+    const replacement = Math.max(
+      0,
+      ...candidates
+        .filter(
+          (other) =>
+            other.projection.player_id !== projection.player_id &&
+            other.projection.position === projection.position &&
+            other.adp_rank > window
+        )
+        .map((other) => other.projection.points_per_week)
+    );
+
+    return {
+      candidate,
+      starterGain: round(
+        optimalLineup(rosterPositions, [...roster, asCandidate]).points - baseline.points
+      ),
+      fillsNeed: open.some((slot) => isEligible(slot, asCandidate)),
+      dropoff: round(Math.max(0, projection.points_per_week - replacement)),
+    };
+  });
+
+  const max = (values: number[]) => Math.max(1, ...values);
+  const maxPoints = max(evaluated.map((e) => e.candidate.projection.points_per_week));
+  const maxGain = max(evaluated.map((e) => e.starterGain));
+  const maxDropoff = max(evaluated.map((e) => e.dropoff));
+  const maxRank = max(evaluated.map((e) => e.candidate.adp_rank));
+
+  return evaluated
+    .map(({ candidate, starterGain, fillsNeed, dropoff }) => {
+      const { projection, adp_rank: adpRank } = candidate;
+      const score =
+        100 *
+        (PROJECTION_WEIGHT * (Math.max(0, projection.points_per_week) / maxPoints) +
+          STARTER_GAIN_WEIGHT * (Math.max(0, starterGain) / maxGain) +
+          SCARCITY_WEIGHT * (dropoff / maxDropoff) +
+          ADP_WEIGHT * (1 - (adpRank - 1) / maxRank) +
+          NEED_WEIGHT * (fillsNeed ? 1 : 0));
+      const availability =
+        picksBeforeNext === null ? null : availabilityAfter(adpRank, picksBeforeNext);
+
+      return {
+        player_id: projection.player_id,
+        player_name: projection.player_name,
+        position: projection.position,
+        team: projection.team,
+        score: Math.round(score * 10) / 10,
+        adp_rank: adpRank,
+        projected_points: projection.points_per_week,
+        projection_source: projection.source,
+        starter_gain: starterGain,
+        fills_need: fillsNeed,
+        dropoff,
+        availability,
+        likely_gone: availability !== null && availability < 0.5,
+      };
+    })
+    .sort((a, b) => b.score - a.score || a.adp_rank - b.adp_rank)
+    .slice(0, limit);
+}
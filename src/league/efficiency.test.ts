@@ -0,0 +1,118 @@
+import { computeManagerEfficiency } from './efficiency';
+import { LeagueSeason } from './season';
+import { SleeperLeague, SleeperRoster } from '../types/sleeper';
+
+describe('computeManagerEfficiency', () => {
+  const season: LeagueSeason = {
+    league: {
+      league_id: 'L1',
+      roster_positions: ['QB', 'RB', 'FLEX', 'BN'],
+    } as unknown as SleeperLeague,
+    rosters: [1, 2].map(
+      (rosterId) => ({ roster_id: rosterId, owner_id: `u${rosterId}` }) as unknown as SleeperRoster
+    ),
+    users: [],
+    weeks: [
+      {
+        week: 1,
+        matchups: [
+          {
+            roster_id: 1,
+            matchup_id: 1,
+            points: 35,
+            starters: ['qb', 'rb1', 'wr'],
+            players: ['qb', 'rb1', 'rb2', 'wr'],
+            players_points: { qb: 20, rb1: 5, rb2: 18, wr: 10 },
+          },
+          {
+            roster_id: 2,
+            matchup_id: 1,
+            points: 40,
+            starters: ['qb2', 'rb3', '0'],
+            players: ['qb2', 'rb3'],
+            players_points: { qb2: 25, rb3: 15 },
+          },
+        ],
+      },
+    ],
+  };
+  const positions = new Map([
+    ['qb', ['QB']],
+    ['qb2', ['QB']],
+    ['rb1', ['RB']],
+    ['rb2', ['RB']],
+    ['rb3', ['RB']],
+    ['wr', ['WR']],
+  ]);
+
+  it('should compare actual scores with the best possible lineup', () => {
+    const [best, worst] = computeManagerEfficiency(season, positions);
+
+    expect(best).toMatchObject({ roster_id: 2, efficiency: 100, points_left: 0 });
+    expect(worst).toMatchObject({
+      roster_id: 1,
+      actual_points: 35,
+      optimal_points: 48,
+      points_left: 13,
+      efficiency: 72.9,
+      matchups_cost: 1,
+    });
+  });
+
+  it('should flag the start/sit decisions behind a lost matchup', () => {
+    const [, worst] = computeManagerEfficiency(season, positions);
+
+    expect(worst.weeks[0]).toMatchObject({ opponent_points: 40, cost_matchup: true });
+    expect(worst.weeks[0].decisions).toEqual([
+      {
+        benched_player_id: 'rb2',
+        benched_points: 18,
+        started_player_id: 'rb1',
+        started_points: 5,
+        points_lost: 13,
+      },
+    ]);
+  });
+
+  it('should credit multi-position players started at the right slot', () => {
+    const [week] = computeManagerEfficiency(
+      {
+        ...season,
+        league: { league_id: 'L1', roster_positions: ['QB', 'TE'] } as unknown as SleeperLeague,
+        rosters: season.rosters.slice(0, 1),
+        weeks: [
+          {
+            week: 1,
+            matchups: [
+              {
+                roster_id: 1,
+                matchup_id: 1,
+                points: 35,
+                starters: ['qb', 'hybrid'],
+                players: ['qb', 'hybrid', 'te'],
+                players_points: { qb: 15, hybrid: 20, te: 3 },
+              },
+            ],
+          },
+        ],
+      },
+      new Map([...positions, ['hybrid', ['QB', 'TE']], ['te', ['TE']]])
+    );
+
+    expect(week).toMatchObject({ optimal_points: 35, efficiency: 100, points_left: 0 });
+    expect(week.weeks[0].decisions).toEqual([]);
+  });
+
+  it('should not report an optimum below a custom points override', () => {
+    const [week] = computeManagerEfficiency(
+      {
+        ...season,
+        rosters: season.rosters.slice(1),
+        weeks: [{ week: 1, matchups: [{ ...season.weeks[0].matchups[1], custom_points: 50 }] }],
+      },
+      positions
+    );
+
+    expect(week).toMatchObject({ actual_points: 50, optimal_points: 50, efficiency: 100 });
+  });
+});
@@ -0,0 +1,154 @@
+import { LineupCandidate, optimalLineup } from './lineup';
+import { LeagueSeason, matchupPoints, teamName } from './season';
+import { SleeperMatchup } from '../types/sleeper';
+
+export interface LineupDecision {
+  benched_player_id: string;
+  benched_points: number;
+  started_player_id: string | null;
+  started_points: number;
+  points_lost: number;
+}
+
+export interface WeekEfficiency {
+  week: number;
+  actual_points: number;
+  optimal_points: number;
+  points_left: number;
+  efficiency: number;
+  opponent_points: number | null;
+  // Lost the matchup, but the optimal lineup would have won it
+  cost_matchup: boolean;
+  decisions: LineupDecision[];
+}
+
+export interface ManagerEfficiency {
+  roster_id: number;
+  owner_id: string;
+  team_name: string;
+  actual_points: number;
+  optimal_points: number;
+  points_left: number;
+  efficiency: number;
+  matchups_cost: number;
+  weeks: WeekEfficiency[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function efficiencyPct(actual: number, optimal: number): number {
+  return optimal > 0 ? Math.round((actual / optimal) * 1000) / 10 : 100;
+}
+
+/**
+ * Pair each player the optimal lineup would have started but who sat with
+ * the weakest starter they should have replaced
+ */
+function lineupDecisions(
+  matchup: SleeperMatchup,
+  optimalStarters: Array<string | null>
+): LineupDecision[] {
+  const points = (playerId: string | null) =>
+    playerId ? (matchup.players_points?.[playerId] ?? 0) : 0;
+  const started = new Set(matchup.starters || []);
+  const optimal = new Set(optimalStarters);
+
+  const benched = optimalStarters
+    .filter((id): id is string => id !== null && !started.has(id))
+    .sort((a, b) => points(b) - points(a));
+  const wronglyStarted = (matchup.starters || [])
+    .map((id) => (id && id !== '0' ? id : null))
+    .filter((id) => id === null || !optimal.has(id))
+    .sort((a, b) => points(a) - points(b));
+
+  return benched
+    .map((playerId, index) => {
+      const startedId = wronglyStarted[index] ?? null;
+      return {
+        benched_player_id: playerId,
+        benched_points: points(playerId),
+        started_player_id: startedId,
+        started_points: points(startedId),
+        points_lost: round(points(playerId) - points(startedId)),
+      };
+    })
+    .filter((decision) => decision.points_lost > 0);
+}
+
+/**
+ * Retroactive lineup efficiency: every completed week's actual score against
+ * the best lineup the roster could have set with the same players.
+ * positions maps player_id to the positions the player is eligible at.
+ */
+export function computeManagerEfficiency(
+  season: LeagueSeason,
+  positions: Map<string, string[]>
+): ManagerEfficiency[] {
+  const rosterPositions = season.league.roster_positions as string[];
+  const weeksByRoster = new Map<number, WeekEfficiency[]>();
+
+  for (const { week, matchups } of season.weeks) {
+    for (const matchup of matchups) {
+      const candidates: LineupCandidate[] = (matchup.players || []).map((playerId) => ({
+        player_id: playerId,
+        positions: positions.get(playerId) ?? [],
+        points: matchup.players_points?.[playerId] ?? 0,
+      }));
+      const optimal = optimalLineup(rosterPositions, candidates);
+      const actual = round(matchupPoints(matchup));
+      // A commissioner's custom_points can exceed any lineup of the players' scores
+      const optimalPoints =
+        typeof matchup.custom_points === 'number'
+          ? Math.max(optimal.points, actual)
+          : optimal.points;
+
+      const opponent = matchups.find(
+        (other) =>
+          other.roster_id !== matchup.roster_id &&
+          other.matchup_id !== null &&
+          other.matchup_id === matchup.matchup_id
+      );
+      const opponentPoints = opponent ? round(matchupPoints(opponent)) : null;
+
+      weeksByRoster.set(matchup.roster_id, [
+        ...(weeksByRoster.get(matchup.roster_id) || []),
+        {
+          week,
+          actual_points: actual,
+          optimal_points: optimalPoints,
+          points_left: round(optimalPoints - actual),
+          efficiency: efficiencyPct(actual, optimalPoints),
+          opponent_points: opponentPoints,
+          cost_matchup:
+            opponentPoints !== null && actual < opponentPoints && optimalPoints > opponentPoints,
+          decisions: lineupDecisions(
+            matchup,
+            optimal.starters.map((starter) => starter.player_id)
+          ),
+        },
+      ]);
+    }
+  }
+
+  return season.rosters
+    .map((roster) => {
+      const weeks = weeksByRoster.get(roster.roster_id) || [];
+      const actual = round(weeks.reduce((sum, week) => sum + week.actual_points, 0));
+      const optimal = round(weeks.reduce((sum, week) => sum + week.optimal_points, 0));
+
+      return {
+        roster_id: roster.roster_id,
+        owner_id: roster.owner_id,
+        team_name: teamName(roster, season.users),
+        actual_points: actual,
+        optimal_points: optimal,
+        points_left: round(optimal - actual),
+        efficiency: efficiencyPct(actual, optimal),
+        matchups_cost: weeks.filter((week) => week.cost_matchup).length,
+        weeks,
+      };
+    })
+    .sort((a, b) => b.efficiency - a.efficiency || b.actual_points - a.actual_points);
+}
@@ -0,0 +1,173 @@
+import { HistoricalSeason, buildLeagueHistory, loadLeagueHistory } from './history';
+import { sleeperAPI } from '../api/client';
+import { NotFoundError } from '../utils/errors';
+import {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperPlayoffMatchup,
+  SleeperRoster,
+  SleeperUser,
+} from '../types/sleeper';
+
+const mockGetLeague = jest.fn();
+
+jest.mock('../api/client', () => ({
+  sleeperAPI: {
+    getLeague: (...args: unknown[]): unknown => mockGetLeague(...args),
+    getRosters: jest.fn(),
+    getUsers: jest.fn(),
+    getNFLState: jest.fn(),
+    getMatchups: jest.fn(),
+    getWinnersBracket: jest.fn(),
+  },
+}));
+
+function matchup(rosterId: number, matchupId: number, points: number): SleeperMatchup {
+  return { roster_id: rosterId, matchup_id: matchupId, points, starters: [], players: [] };
+}
+
+function game(t1: number, t2: number, w: number, p: number): SleeperPlayoffMatchup {
+  return { r: 1, m: p, t1, t2, w, l: w === t1 ? t2 : t1, p };
+}
+
+const users: SleeperUser[] = [1, 2, 3, 4].map((n) => ({
+  user_id: `u${n}`,
+  username: `user${n}`,
+  display_name: `User ${n}`,
+  avatar: null,
+}));
+
+function historicalSeason(
+  season: string,
+  owners: string[],
+  matchups: SleeperMatchup[],
+  bracket: SleeperPlayoffMatchup[]
+): HistoricalSeason {
+  return {
+    season: {
+      league: {
+        league_id: `L${season}`,
+        name: 'Dynasty',
+        season,
+        status: 'complete',
+        settings: { playoff_teams: 4 },
+      } as unknown as SleeperLeague,
+      rosters: owners.map(
+        (owner, i) => ({ roster_id: i + 1, owner_id: owner }) as unknown as SleeperRoster
+      ),
+      users,
+      weeks: [{ week: 1, matchups }],
+    },
+    winnersBracket: bracket,
+  };
+}
+
+// Newest first; u1 and u2 swap roster IDs between seasons
+const history = [
+  historicalSeason(
+    '2024',
+    ['u2', 'u1', 'u3', 'u4'],
+    [matchup(1, 1, 150), matchup(2, 1, 60), matchup(3, 2, 100), matchup(4, 2, 100)],
+    [game(1, 2, 2, 1)]
+  ),
+  historicalSeason(
+    '2023',
+    ['u1', 'u2', 'u3', 'u4'],
+    [matchup(1, 1, 100), matchup(2, 1, 90), matchup(3, 2, 80), matchup(4, 2, 120)],
+    [game(1, 4, 1, 1), game(2, 3, 3, 3)]
+  ),
+];
+
+describe('league history', () => {
+  it('should report champions and final places per season', () => {
+    const { seasons } = buildLeagueHistory(history);
+
+    expect(seasons.map((season) => season.season)).toEqual(['2024', '2023']);
+    expect(seasons[0].champion).toMatchObject({ roster_id: 2, owner_id: 'u1' });
+    expect(seasons[0].runner_up).toMatchObject({ roster_id: 1, owner_id: 'u2' });
+    expect(seasons[1].champion?.owner_id).toBe('u1');
+    expect(
+      seasons[1].standings.map((entry) => [entry.owner_id, entry.rank, entry.final_place])
+    ).toEqual([
+      ['u4', 1, 2],
+      ['u1', 2, 1],
+      ['u2', 3, 4],
+      ['u3', 4, 3],
+    ]);
+  });
+
+  it('should track owners and head-to-head records across roster changes', () => {
+    const { owners, head_to_head } = buildLeagueHistory(history);
+
+    expect(owners[0]).toMatchObject({
+      owner_id: 'u1',
+      display_name: 'User 1',
+      seasons: ['2024', '2023'],
+      championships: 2,
+      playoff_appearances: 2,
+      wins: 1,
+      losses: 1,
+      playoff_wins: 2,
+    });
+    expect(owners.find((owner) => owner.owner_id === 'u3')).toMatchObject({
+      ties: 1,
+      playoff_appearances: 1,
+    });
+
+    expect(
+      head_to_head.find((record) => record.owner_id === 'u1' && record.opponent_id === 'u2')
+    ).toMatchObject({
+      wins: 1,
+      losses: 1,
+      playoff_wins: 1,
+      playoff_losses: 0,
+      points_for: 160,
+      points_against: 240,
+    });
+    expect(
+      head_to_head.find((record) => record.owner_id === 'u2' && record.opponent_id === 'u1')
+    ).toMatchObject({ wins: 1, losses: 1, playoff_losses: 1 });
+  });
+
+  it('should keep single-game and season records', () => {
+    const { records } = buildLeagueHistory(history);
+
+    expect(records.highest_score).toMatchObject({ season: '2024', owner_id: 'u2', points: 150 });
+    expect(records.lowest_score).toMatchObject({ owner_id: 'u1', points: 60 });
+    expect(records.biggest_blowout).toMatchObject({ owner_id: 'u2', opponent_id: 'u1' });
+    expect(records.most_points_season).toMatchObject({
+      season: '2024',
+      owner_id: 'u2',
+      points_for: 150,
+    });
+  });
+
+  describe('loadLeagueHistory', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      const leagues: Record<string, Partial<SleeperLeague>> = {
+        L3: { league_id: 'L3', season: '2024', previous_league_id: 'L2' },
+        L2: { league_id: 'L2', season: '2023', previous_league_id: 'L1' },
+      };
+      mockGetLeague.mockImplementation((id: string) =>
+        Promise.resolve(leagues[id] ? { status: 'complete', settings: {}, ...leagues[id] } : null)
+      );
+      (sleeperAPI.getRosters as jest.Mock).mockResolvedValue([]);
+      (sleeperAPI.getUsers as jest.Mock).mockResolvedValue([]);
+      (sleeperAPI.getNFLState as jest.Mock).mockResolvedValue({ season: '2024', week: 1 });
+      (sleeperAPI.getMatchups as jest.Mock).mockResolvedValue([]);
+      (sleeperAPI.getWinnersBracket as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should follow previous_league_id until an ancestor is missing', async () => {
+      const loaded = await loadLeagueHistory('L3');
+
+      expect(loaded.map((entry) => entry.season.league.league_id)).toEqual(['L3', 'L2']);
+      expect(mockGetLeague).toHaveBeenCalledWith('L1');
+    });
+
+    it('should throw when the requested league does not exist', async () => {
+      await expect(loadLeagueHistory('missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
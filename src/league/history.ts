@@ -0,0 +1,370 @@
+import { LeagueSeason, loadLeagueSeason, matchupPoints, teamName } from './season';
+import { computeStandings } from './standings';
+import { sleeperAPI } from '../api/client';
+import { logger } from '../utils/logger';
+import { SleeperMatchup, SleeperPlayoffMatchup } from '../types/sleeper';
+
+export interface HistoricalSeason {
+  season: LeagueSeason;
+  winnersBracket: SleeperPlayoffMatchup[];
+}
+
+export interface SeasonTeam {
+  roster_id: number;
+  owner_id: string;
+  team_name: string;
+}
+
+export interface FinalStanding extends SeasonTeam {
+  rank: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  points_for: number;
+  points_against: number;
+  // Finish decided by the playoff bracket (1 = champion), when it has been played
+  final_place: number | null;
+}
+
+export interface SeasonSummary {
+  league_id: string;
+  season: string;
+  name: string;
+  complete: boolean;
+  champion: SeasonTeam | null;
+  runner_up: SeasonTeam | null;
+  standings: FinalStanding[];
+  rosters: SeasonTeam[];
+}
+
+export interface OwnerRecord {
+  owner_id: string;
+  display_name: string;
+  seasons: string[];
+  championships: number;
+  runner_ups: number;
+  playoff_appearances: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  playoff_wins: number;
+  playoff_losses: number;
+  points_for: number;
+}
+
+export interface HeadToHeadRecord {
+  owner_id: string;
+  opponent_id: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  playoff_wins: number;
+  playoff_losses: number;
+  points_for: number;
+  points_against: number;
+}
+
+export interface WeekScore {
+  season: string;
+  week: number;
+  owner_id: string;
+  team_name: string;
+  points: number;
+  opponent_id: string | null;
+  opponent_points: number | null;
+}
+
+export interface LeagueRecordBook {
+  highest_score: WeekScore | null;
+  lowest_score: WeekScore | null;
+  biggest_blowout: WeekScore | null;
+  most_points_season: (SeasonTeam & { season: string; points_for: number }) | null;
+}
+
+export interface LeagueHistory {
+  seasons: SeasonSummary[];
+  owners: OwnerRecord[];
+  head_to_head: HeadToHeadRecord[];
+  records: LeagueRecordBook;
+}
+
+// Guards against malformed previous_league_id chains
+const MAX_SEASONS = 50;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Load a league and every season before it by following previous_league_id,
+ * newest first
+ */
+export async function loadLeagueHistory(leagueId: string): Promise<HistoricalSeason[]> {
+  const history: HistoricalSeason[] = [];
+  const seen = new Set<string>();
+  let nextId: string | null = leagueId;
+
+  while (nextId && !seen.has(nextId) && history.length < MAX_SEASONS) {
+    seen.add(nextId);
+    let season: LeagueSeason;
+    try {
+      season = await loadLeagueSeason(nextId);
+    } catch (error) {
+      // The requested league must exist; a missing ancestor just ends the chain
+      if (nextId === leagueId) {
+        throw error;
+      }
+      logger.warn(`Stopping league history at missing league ${nextId}`, { error });
+      break;
+    }
+    const bracket = (await sleeperAPI.getWinnersBracket(nextId)) as SleeperPlayoffMatchup[] | null;
+    history.push({ season, winnersBracket: bracket || [] });
+    nextId = season.league.previous_league_id;
+  }
+  return history;
+}
+
+/**
+ * Places decided by the bracket: each placement game (p) awards p to the
+ * winner and p + 1 to the loser
+ */
+function bracketPlaces(bracket: SleeperPlayoffMatchup[]): Map<number, number> {
+  const places = new Map<number, number>();
+  for (const game of bracket) {
+    if (game.p && game.w && game.l) {
+      places.set(game.w, game.p);
+      places.set(game.l, game.p + 1);
+    }
+  }
+  return places;
+}
+
+/**
+ * Build a record book from a league's seasons: champions and final standings
+ * per season, each owner's all-time totals, head-to-head records between
+ * owners (regular season and winners bracket games) and single-game records.
+ * Owners are tracked by user ID so they carry across seasons even when their
+ * roster ID changes.
+ */
+export function buildLeagueHistory(history: HistoricalSeason[]): LeagueHistory {
+  const owners = new Map<string, OwnerRecord>();
+  const headToHead = new Map<string, HeadToHeadRecord>();
+  const scores: WeekScore[] = [];
+  const seasonTotals: Array<SeasonTeam & { season: string; points_for: number }> = [];
+
+  const ownerFor = (ownerId: string, displayName: string): OwnerRecord => {
+    let owner = owners.get(ownerId);
+    if (!owner) {
+      owner = {
+        owner_id: ownerId,
+        display_name: displayName,
+        seasons: [],
+        championships: 0,
+        runner_ups: 0,
+        playoff_appearances: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        playoff_wins: 0,
+        playoff_losses: 0,
+        points_for: 0,
+      };
+      owners.set(ownerId, owner);
+    }
+    return owner;
+  };
+  const pairFor = (ownerId: string, opponentId: string): HeadToHeadRecord => {
+    const key = `${ownerId}:${opponentId}`;
+    let record = headToHead.get(key);
+    if (!record) {
+      record = {
+        owner_id: ownerId,
+        opponent_id: opponentId,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        playoff_wins: 0,
+        playoff_losses: 0,
+        points_for: 0,
+        points_against: 0,
+      };
+      headToHead.set(key, record);
+    }
+    return record;
+  };
+
+  const seasons = history.map(({ season, winnersBracket }): SeasonSummary => {
+    const { league, rosters, users } = season;
+    const teams = new Map(
+      rosters.map((roster) => [
+        roster.roster_id,
+        {
+          roster_id: roster.roster_id,
+          owner_id: roster.owner_id,
+          team_name: teamName(roster, users),
+        },
+      ])
+    );
+    const displayName = (ownerId: string) =>
+      users.find((user) => user.user_id === ownerId)?.display_name || ownerId;
+
+    // Seasons are newest first, so the first name seen for an owner is their latest
+    for (const team of teams.values()) {
+      const owner = team.owner_id ? ownerFor(team.owner_id, displayName(team.owner_id)) : null;
+      if (owner && !owner.seasons.includes(league.season)) {
+        owner.seasons.push(league.season);
+      }
+    }
+
+    for (const { week, matchups } of season.weeks) {
+      const games = new Map<number, SleeperMatchup[]>();
+      for (const matchup of matchups) {
+        if (matchup.matchup_id !== null && matchup.matchup_id !== undefined) {
+          games.set(matchup.matchup_id, [...(games.get(matchup.matchup_id) || []), matchup]);
+        }
+      }
+
+      for (const matchup of matchups) {
+        const team = teams.get(matchup.roster_id);
+        const opponentEntry = (games.get(matchup.matchup_id ?? -1) || []).find(
+          (other) => other.roster_id !== matchup.roster_id
+        );
+        const opponent = opponentEntry ? teams.get(opponentEntry.roster_id) : undefined;
+        const points = matchupPoints(matchup);
+        const opponentPoints = opponentEntry ? matchupPoints(opponentEntry) : null;
+        if (!team?.owner_id) {
+          continue;
+        }
+        scores.push({
+          season: league.season,
+          week,
+          owner_id: team.owner_id,
+          team_name: team.team_name,
+          points: round(points),
+          opponent_id: opponent?.owner_id ?? null,
+          opponent_points: opponentPoints === null ? null : round(opponentPoints),
+        });
+
+        if (opponent?.owner_id && opponentPoints !== null && opponent.owner_id !== team.owner_id) {
+          const record = pairFor(team.owner_id, opponent.owner_id);
+          record.points_for = round(record.points_for + points);
+          record.points_against = round(record.points_against + opponentPoints);
+          if (points > opponentPoints) {
+            record.wins++;
+          } else if (points < opponentPoints) {
+            record.losses++;
+          } else {
+            record.ties++;
+          }
+        }
+      }
+    }
+
+    for (const game of winnersBracket) {
+      const winner = game.w ? teams.get(game.w) : undefined;
+      const loser = game.l ? teams.get(game.l) : undefined;
+      if (winner?.owner_id && loser?.owner_id) {
+        ownerFor(winner.owner_id, displayName(winner.owner_id)).playoff_wins++;
+        ownerFor(loser.owner_id, displayName(loser.owner_id)).playoff_losses++;
+        if (winner.owner_id !== loser.owner_id) {
+          pairFor(winner.owner_id, loser.owner_id).playoff_wins++;
+          pairFor(loser.owner_id, winner.owner_id).playoff_losses++;
+        }
+      }
+    }
+    const playoffTeams = new Set(
+      winnersBracket.flatMap((game) => [game.t1, game.t2]).filter((id) => typeof id === 'number')
+    );
+    for (const rosterId of playoffTeams) {
+      const ownerId = teams.get(rosterId)?.owner_id;
+      if (ownerId) {
+        ownerFor(ownerId, displayName(ownerId)).playoff_appearances++;
+      }
+    }
+
+    const places = bracketPlaces(winnersBracket);
+    const standings = computeStandings(season).map((entry) => ({
+      rank: entry.rank,
+      roster_id: entry.roster_id,
+      owner_id: entry.owner_id,
+      team_name: entry.team_name,
+      wins: entry.wins,
+      losses: entry.losses,
+      ties: entry.ties,
+      points_for: entry.points_for,
+      points_against: entry.points_against,
+      final_place: places.get(entry.roster_id) ?? null,
+    }));
+    for (const entry of standings) {
+      seasonTotals.push({
+        season: league.season,
+        roster_id: entry.roster_id,
+        owner_id: entry.owner_id,
+        team_name: entry.team_name,
+        points_for: entry.points_for,
+      });
+      if (entry.owner_id) {
+        const owner = ownerFor(entry.owner_id, displayName(entry.owner_id));
+        owner.wins += entry.wins;
+        owner.losses += entry.losses;
+        owner.ties += entry.ties;
+        owner.points_for = round(owner.points_for + entry.points_for);
+      }
+    }
+
+    const placed = (place: number): SeasonTeam | null => {
+      const rosterId = [...places.entries()].find(([, p]) => p === place)?.[0];
+      return (rosterId !== undefined && teams.get(rosterId)) || null;
+    };
+    const champion = placed(1);
+    const runnerUp = placed(2);
+    if (champion?.owner_id) {
+      ownerFor(champion.owner_id, displayName(champion.owner_id)).championships++;
+    }
+    if (runnerUp?.owner_id) {
+      ownerFor(runnerUp.owner_id, displayName(runnerUp.owner_id)).runner_ups++;
+    }
+
+    return {
+      league_id: league.league_id,
+      season: league.season,
+      name: league.name,
+      complete: league.status === 'complete',
+      champion,
+      runner_up: runnerUp,
+      standings,
+      rosters: [...teams.values()],
+    };
+  });
+
+  const margin = (score: WeekScore) =>
+    score.opponent_points === null ? -Infinity : score.points - score.opponent_points;
+  const best = <T>(items: T[], value: (item: T) => number): T | null =>
+    items.reduce<T | null>(
+      (top, item) => (top === null || value(item) > value(top) ? item : top),
+      null
+    );
+
+  return {
+    seasons,
+    owners: [...owners.values()].sort(
+      (a, b) =>
+        b.championships - a.championships ||
+        b.wins - a.wins ||
+        b.points_for - a.points_for ||
+        a.owner_id.localeCompare(b.owner_id)
+    ),
+    head_to_head: [...headToHead.values()].sort(
+      (a, b) => a.owner_id.localeCompare(b.owner_id) || a.opponent_id.localeCompare(b.opponent_id)
+    ),
+    records: {
+      highest_score: best(scores, (score) => score.points),
+      lowest_score: best(scores, (score) => -score.points),
+      biggest_blowout: best(
+        scores.filter((score) => score.opponent_points !== null),
+        margin
+      ),
+      most_points_season: best(seasonTotals, (total) => total.points_for),
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { optimalLineup } from './lineup';
+
+describe('optimalLineup', () => {
+  const candidate = (player_id: string, position: string, points: number) => ({
+    player_id,
+    positions: [position],
+    points,
+  });
+
+  it('should fill dedicated slots before flex slots', () => {
+    const lineup = optimalLineup(
+      ['QB', 'RB', 'WR', 'FLEX', 'SUPER_FLEX', 'BN', 'BN'],
+      [
+        candidate('qb1', 'QB', 22),
+        candidate('qb2', 'QB', 18),
+        candidate('rb1', 'RB', 15),
+        candidate('rb2', 'RB', 9),
+        candidate('wr1', 'WR', 14),
+        candidate('wr2', 'WR', 11),
+      ]
+    );
+
+    expect(lineup.starters.map((slot) => slot.player_id)).toEqual([
+      'qb1',
+      'rb1',
+      'wr1',
+      'wr2',
+      'qb2',
+    ]);
+    expect(lineup.bench).toEqual(['rb2']);
+    expect(lineup.points).toBe(80);
+  });
+
+  it('should find the best assignment across overlapping flex slots', () => {
+    const lineup = optimalLineup(
+      ['WRRB_FLEX', 'REC_FLEX'],
+      [candidate('wr', 'WR', 20), candidate('rb', 'RB', 5), candidate('te', 'TE', 4)]
+    );
+
+    // Greedy WRRB_FLEX -> wr would leave REC_FLEX with te (24)
+    expect(lineup.starters).toEqual([
+      { slot: 'WRRB_FLEX', player_id: 'rb', points: 5 },
+      { slot: 'REC_FLEX', player_id: 'wr', points: 20 },
+    ]);
+  });
+
+  it('should place multi-position players where they help the lineup most', () => {
+    const lineup = optimalLineup(
+      ['QB', 'TE'],
+      [
+        { player_id: 'hill', positions: ['QB', 'TE'], points: 20 },
+        candidate('qb2', 'QB', 15),
+        candidate('te2', 'TE', 3),
+      ]
+    );
+
+    // Filling QB with the best QB-eligible player first would score 23
+    expect(lineup.starters).toEqual([
+      { slot: 'QB', player_id: 'qb2', points: 15 },
+      { slot: 'TE', player_id: 'hill', points: 20 },
+    ]);
+    expect(lineup.bench).toEqual(['te2']);
+    expect(lineup.points).toBe(35);
+  });
+
+  it('should fill slots with eligible players even at negative points', () => {
+    const lineup = optimalLineup(
+      ['DL', 'LB', 'IDP_FLEX'],
+      [
+        { player_id: 'edge', positions: ['DL', 'LB'], points: 9 },
+        candidate('lb', 'LB', 6),
+        candidate('db', 'DB', -1),
+      ]
+    );
+
+    expect(lineup.starters).toEqual([
+      { slot: 'DL', player_id: 'edge', points: 9 },
+      { slot: 'LB', player_id: 'lb', points: 6 },
+      { slot: 'IDP_FLEX', player_id: 'db', points: -1 },
+    ]);
+    expect(lineup.points).toBe(14);
+  });
+
+  it('should leave slots empty when no player is eligible', () => {
+    const lineup = optimalLineup(['K', 'IDP_FLEX', 'IR'], [candidate('lb', 'LB', 8)]);
+
+    expect(lineup.starters).toEqual([
+      { slot: 'K', player_id: null, points: 0 },
+      { slot: 'IDP_FLEX', player_id: 'lb', points: 8 },
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+export interface LineupCandidate {
+  player_id: string;
+  positions: string[];
+  points: number;
+}
+
+export interface LineupSlot {
+  slot: string;
+  player_id: string | null;
+  points: number;
+}
+
+export interface Lineup {
+  starters: LineupSlot[];
+  bench: string[];
+  points: number;
+}
+
+// Positions each roster_positions slot accepts
+export const SLOT_ELIGIBILITY: Record<string, string[]> = {
+  QB: ['QB'],
+  RB: ['RB'],
+  WR: ['WR'],
+  TE: ['TE'],
+  K: ['K'],
+  DEF: ['DEF'],
+  DL: ['DL'],
+  LB: ['LB'],
+  DB: ['DB'],
+  FLEX: ['RB', 'WR', 'TE'],
+  WRRB_FLEX: ['RB', 'WR'],
+  REC_FLEX: ['WR', 'TE'],
+  SUPER_FLEX: ['QB', 'RB', 'WR', 'TE'],
+  IDP_FLEX: ['DL', 'LB', 'DB'],
+};
+
+// Slots that never score
+const NON_STARTING_SLOTS = new Set(['BN', 'IR', 'TAXI']);
+
+// Share of a player's projection kept for each injury designation
+const INJURY_MULTIPLIERS: Record<string, number> = {
+  Questionable: 1,
+  Doubtful: 0.25,
+  Out: 0,
+  IR: 0,
+  PUP: 0,
+  SUS: 0,
+  COV: 0,
+};
+
+export function injuryMultiplier(status: string | null | undefined): number {
+  return status ? (INJURY_MULTIPLIERS[status] ?? 1) : 1;
+}
+
+export function startingSlots(rosterPositions: string[]): string[] {
+  return rosterPositions.filter((slot) => !NON_STARTING_SLOTS.has(slot));
+}
+
+export function isEligible(slot: string, candidate: LineupCandidate): boolean {
+  const eligible = SLOT_ELIGIBILITY[slot] ?? [slot];
+  return candidate.positions.some((position) => eligible.includes(position));
+}
+
+/**
+ * Lineup candidates from per-player projections; unknown players score zero
+ */
+export function candidatesFor(
+  playerIds: string[],
+  projections: Map<string, { positions: string[]; points_per_week: number }>
+): LineupCandidate[] {
+  return playerIds.map((playerId) => {
+    const projection = projections.get(playerId);
+    return {
+      player_id: playerId,
+      positions: projection?.positions ?? [],
+      points: projection?.points_per_week ?? 0,
+    };
+  });
+}
+
+/**
+ * Positions with no depth: the roster has no more players there than the
+ * league's dedicated starting slots for that position
+ */
+export function positionalNeeds(rosterPositions: string[], roster: LineupCandidate[]): string[] {
+  const dedicated: Record<string, number> = {};
+  for (const slot of startingSlots(rosterPositions)) {
+    const eligible = SLOT_ELIGIBILITY[slot] ?? [slot];
+    if (eligible.length === 1) {
+      dedicated[eligible[0]] = (dedicated[eligible[0]] || 0) + 1;
+    }
+  }
+
+  return Object.entries(dedicated)
+    .filter(
+      ([position, slots]) =>
+        roster.filter((candidate) => candidate.positions.includes(position)).length <= slots
+    )
+    .map(([position]) => position);
+}
+
+/**
+ * Maximum-weight assignment of rows to columns (Hungarian algorithm, O(n²m)).
+ * Needs rows <= columns; returns the column picked for each row.
+ */
+function assign(weights: number[][]): number[] {
+  const rows = weights.length;
+  const columns = rows > 0 ? weights[0].length : 0;
+  // Potentials and matching are 1-indexed; column 0 is the virtual start
+  const u = new Array<number>(rows + 1).fill(0);
+  const v = new Array<number>(columns + 1).fill(0);
+  const rowOf = new Array<number>(columns + 1).fill(0);
+  const previous = new Array<number>(columns + 1).fill(0);
+
+  for (let row = 1; row <= rows; row++) {
+    rowOf[0] = row;
+    let column = 0;
+    const slack = new Array<number>(columns + 1).fill(Infinity);
+    const visited = new Array<boolean>(columns + 1).fill(false);
+    do {
+      visited[column] = true;
+      const current = rowOf[column];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= columns; j++) {
+        if (!visited[j]) {
+          const reduced = -weights[current - 1][j - 1] - u[current] - v[j];
+          if (reduced < slack[j]) {
+            slack[j] = reduced;
+            previous[j] = column;
+          }
+          if (slack[j] < delta) {
+            delta = slack[j];
+            next = j;
+          }
+        }
+      }
+      for (let j = 0; j <= columns; j++) {
+        if (visited[j]) {
+          u[rowOf[j]] += delta;
+          v[j] -= delta;
+        } else {
+          slack[j] -= delta;
+        }
+      }
+      column = next;
+    } while (rowOf[column] !== 0);
+    do {
+      const from = previous[column];
+      rowOf[column] = rowOf[from];
+      column = from;
+    } while (column !== 0);
+  }
+
+  const picks = new Array<number>(rows).fill(-1);
+  for (let j = 1; j <= columns; j++) {
+    if (rowOf[j] !== 0) {
+      picks[rowOf[j] - 1] = j - 1;
+    }
+  }
+  return picks;
+}
+
+/**
+ * Highest-scoring legal lineup for a league's roster_positions. Every slot is
+ * solved together as an assignment problem, so players eligible at several
+ * positions (QB/TE, DL/LB, ...) and overlapping flex slots are placed
+ * exactly. Slots are filled whenever someone is eligible, even at negative
+ * points, since an empty slot is never the better legal lineup.
+ */
+export function optimalLineup(rosterPositions: string[], candidates: LineupCandidate[]): Lineup {
+  const slots = startingSlots(rosterPositions);
+  const pool = [...candidates].sort((a, b) => b.points - a.points);
+
+  // Each filled slot is worth more than any spread of points, so the most
+  // slots get filled first and points decide between those lineups. Each
+  // slot also gets its own "empty" column worth nothing.
+  const fillBonus = 1 + 2 * pool.reduce((sum, candidate) => sum + Math.abs(candidate.points), 0);
+  const weights = slots.map((slot, index) => [
+    ...pool.map((candidate) =>
+      isEligible(slot, candidate) ? fillBonus + candidate.points : -fillBonus * (slots.length + 1)
+    ),
+    ...slots.map((_, emptyIndex) => (emptyIndex === index ? 0 : -fillBonus * (slots.length + 1))),
+  ]);
+
+  const used = new Set<string>();
+  const starters = assign(weights).map((column, index) => {
+    const pick =
+      column < pool.length && isEligible(slots[index], pool[column]) ? pool[column] : null;
+    if (pick) {
+      used.add(pick.player_id);
+    }
+    return { slot: slots[index], player_id: pick?.player_id ?? null, points: pick?.points ?? 0 };
+  });
+
+  return {
+    starters,
+    bench: pool.filter((candidate) => !used.has(candidate.player_id)).map((c) => c.player_id),
+    points: Math.round(starters.reduce((sum, slot) => sum + slot.points, 0) * 100) / 100,
+  };
+}
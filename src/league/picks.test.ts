@@ -0,0 +1,196 @@
+import { buildPickLedger } from './picks';
+import { LeagueSeason } from './season';
+import { computeStandings } from './standings';
+import {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperRoster,
+  SleeperTradedDraftPick,
+  SleeperTransaction,
+} from '../types/sleeper';
+
+function matchup(rosterId: number, matchupId: number, points: number): SleeperMatchup {
+  return { roster_id: rosterId, matchup_id: matchupId, points, starters: [], players: [] };
+}
+
+function buildSeason(played = true): LeagueSeason {
+  return {
+    league: {
+      league_id: 'L1',
+      season: '2024',
+      status: 'in_season',
+      total_rosters: 4,
+      settings: { draft_rounds: 2, playoff_teams: 2 },
+    } as unknown as SleeperLeague,
+    rosters: [1, 2, 3, 4].map(
+      (rosterId) => ({ roster_id: rosterId, owner_id: `u${rosterId}` }) as unknown as SleeperRoster
+    ),
+    users: [{ user_id: 'u1', username: 'one', display_name: 'One', avatar: null }],
+    // Standings: 3, 1, 2, 4
+    weeks: played
+      ? [
+          {
+            week: 1,
+            matchups: [
+              matchup(1, 1, 120),
+              matchup(2, 1, 100),
+              matchup(3, 2, 90),
+              matchup(4, 2, 110),
+            ],
+          },
+          {
+            week: 2,
+            matchups: [
+              matchup(1, 1, 80),
+              matchup(3, 1, 95),
+              matchup(2, 2, 130),
+              matchup(4, 2, 105),
+            ],
+          },
+          {
+            week: 3,
+            matchups: [
+              matchup(1, 1, 140),
+              matchup(4, 1, 100),
+              matchup(2, 2, 90),
+              matchup(3, 2, 100),
+            ],
+          },
+        ]
+      : [],
+  };
+}
+
+function pick(
+  season: string,
+  round: number,
+  rosterId: number,
+  previousOwner: number,
+  owner: number
+): SleeperTradedDraftPick {
+  return {
+    season,
+    round,
+    roster_id: rosterId,
+    previous_owner_id: previousOwner,
+    owner_id: owner,
+  };
+}
+
+function trade(
+  id: string,
+  created: number,
+  draftPicks: SleeperTradedDraftPick[],
+  status: 'complete' | 'failed' = 'complete'
+): SleeperTransaction {
+  return {
+    type: 'trade',
+    transaction_id: id,
+    status,
+    created,
+    draft_picks: draftPicks,
+  } as unknown as SleeperTransaction;
+}
+
+describe('draft pick ownership', () => {
+  const trades = [
+    // Listed out of order to check they are replayed by creation time
+    trade('t2', 200, [pick('2025', 1, 1, 2, 3)]),
+    trade('t1', 100, [pick('2025', 1, 1, 1, 2), pick('2027', 1, 2, 2, 4)]),
+    trade('t3', 300, [pick('2025', 2, 3, 3, 2)], 'failed'),
+  ];
+  const tradedPicks = [
+    pick('2025', 1, 1, 2, 3),
+    // Moved before the league was renewed, so there is no matching trade
+    pick('2025', 2, 4, 4, 1),
+    pick('2027', 1, 2, 2, 4),
+  ];
+
+  it('should replay trades into a chain of custody for each pick', () => {
+    const season = buildSeason();
+    const { picks } = buildPickLedger(
+      season,
+      ['2025', '2026'],
+      tradedPicks,
+      trades,
+      computeStandings(season)
+    );
+
+    expect(picks).toHaveLength(16);
+    expect(picks.some((p) => p.season === '2027')).toBe(false);
+
+    const first = picks.find(
+      (p) => p.season === '2025' && p.round === 1 && p.original_roster_id === 1
+    );
+    expect(first).toMatchObject({ owner_roster_id: 3, traded: true });
+    expect(first?.original_team).toBe('One');
+    expect(
+      first?.chain.map((step) => [step.roster_id, step.transaction_id, step.acquired_at])
+    ).toEqual([
+      [1, null, null],
+      [2, 't1', 100],
+      [3, 't2', 200],
+    ]);
+
+    const renewed = picks.find(
+      (p) => p.season === '2025' && p.round === 2 && p.original_roster_id === 4
+    );
+    expect(renewed?.owner_roster_id).toBe(1);
+    expect(renewed?.chain.map((step) => [step.roster_id, step.transaction_id])).toEqual([
+      [4, null],
+      [1, null],
+    ]);
+
+    // The failed trade is ignored
+    const untouched = picks.find(
+      (p) => p.season === '2025' && p.round === 2 && p.original_roster_id === 3
+    );
+    expect(untouched?.traded).toBe(false);
+    expect(untouched?.chain).toHaveLength(1);
+  });
+
+  it('should project draft slots in reverse order of the standings', () => {
+    const season = buildSeason();
+    const { picks, owners } = buildPickLedger(
+      season,
+      ['2025', '2026'],
+      tradedPicks,
+      trades,
+      computeStandings(season)
+    );
+
+    const firstRound = picks.filter((p) => p.season === '2025' && p.round === 1);
+    expect(firstRound.map((p) => [p.original_roster_id, p.projected_slot])).toEqual([
+      [4, 1],
+      [2, 2],
+      [3, 3],
+      [1, 4],
+    ]);
+    const renewed = picks.find(
+      (p) => p.season === '2025' && p.round === 2 && p.original_roster_id === 4
+    );
+    expect(renewed?.projected_pick_no).toBe(5);
+
+    expect(owners.find((owner) => owner.roster_id === 3)).toMatchObject({
+      total_picks: 5,
+      acquired: 1,
+      traded_away: 0,
+      picks_by_season: { '2025': 3, '2026': 2 },
+    });
+    expect(owners.find((owner) => owner.roster_id === 1)).toMatchObject({
+      total_picks: 4,
+      acquired: 1,
+      traded_away: 1,
+    });
+  });
+
+  it('should not project slots before any week has been played', () => {
+    const season = buildSeason(false);
+    const { picks } = buildPickLedger(season, ['2025'], [], [], computeStandings(season));
+
+    expect(picks).toHaveLength(8);
+    expect(picks.every((p) => p.projected_slot === null && p.projected_pick_no === null)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { LeagueSeason, teamName } from './season';
+import { StandingsEntry } from './standings';
+import { SleeperTradedDraftPick, SleeperTransaction } from '../types/sleeper';
+
+export interface PickCustodyStep {
+  roster_id: number;
+  team_name: string;
+  // Trade that moved the pick to this roster; null for the original owner or
+  // a move Sleeper's traded-picks list records without a matching trade
+  transaction_id: string | null;
+  acquired_at: number | null;
+}
+
+export interface PickOwnership {
+  season: string;
+  round: number;
+  original_roster_id: number;
+  original_team: string;
+  owner_roster_id: number;
+  owner_team: string;
+  traded: boolean;
+  chain: PickCustodyStep[];
+  projected_slot: number | null;
+  projected_pick_no: number | null;
+}
+
+export interface PickOwnerSummary {
+  roster_id: number;
+  team_name: string;
+  total_picks: number;
+  acquired: number;
+  traded_away: number;
+  picks_by_season: Record<string, number>;
+}
+
+export interface PickLedger {
+  picks: PickOwnership[];
+  owners: PickOwnerSummary[];
+}
+
+function pickKey(season: string, round: number, rosterId: number): string {
+  return `${season}:${round}:${rosterId}`;
+}
+
+/**
+ * Draft slot each roster is projected to pick from: reverse order of the
+ * current standings, so the last-place team picks first. Empty before any
+ * week has been played.
+ */
+export function projectedDraftSlots(
+  season: LeagueSeason,
+  standings: StandingsEntry[]
+): Map<number, number> {
+  if (season.weeks.length === 0) {
+    return new Map();
+  }
+  return new Map(standings.map((team) => [team.roster_id, standings.length - team.rank + 1]));
+}
+
+/**
+ * Current owner and chain of custody of every pick in the given draft seasons.
+ *
+ * Every roster starts out owning its own pick in each round. Completed trades
+ * are replayed in order to build each pick's chain; Sleeper's traded-picks list
+ * is authoritative for the current owner, so any move it records that the
+ * trades do not (e.g. one made before the league was renewed) is appended last.
+ * Projected pick numbers assume a linear draft.
+ */
+export function buildPickLedger(
+  season: LeagueSeason,
+  seasons: string[],
+  tradedPicks: SleeperTradedDraftPick[],
+  trades: SleeperTransaction[],
+  standings: StandingsEntry[]
+): PickLedger {
+  const { league, rosters, users } = season;
+  const rosterIds = rosters.length
+    ? rosters.map((roster) => roster.roster_id).sort((a, b) => a - b)
+    : Array.from({ length: league.total_rosters || 0 }, (_, i) => i + 1);
+  const rounds = league.settings?.draft_rounds || 0;
+  const name = (rosterId: number) => {
+    const roster = rosters.find((r) => r.roster_id === rosterId);
+    return roster ? teamName(roster, users) : `Team ${rosterId}`;
+  };
+  const step = (
+    rosterId: number,
+    transactionId: string | null = null,
+    acquiredAt: number | null = null
+  ): PickCustodyStep => ({
+    roster_id: rosterId,
+    team_name: name(rosterId),
+    transaction_id: transactionId,
+    acquired_at: acquiredAt,
+  });
+
+  const chains = new Map<string, { season: string; round: number; chain: PickCustodyStep[] }>();
+  const chainFor = (pickSeason: string, round: number, rosterId: number) => {
+    const key = pickKey(pickSeason, round, rosterId);
+    let entry = chains.get(key);
+    if (!entry) {
+      entry = { season: pickSeason, round, chain: [step(rosterId)] };
+      chains.set(key, entry);
+    }
+    return entry.chain;
+  };
+  // Record a move, filling in the previous owner when the chain does not end with them
+  const move = (pick: SleeperTradedDraftPick, transactionId: string | null, at: number | null) => {
+    const chain = chainFor(String(pick.season), pick.round, pick.roster_id);
+    if (chain[chain.length - 1].roster_id !== pick.previous_owner_id) {
+      chain.push(step(pick.previous_owner_id));
+    }
+    if (pick.owner_id !== pick.previous_owner_id) {
+      chain.push(step(pick.owner_id, transactionId, at));
+    }
+  };
+
+  for (const pickSeason of seasons) {
+    for (let round = 1; round <= rounds; round++) {
+      for (const rosterId of rosterIds) {
+        chainFor(pickSeason, round, rosterId);
+      }
+    }
+  }
+
+  const wanted = new Set(seasons);
+  const completedTrades = trades
+    .filter((trade) => trade.type === 'trade' && trade.status === 'complete')
+    .sort((a, b) => a.created - b.created);
+  for (const trade of completedTrades) {
+    for (const pick of trade.draft_picks || []) {
+      if (wanted.has(String(pick.season))) {
+        move(pick, trade.transaction_id, trade.created);
+      }
+    }
+  }
+
+  for (const pick of tradedPicks) {
+    if (!wanted.has(String(pick.season))) {
+      continue;
+    }
+    const chain = chainFor(String(pick.season), pick.round, pick.roster_id);
+    if (chain[chain.length - 1].roster_id !== pick.owner_id) {
+      move(pick, null, null);
+    }
+  }
+
+  const slots = projectedDraftSlots(season, standings);
+  const picks: PickOwnership[] = [...chains.values()]
+    .map(({ season: pickSeason, round, chain }) => {
+      const original = chain[0];
+      const owner = chain[chain.length - 1];
+      const slot = slots.get(original.roster_id) ?? null;
+      return {
+        season: pickSeason,
+        round,
+        original_roster_id: original.roster_id,
+        original_team: original.team_name,
+        owner_roster_id: owner.roster_id,
+        owner_team: owner.team_name,
+        traded: owner.roster_id !== original.roster_id,
+        chain,
+        projected_slot: slot,
+        projected_pick_no: slot === null ? null : (round - 1) * rosterIds.length + slot,
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.season.localeCompare(b.season) ||
+        a.round - b.round ||
+        (a.projected_slot ?? a.original_roster_id) - (b.projected_slot ?? b.original_roster_id)
+    );
+
+  const owners = rosterIds.map((rosterId) => {
+    const owned = picks.filter((pick) => pick.owner_roster_id === rosterId);
+    const picksBySeason: Record<string, number> = {};
+    for (const pickSeason of seasons) {
+      picksBySeason[pickSeason] = owned.filter((pick) => pick.season === pickSeason).length;
+    }
+    return {
+      roster_id: rosterId,
+      team_name: name(rosterId),
+      total_picks: owned.length,
+      acquired: owned.filter((pick) => pick.original_roster_id !== rosterId).length,
+      traded_away: picks.filter(
+        (pick) => pick.original_roster_id === rosterId && pick.owner_roster_id !== rosterId
+      ).length,
+      picks_by_season: picksBySeason,
+    };
+  });
+
+  return { picks, owners };
+}
@@ -0,0 +1,73 @@
+import { simulatePlayoffOdds } from './playoffs';
+import { LeagueSeason, WeekResults } from './season';
+import { SleeperLeague, SleeperMatchup, SleeperRoster } from '../types/sleeper';
+
+function matchup(rosterId: number, matchupId: number, points = 0): SleeperMatchup {
+  return { roster_id: rosterId, matchup_id: matchupId, points, starters: [], players: [] };
+}
+
+describe('simulatePlayoffOdds', () => {
+  const season: LeagueSeason = {
+    league: {
+      league_id: 'L1',
+      season: '2024',
+      status: 'in_season',
+      settings: { playoff_teams: 3 },
+    } as unknown as SleeperLeague,
+    rosters: [1, 2, 3, 4].map(
+      (rosterId) => ({ roster_id: rosterId, owner_id: `u${rosterId}` }) as unknown as SleeperRoster
+    ),
+    users: [],
+    weeks: [
+      {
+        week: 1,
+        matchups: [matchup(1, 1, 150), matchup(2, 1, 100), matchup(3, 2, 90), matchup(4, 2, 80)],
+      },
+      {
+        week: 2,
+        matchups: [matchup(1, 1, 140), matchup(3, 1, 95), matchup(2, 2, 110), matchup(4, 2, 85)],
+      },
+    ],
+  };
+  const remaining: WeekResults[] = [
+    { week: 3, matchups: [matchup(1, 1), matchup(4, 1), matchup(2, 2), matchup(3, 2)] },
+    { week: 4, matchups: [matchup(1, 1), matchup(2, 1), matchup(3, 2), matchup(4, 2)] },
+  ];
+
+  it('should be reproducible for a given seed', () => {
+    const first = simulatePlayoffOdds(season, remaining, { iterations: 500, seed: 42 });
+    const second = simulatePlayoffOdds(season, remaining, { iterations: 500, seed: 42 });
+    const other = simulatePlayoffOdds(season, remaining, { iterations: 500, seed: 7 });
+
+    expect(second).toEqual(first);
+    expect(other.odds).not.toEqual(first.odds);
+  });
+
+  it('should hand out every playoff spot, bye and title exactly once per season', () => {
+    const result = simulatePlayoffOdds(season, remaining, { iterations: 500, seed: 1 });
+    const sum = (key: 'playoff_odds' | 'bye_odds' | 'championship_odds') =>
+      result.odds.reduce((total, team) => total + team[key], 0);
+
+    expect(result).toMatchObject({ playoff_teams: 3, byes: 1, remaining_weeks: [3, 4] });
+    expect(sum('playoff_odds')).toBeCloseTo(3);
+    expect(sum('bye_odds')).toBeCloseTo(1);
+    expect(sum('championship_odds')).toBeCloseTo(1);
+  });
+
+  it('should favor the strongest team', () => {
+    const result = simulatePlayoffOdds(season, remaining, { iterations: 1000, seed: 3 });
+
+    expect(result.odds[0]).toMatchObject({ roster_id: 1, wins: 2, losses: 0 });
+    expect(result.odds[0].playoff_odds).toBeGreaterThan(0.95);
+    expect(result.odds[0].projected_wins).toBeGreaterThan(3);
+    expect(result.odds.find((team) => team.roster_id === 4)?.championship_odds).toBeLessThan(0.1);
+  });
+
+  it('should settle odds from the final standings once the regular season is over', () => {
+    const result = simulatePlayoffOdds(season, [], { iterations: 200, seed: 1 });
+    const byRoster = new Map(result.odds.map((team) => [team.roster_id, team]));
+
+    expect(byRoster.get(1)).toMatchObject({ playoff_odds: 1, bye_odds: 1, average_finish: 1 });
+    expect(byRoster.get(4)).toMatchObject({ playoff_odds: 0, championship_odds: 0 });
+  });
+});
@@ -0,0 +1,258 @@
+import { LeagueSeason, WeekResults, matchupPoints, playoffRoundWeeks, teamName } from './season';
+import { computeStandings } from './standings';
+import { RandomSource, normalSample, seededRandom } from '../utils/random';
+
+export interface PlayoffOddsOptions {
+  iterations: number;
+  seed: number;
+}
+
+export interface PlayoffOddsEntry {
+  roster_id: number;
+  owner_id: string;
+  team_name: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  projected_wins: number;
+  average_finish: number;
+  playoff_odds: number;
+  bye_odds: number;
+  championship_odds: number;
+}
+
+export interface PlayoffOddsResult {
+  iterations: number;
+  seed: number;
+  remaining_weeks: number[];
+  playoff_teams: number;
+  byes: number;
+  odds: PlayoffOddsEntry[];
+}
+
+interface ScoringDistribution {
+  mean: number;
+  stdDev: number;
+}
+
+interface Seeded {
+  rosterId: number;
+  seed: number;
+}
+
+// Used before any week has been scored
+const DEFAULT_DISTRIBUTION: ScoringDistribution = { mean: 100, stdDev: 25 };
+// Games of league-average scoring blended into every team's distribution,
+// so a hot or cold start is regressed toward the league
+const PRIOR_GAMES = 3;
+
+function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) {
+    size *= 2;
+  }
+  return size;
+}
+
+/**
+ * Standard bracket slot order, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+  return order;
+}
+
+/**
+ * Per-team normal scoring distributions from completed weeks
+ */
+function scoringDistributions(season: LeagueSeason): Map<number, ScoringDistribution> {
+  const scores = new Map<number, number[]>();
+  season.rosters.forEach((roster) => scores.set(roster.roster_id, []));
+  for (const { matchups } of season.weeks) {
+    for (const matchup of matchups) {
+      scores.set(matchup.roster_id, [
+        ...(scores.get(matchup.roster_id) || []),
+        matchupPoints(matchup),
+      ]);
+    }
+  }
+
+  const all = [...scores.values()].flat();
+  let league = DEFAULT_DISTRIBUTION;
+  if (all.length > 1) {
+    const mean = all.reduce((sum, points) => sum + points, 0) / all.length;
+    const variance = all.reduce((sum, points) => sum + (points - mean) ** 2, 0) / all.length;
+    league = { mean, stdDev: Math.sqrt(variance) };
+  }
+
+  const distributions = new Map<number, ScoringDistribution>();
+  for (const [rosterId, points] of scores) {
+    const weight = points.length + PRIOR_GAMES;
+    const mean = (points.reduce((sum, p) => sum + p, 0) + PRIOR_GAMES * league.mean) / weight;
+    const squaredDeviation = points.reduce((sum, p) => sum + (p - mean) ** 2, 0);
+    distributions.set(rosterId, {
+      mean,
+      stdDev: Math.sqrt((squaredDeviation + PRIOR_GAMES * league.stdDev ** 2) / weight),
+    });
+  }
+  return distributions;
+}
+
+function sampleScore(
+  random: RandomSource,
+  distributions: Map<number, ScoringDistribution>,
+  rosterId: number,
+  weeks = 1
+): number {
+  const { mean, stdDev } = distributions.get(rosterId) ?? DEFAULT_DISTRIBUTION;
+  let total = 0;
+  for (let i = 0; i < weeks; i++) {
+    total += Math.max(0, normalSample(random, mean, stdDev));
+  }
+  return total;
+}
+
+/**
+ * Play out the winners bracket and return the champion's roster_id.
+ * Rounds played over two weeks (see playoffRoundWeeks) sum both scores.
+ * playoff_seed_type 1 re-seeds after every round so the best seed meets the worst.
+ */
+function simulateBracket(
+  seeds: Seeded[],
+  season: LeagueSeason,
+  distributions: Map<number, ScoringDistribution>,
+  random: RandomSource
+): number | null {
+  if (seeds.length === 0) {
+    return null;
+  }
+
+  const seedType = season.league.settings?.playoff_seed_type ?? 0;
+  const size = nextPowerOfTwo(seeds.length);
+  const totalRounds = Math.log2(size);
+  let slots: Array<Seeded | null> = bracketOrder(size).map((seed) => seeds[seed - 1] ?? null);
+
+  for (let round = 1; slots.length > 1; round++) {
+    const weeks = playoffRoundWeeks(season.league, round, totalRounds).length;
+    const winners: Array<Seeded | null> = [];
+
+    for (let i = 0; i < slots.length; i += 2) {
+      const [a, b] = [slots[i], slots[i + 1]];
+      if (!a || !b) {
+        winners.push(a || b);
+        continue;
+      }
+      const aPoints = sampleScore(random, distributions, a.rosterId, weeks);
+      const bPoints = sampleScore(random, distributions, b.rosterId, weeks);
+      // Ties go to the higher seed
+      winners.push(aPoints > bPoints || (aPoints === bPoints && a.seed < b.seed) ? a : b);
+    }
+
+    slots = winners;
+    if (seedType === 1 && slots.length > 1) {
+      const remaining = (slots.filter(Boolean) as Seeded[]).sort((a, b) => a.seed - b.seed);
+      slots = bracketOrder(slots.length).map((index) => remaining[index - 1] ?? null);
+    }
+  }
+
+  return slots[0]?.rosterId ?? null;
+}
+
+/**
+ * Monte Carlo playoff odds: simulate the remaining regular season from each
+ * team's scoring distribution, seed with the league's standings rules and play
+ * out the bracket. Results are reproducible for a given seed.
+ */
+export function simulatePlayoffOdds(
+  season: LeagueSeason,
+  remaining: WeekResults[],
+  options: PlayoffOddsOptions
+): PlayoffOddsResult {
+  const random = seededRandom(options.seed);
+  const distributions = scoringDistributions(season);
+  const playoffTeams = Math.min(season.league.settings?.playoff_teams || 0, season.rosters.length);
+  const byes = playoffTeams > 0 ? nextPowerOfTwo(playoffTeams) - playoffTeams : 0;
+
+  const emptyTotals = () => ({ wins: 0, finish: 0, playoffs: 0, byes: 0, titles: 0 });
+  const totals = new Map(season.rosters.map((roster) => [roster.roster_id, emptyTotals()]));
+
+  for (let i = 0; i < options.iterations; i++) {
+    const simulatedWeeks = remaining.map(({ week, matchups }) => ({
+      week,
+      matchups: matchups.map((matchup) => ({
+        ...matchup,
+        points: sampleScore(random, distributions, matchup.roster_id),
+        custom_points: null,
+      })),
+    }));
+    const standings = computeStandings({
+      ...season,
+      weeks: [...season.weeks, ...simulatedWeeks],
+    });
+
+    const seeds: Seeded[] = [];
+    for (const team of standings) {
+      const total = totals.get(team.roster_id);
+      if (!total) {
+        continue;
+      }
+      total.wins += team.wins;
+      total.finish += team.rank;
+      if (team.playoff_seed !== null) {
+        seeds[team.playoff_seed - 1] = { rosterId: team.roster_id, seed: team.playoff_seed };
+        total.playoffs++;
+        if (team.playoff_seed <= byes) {
+          total.byes++;
+        }
+      }
+    }
+
+    const champion = simulateBracket(seeds, season, distributions, random);
+    if (champion !== null) {
+      const total = totals.get(champion);
+      if (total) {
+        total.titles++;
+      }
+    }
+  }
+
+  const current = new Map(computeStandings(season).map((team) => [team.roster_id, team]));
+  const per = (count: number, digits = 4) =>
+    Math.round((count / options.iterations) * 10 ** digits) / 10 ** digits;
+
+  const odds = season.rosters.map((roster) => {
+    const total = totals.get(roster.roster_id) ?? emptyTotals();
+    const standing = current.get(roster.roster_id);
+    return {
+      roster_id: roster.roster_id,
+      owner_id: roster.owner_id,
+      team_name: teamName(roster, season.users),
+      wins: standing?.wins ?? 0,
+      losses: standing?.losses ?? 0,
+      ties: standing?.ties ?? 0,
+      projected_wins: per(total.wins, 2),
+      average_finish: per(total.finish, 2),
+      playoff_odds: per(total.playoffs),
+      bye_odds: per(total.byes),
+      championship_odds: per(total.titles),
+    };
+  });
+
+  return {
+    iterations: options.iterations,
+    seed: options.seed,
+    remaining_weeks: remaining.map((results) => results.week),
+    playoff_teams: playoffTeams,
+    byes,
+    odds: odds.sort(
+      (a, b) =>
+        b.championship_odds - a.championship_odds ||
+        b.playoff_odds - a.playoff_odds ||
+        a.average_finish - b.average_finish
+    ),
+  };
+}
@@ -0,0 +1,150 @@
+import { RivalrySeason, buildRivalry } from './rivalry';
+import {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperPlayoffMatchup,
+  SleeperRoster,
+  SleeperTransaction,
+} from '../types/sleeper';
+
+function matchup(rosterId: number, matchupId: number, points: number): SleeperMatchup {
+  return { roster_id: rosterId, matchup_id: matchupId, points, starters: [], players: [] };
+}
+
+function roster(rosterId: number, owner: string, coOwners: string[] = []): SleeperRoster {
+  return { roster_id: rosterId, owner_id: owner, co_owners: coOwners } as unknown as SleeperRoster;
+}
+
+function rivalrySeason(
+  season: string,
+  rosters: SleeperRoster[],
+  weeks: Array<{ week: number; matchups: SleeperMatchup[] }>,
+  options: Partial<Pick<RivalrySeason, 'winnersBracket' | 'playoffWeeks' | 'transactions'>> = {}
+): RivalrySeason {
+  return {
+    season: {
+      league: {
+        league_id: `L${season}`,
+        season,
+        status: 'complete',
+        settings: { playoff_week_start: 15 },
+      } as unknown as SleeperLeague,
+      rosters,
+      users: [
+        { user_id: 'uA', username: 'a', display_name: 'Alpha', avatar: null },
+        { user_id: 'uB', username: 'b', display_name: 'Bravo', avatar: null },
+      ],
+      weeks,
+    },
+    winnersBracket: options.winnersBracket || [],
+    playoffWeeks: options.playoffWeeks || [],
+    transactions: options.transactions || [],
+  };
+}
+
+function trade(
+  id: string,
+  rosterIds: number[],
+  fields: Partial<SleeperTransaction> = {}
+): SleeperTransaction {
+  return {
+    type: 'trade',
+    status: 'complete',
+    transaction_id: id,
+    roster_ids: rosterIds,
+    created: 500,
+    leg: 5,
+    adds: null,
+    draft_picks: [],
+    ...fields,
+  } as unknown as SleeperTransaction;
+}
+
+const bracket: SleeperPlayoffMatchup[] = [
+  { r: 1, m: 1, t1: 1, t2: 3, w: 1, l: 3 },
+  { r: 1, m: 2, t1: 2, t2: 4, w: 2, l: 4 },
+  { r: 2, m: 3, t1: 1, t2: 2, w: 2, l: 1, p: 1 },
+  // Not played yet
+  { r: 2, m: 4, t1: 3, t2: 4, p: 3 } as SleeperPlayoffMatchup,
+];
+
+const seasons = [
+  // Newest first, as loadRivalrySeasons returns them; uA co-owns roster 3 in 2024
+  rivalrySeason(
+    '2024',
+    [roster(1, 'uB'), roster(3, 'uX', ['uA'])],
+    [{ week: 1, matchups: [matchup(3, 1, 130), matchup(1, 1, 100)] }]
+  ),
+  rivalrySeason(
+    '2023',
+    [roster(1, 'uA'), roster(2, 'uB'), roster(3, 'uC'), roster(4, 'uD')],
+    [
+      { week: 1, matchups: [matchup(1, 1, 100), matchup(2, 1, 90)] },
+      { week: 2, matchups: [matchup(1, 1, 100), matchup(3, 1, 50), matchup(2, 2, 70)] },
+      { week: 3, matchups: [matchup(1, 1, 80), matchup(2, 1, 120)] },
+    ],
+    {
+      winnersBracket: bracket,
+      playoffWeeks: [
+        { week: 15, matchups: [matchup(1, 1, 140), matchup(2, 2, 95)] },
+        { week: 16, matchups: [matchup(1, 1, 110), matchup(2, 1, 111)] },
+      ],
+      transactions: [
+        trade('t1', [1, 2], {
+          adds: { p1: 2, p2: 1 },
+          draft_picks: [
+            { season: '2024', round: 1, roster_id: 1, previous_owner_id: 1, owner_id: 2 },
+          ],
+          waiver_budget: [{ sender: 2, receiver: 1, amount: 10 }],
+        }),
+        trade('t2', [1, 2], { status: 'failed' }),
+        trade('t3', [1, 3], { adds: { p3: 1 } }),
+      ],
+    }
+  ),
+];
+
+describe('rivalry', () => {
+  it('should list regular season and playoff meetings oldest first', () => {
+    const rivalry = buildRivalry(seasons, 'uA', 'uB');
+
+    expect(rivalry.seasons).toEqual(['2023', '2024']);
+    expect(
+      rivalry.meetings.map((m) => [m.season, m.week, m.type, m.points_a, m.points_b, m.winner_id])
+    ).toEqual([
+      ['2023', 1, 'regular', 100, 90, 'uA'],
+      ['2023', 3, 'regular', 80, 120, 'uB'],
+      ['2023', 16, 'playoff', 110, 111, 'uB'],
+      ['2024', 1, 'regular', 130, 100, 'uA'],
+    ]);
+    expect(rivalry.meetings[2].playoff_round).toBe(2);
+  });
+
+  it('should summarize records, streaks and extremes', () => {
+    const rivalry = buildRivalry(seasons, 'uA', 'uB');
+
+    expect(rivalry.user_a.display_name).toBe('Alpha');
+    expect(rivalry.all_time).toMatchObject({ meetings: 4, a_wins: 2, b_wins: 2, ties: 0 });
+    expect(rivalry.regular_season).toMatchObject({ a_wins: 2, b_wins: 1, a_points: 310 });
+    expect(rivalry.playoffs).toMatchObject({ meetings: 1, b_wins: 1, average_margin: 1 });
+    expect(rivalry.current_streak).toEqual({ user_id: 'uA', length: 1 });
+    expect(rivalry.longest_streak_a).toBe(1);
+    expect(rivalry.longest_streak_b).toBe(2);
+    expect(rivalry.biggest_blowout).toMatchObject({ season: '2023', week: 3, margin: 40 });
+    expect(rivalry.closest_game).toMatchObject({ type: 'playoff', margin: 1 });
+  });
+
+  it('should include completed trades between the two managers', () => {
+    const { trades } = buildRivalry(seasons, 'uA', 'uB');
+
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({
+      season: '2023',
+      transaction_id: 't1',
+      week: 5,
+      a_received: { players: ['p2'], picks: [], faab: 10 },
+      b_received: { players: ['p1'], faab: 0 },
+    });
+    expect(trades[0].b_received.picks).toHaveLength(1);
+  });
+});
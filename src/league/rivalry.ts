@@ -0,0 +1,311 @@
+import { HistoricalSeason, loadLeagueHistory } from './history';
+import { WeekResults, loadTransactions, matchupPoints, playoffRoundWeeks } from './season';
+import { sleeperAPI } from '../api/client';
+import {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperRoster,
+  SleeperTradedDraftPick,
+  SleeperTransaction,
+} from '../types/sleeper';
+
+export interface RivalrySeason extends HistoricalSeason {
+  playoffWeeks: WeekResults[];
+  transactions: SleeperTransaction[];
+}
+
+export interface RivalryMeeting {
+  season: string;
+  // First week of the meeting; two-week playoff rounds list both in weeks
+  week: number;
+  weeks: number[];
+  type: 'regular' | 'playoff';
+  playoff_round: number | null;
+  points_a: number;
+  points_b: number;
+  winner_id: string | null;
+  margin: number;
+}
+
+export interface RivalryRecord {
+  meetings: number;
+  a_wins: number;
+  b_wins: number;
+  ties: number;
+  a_points: number;
+  b_points: number;
+  average_margin: number;
+}
+
+export interface TradeAssets {
+  players: string[];
+  picks: SleeperTradedDraftPick[];
+  faab: number;
+}
+
+export interface RivalryTrade {
+  season: string;
+  transaction_id: string;
+  created: number;
+  week: number;
+  a_received: TradeAssets;
+  b_received: TradeAssets;
+}
+
+export interface RivalryStreak {
+  user_id: string;
+  length: number;
+}
+
+export interface Rivalry {
+  user_a: { user_id: string; display_name: string };
+  user_b: { user_id: string; display_name: string };
+  seasons: string[];
+  all_time: RivalryRecord;
+  regular_season: RivalryRecord;
+  playoffs: RivalryRecord;
+  current_streak: RivalryStreak | null;
+  longest_streak_a: number;
+  longest_streak_b: number;
+  biggest_blowout: RivalryMeeting | null;
+  closest_game: RivalryMeeting | null;
+  meetings: RivalryMeeting[];
+  trades: RivalryTrade[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function bracketRounds(season: HistoricalSeason): number {
+  return Math.max(0, ...season.winnersBracket.map((game) => game.r));
+}
+
+/**
+ * A league's seasons (see loadLeagueHistory) with the matchups of every
+ * playoff week and all transactions of each season
+ */
+export async function loadRivalrySeasons(leagueId: string): Promise<RivalrySeason[]> {
+  const history = await loadLeagueHistory(leagueId);
+
+  return Promise.all(
+    history.map(async (entry) => {
+      const { league } = entry.season;
+      const totalRounds = bracketRounds(entry);
+      const weekNumbers = [
+        ...new Set(
+          Array.from({ length: totalRounds }, (_, i) =>
+            playoffRoundWeeks(league, i + 1, totalRounds)
+          ).flat()
+        ),
+      ];
+
+      const [playoffWeeks, transactions] = await Promise.all([
+        Promise.all(
+          weekNumbers.map(async (week) => ({
+            week,
+            matchups:
+              ((await sleeperAPI.getMatchups(league.league_id, week)) as SleeperMatchup[] | null) ||
+              [],
+          }))
+        ),
+        loadTransactions(league.league_id),
+      ]);
+      return { ...entry, playoffWeeks, transactions };
+    })
+  );
+}
+
+function ownedBy(roster: SleeperRoster, userId: string): boolean {
+  return roster.owner_id === userId || (roster.co_owners || []).includes(userId);
+}
+
+function summarize(meetings: RivalryMeeting[], userA: string, userB: string): RivalryRecord {
+  const aPoints = meetings.reduce((sum, meeting) => sum + meeting.points_a, 0);
+  const bPoints = meetings.reduce((sum, meeting) => sum + meeting.points_b, 0);
+  return {
+    meetings: meetings.length,
+    a_wins: meetings.filter((meeting) => meeting.winner_id === userA).length,
+    b_wins: meetings.filter((meeting) => meeting.winner_id === userB).length,
+    ties: meetings.filter((meeting) => meeting.winner_id === null).length,
+    a_points: round(aPoints),
+    b_points: round(bPoints),
+    average_margin: meetings.length
+      ? round(meetings.reduce((sum, meeting) => sum + meeting.margin, 0) / meetings.length)
+      : 0,
+  };
+}
+
+function meeting(
+  league: SleeperLeague,
+  weeks: number[],
+  type: RivalryMeeting['type'],
+  playoffRound: number | null,
+  points: [number, number],
+  winnerId: string | null
+): RivalryMeeting {
+  return {
+    season: league.season,
+    week: weeks[0],
+    weeks,
+    type,
+    playoff_round: playoffRound,
+    points_a: round(points[0]),
+    points_b: round(points[1]),
+    winner_id: winnerId,
+    margin: round(Math.abs(points[0] - points[1])),
+  };
+}
+
+function assetsReceived(trade: SleeperTransaction, rosterId: number): TradeAssets {
+  return {
+    players: Object.entries(trade.adds || {})
+      .filter(([, receiver]) => receiver === rosterId)
+      .map(([playerId]) => playerId),
+    picks: (trade.draft_picks || []).filter((pick) => pick.owner_id === rosterId),
+    faab: (trade.waiver_budget || [])
+      .filter((transfer) => transfer.receiver === rosterId)
+      .reduce((sum, transfer) => sum + transfer.amount, 0),
+  };
+}
+
+/**
+ * Every meeting between two users across a league's seasons, oldest first:
+ * regular season matchups and winners bracket games (scored over all of the
+ * round's weeks, with the bracket deciding the winner), plus the trades
+ * between them. Users are matched as owners or co-owners of a roster.
+ */
+export function buildRivalry(seasons: RivalrySeason[], userA: string, userB: string): Rivalry {
+  const chronological = [...seasons].sort((a, b) =>
+    a.season.league.season.localeCompare(b.season.league.season)
+  );
+  const meetings: RivalryMeeting[] = [];
+  const trades: RivalryTrade[] = [];
+  const played: string[] = [];
+
+  for (const entry of chronological) {
+    const { league, rosters } = entry.season;
+    const rosterA = rosters.find((roster) => ownedBy(roster, userA));
+    const rosterB = rosters.find((roster) => ownedBy(roster, userB));
+    if (!rosterA || !rosterB || rosterA.roster_id === rosterB.roster_id) {
+      continue;
+    }
+    played.push(league.season);
+    const a = rosterA.roster_id;
+    const b = rosterB.roster_id;
+
+    for (const { week, matchups } of entry.season.weeks) {
+      const entryA = matchups.find((m) => m.roster_id === a);
+      const entryB = matchups.find((m) => m.roster_id === b);
+      if (
+        !entryA ||
+        !entryB ||
+        entryA.matchup_id === null ||
+        entryA.matchup_id === undefined ||
+        entryA.matchup_id !== entryB.matchup_id
+      ) {
+        continue;
+      }
+      const points: [number, number] = [matchupPoints(entryA), matchupPoints(entryB)];
+      const winner = points[0] > points[1] ? userA : points[1] > points[0] ? userB : null;
+      meetings.push(meeting(league, [week], 'regular', null, points, winner));
+    }
+
+    const totalRounds = bracketRounds(entry);
+    for (const game of entry.winnersBracket) {
+      const pairing = (game.t1 === a && game.t2 === b) || (game.t1 === b && game.t2 === a);
+      // Games without a winner have not been played yet
+      if (!pairing || !game.w) {
+        continue;
+      }
+      const weeks = playoffRoundWeeks(league, game.r, totalRounds);
+      const scored = (rosterId: number) =>
+        entry.playoffWeeks
+          .filter((results) => weeks.includes(results.week))
+          .flatMap((results) => results.matchups)
+          .filter((m) => m.roster_id === rosterId)
+          .reduce((sum, m) => sum + matchupPoints(m), 0);
+      const winner = game.w === a ? userA : userB;
+      meetings.push(meeting(league, weeks, 'playoff', game.r, [scored(a), scored(b)], winner));
+    }
+
+    for (const trade of entry.transactions) {
+      if (
+        trade.type !== 'trade' ||
+        trade.status !== 'complete' ||
+        !trade.roster_ids.includes(a) ||
+        !trade.roster_ids.includes(b)
+      ) {
+        continue;
+      }
+      trades.push({
+        season: league.season,
+        transaction_id: trade.transaction_id,
+        created: trade.created,
+        week: trade.leg,
+        a_received: assetsReceived(trade, a),
+        b_received: assetsReceived(trade, b),
+      });
+    }
+  }
+
+  meetings.sort((x, y) => x.season.localeCompare(y.season) || x.week - y.week);
+  trades.sort((x, y) => x.created - y.created);
+
+  // Streaks of consecutive wins; a tie ends any streak
+  let streakUser: string | null = null;
+  let streakLength = 0;
+  let longestA = 0;
+  let longestB = 0;
+  for (const { winner_id: winnerId } of meetings) {
+    streakLength = winnerId !== null && winnerId === streakUser ? streakLength + 1 : 1;
+    streakUser = winnerId;
+    if (winnerId === userA) {
+      longestA = Math.max(longestA, streakLength);
+    } else if (winnerId === userB) {
+      longestB = Math.max(longestB, streakLength);
+    }
+  }
+
+  // Display names from the most recent season that has the user
+  const displayName = (userId: string) => {
+    for (const entry of [...chronological].reverse()) {
+      const user = entry.season.users.find((u) => u.user_id === userId);
+      if (user) {
+        return user.display_name;
+      }
+    }
+    return userId;
+  };
+  const decided = meetings.filter((m) => m.winner_id !== null);
+
+  return {
+    user_a: { user_id: userA, display_name: displayName(userA) },
+    user_b: { user_id: userB, display_name: displayName(userB) },
+    seasons: played,
+    all_time: summarize(meetings, userA, userB),
+    regular_season: summarize(
+      meetings.filter((m) => m.type === 'regular'),
+      userA,
+      userB
+    ),
+    playoffs: summarize(
+      meetings.filter((m) => m.type === 'playoff'),
+      userA,
+      userB
+    ),
+    current_streak: streakUser === null ? null : { user_id: streakUser, length: streakLength },
+    longest_streak_a: longestA,
+    longest_streak_b: longestB,
+    biggest_blowout: decided.reduce<RivalryMeeting | null>(
+      (top, m) => (top === null || m.margin > top.margin ? m : top),
+      null
+    ),
+    closest_game: decided.reduce<RivalryMeeting | null>(
+      (top, m) => (top === null || m.margin < top.margin ? m : top),
+      null
+    ),
+    meetings,
+    trades,
+  };
+}
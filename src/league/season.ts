@@ -0,0 +1,180 @@
+import { sleeperAPI } from '../api/client';
+import { NotFoundError } from '../utils/errors';
+import {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperNFLState,
+  SleeperRoster,
+  SleeperTransaction,
+  SleeperUser,
+} from '../types/sleeper';
+
+export interface WeekResults {
+  week: number;
+  matchups: SleeperMatchup[];
+}
+
+export interface LeagueSeason {
+  league: SleeperLeague;
+  rosters: SleeperRoster[];
+  users: SleeperUser[];
+  weeks: WeekResults[];
+}
+
+const FINAL_NFL_WEEK = 18;
+
+/**
+ * Last week of the league's regular season (the week before playoffs start)
+ */
+export function regularSeasonEnd(league: SleeperLeague): number {
+  const playoffStart = league.settings?.playoff_week_start;
+  return playoffStart ? Math.min(playoffStart - 1, FINAL_NFL_WEEK) : FINAL_NFL_WEEK;
+}
+
+/**
+ * NFL weeks a playoff round is played over.
+ * playoff_round_type: 0 = one week per round, 1 = two-week final, 2 = two weeks per round.
+ */
+export function playoffRoundWeeks(
+  league: SleeperLeague,
+  round: number,
+  totalRounds: number
+): number[] {
+  const start = league.settings?.playoff_week_start || regularSeasonEnd(league) + 1;
+  const roundType = league.settings?.playoff_round_type ?? 0;
+  const offset = roundType === 2 ? 2 * (round - 1) : round - 1;
+  const length = roundType === 2 || (roundType === 1 && round === totalRounds) ? 2 : 1;
+  return Array.from({ length }, (_, i) => start + offset + i);
+}
+
+/**
+ * Regular season weeks whose scores are final, in order.
+ * Sleeper's last_scored_leg is authoritative; the NFL state is only used as a
+ * fallback for leagues that have not recorded it yet.
+ */
+export function completedWeeks(league: SleeperLeague, state: SleeperNFLState | null): number[] {
+  const start = league.settings?.start_week || 1;
+  const end = regularSeasonEnd(league);
+
+  let last: number;
+  if (league.status === 'complete' || (state && league.season < state.season)) {
+    last = end;
+  } else if (league.settings?.last_scored_leg) {
+    last = league.settings.last_scored_leg;
+  } else if (state && state.season === league.season && state.season_type !== 'pre') {
+    last = state.season_type === 'post' ? end : state.week - 1;
+  } else {
+    last = 0;
+  }
+
+  const weeks: number[] = [];
+  for (let week = start; week <= Math.min(last, end); week++) {
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+/**
+ * Load a league with its rosters, users and the matchups of every completed
+ * regular season week (optionally only up to throughWeek).
+ */
+export async function loadLeagueSeason(
+  leagueId: string,
+  throughWeek?: number
+): Promise<LeagueSeason> {
+  const [league, rosters, users, state] = (await Promise.all([
+    sleeperAPI.getLeague(leagueId),
+    sleeperAPI.getRosters(leagueId),
+    sleeperAPI.getUsers(leagueId),
+    sleeperAPI.getNFLState(),
+  ])) as [SleeperLeague | null, SleeperRoster[] | null, SleeperUser[] | null, SleeperNFLState];
+
+  if (!league) {
+    throw new NotFoundError(`League ${leagueId}`);
+  }
+
+  const weekNumbers = completedWeeks(league, state).filter(
+    (week) => throughWeek === undefined || week <= throughWeek
+  );
+  const weeks = await Promise.all(
+    weekNumbers.map(async (week) => ({
+      week,
+      matchups: ((await sleeperAPI.getMatchups(leagueId, week)) as SleeperMatchup[] | null) || [],
+    }))
+  );
+
+  return {
+    league,
+    rosters: rosters || [],
+    users: users || [],
+    weeks: weeks.filter((results) => results.matchups.length > 0),
+  };
+}
+
+/**
+ * Points a matchup entry scored, honoring commissioner overrides
+ */
+export function matchupPoints(matchup: SleeperMatchup): number {
+  return matchup.custom_points ?? matchup.points ?? 0;
+}
+
+/**
+ * Display name for a roster: the owner's team name, then display name
+ */
+export function teamName(roster: SleeperRoster, users: SleeperUser[]): string {
+  const owner = users.find((user) => user.user_id === roster.owner_id);
+  return owner?.metadata?.team_name || owner?.display_name || `Team ${roster.roster_id}`;
+}
+
+/**
+ * Scheduled regular season matchups after the last loaded week. Sleeper
+ * publishes the full schedule up front, so future weeks already have matchup_ids.
+ */
+export async function loadRemainingSchedule(season: LeagueSeason): Promise<WeekResults[]> {
+  const { league } = season;
+  const lastLoaded =
+    season.weeks.length > 0
+      ? season.weeks[season.weeks.length - 1].week
+      : (league.settings?.start_week || 1) - 1;
+
+  const weekNumbers: number[] = [];
+  for (let week = lastLoaded + 1; week <= regularSeasonEnd(league); week++) {
+    weekNumbers.push(week);
+  }
+
+  const weeks = await Promise.all(
+    weekNumbers.map(async (week) => {
+      const matchups =
+        ((await sleeperAPI.getMatchups(league.league_id, week)) as SleeperMatchup[] | null) || [];
+      return {
+        week,
+        matchups: matchups.filter(
+          (matchup) => matchup.matchup_id !== null && matchup.matchup_id !== undefined
+        ),
+      };
+    })
+  );
+
+  return weeks.filter((results) => results.matchups.length > 0);
+}
+
+/**
+ * Every week of the NFL regular season
+ */
+export function nflRegularSeasonWeeks(): number[] {
+  return Array.from({ length: FINAL_NFL_WEEK }, (_, i) => i + 1);
+}
+
+/**
+ * Every transaction recorded in a league, across all of its legs. Sleeper
+ * files transactions under regular-season weeks, offseason moves under leg 1.
+ */
+export async function loadTransactions(leagueId: string): Promise<SleeperTransaction[]> {
+  const transactions = await Promise.all(
+    nflRegularSeasonWeeks().map(
+      async (leg) =>
+        ((await sleeperAPI.getTransactions(leagueId, leg)) as SleeperTransaction[] | null) || []
+    )
+  );
+  return transactions.flat();
+}
@@ -0,0 +1,158 @@
+import { computePowerRankings, computeStandings } from './standings';
+import { LeagueSeason, completedWeeks } from './season';
+import { SleeperLeague, SleeperMatchup, SleeperNFLState, SleeperRoster } from '../types/sleeper';
+
+function matchup(rosterId: number, matchupId: number, points: number): SleeperMatchup {
+  return { roster_id: rosterId, matchup_id: matchupId, points, starters: [], players: [] };
+}
+
+function buildSeason(
+  settings: Record<string, number> = {},
+  divisions: number[] = []
+): LeagueSeason {
+  return {
+    league: {
+      league_id: 'L1',
+      season: '2024',
+      status: 'in_season',
+      settings: { playoff_teams: 2, ...settings },
+      metadata: { division_1: 'North', division_2: 'South' },
+    } as unknown as SleeperLeague,
+    rosters: [1, 2, 3, 4].map(
+      (rosterId) =>
+        ({
+          roster_id: rosterId,
+          owner_id: `u${rosterId}`,
+          settings: { division: divisions[rosterId - 1] },
+        }) as unknown as SleeperRoster
+    ),
+    users: [
+      { user_id: 'u1', username: 'one', display_name: 'One', avatar: null },
+      {
+        user_id: 'u2',
+        username: 'two',
+        display_name: 'Two',
+        avatar: null,
+        metadata: { team_name: 'Team Two' },
+      },
+    ],
+    weeks: [
+      {
+        week: 1,
+        matchups: [matchup(1, 1, 120), matchup(2, 1, 100), matchup(3, 2, 90), matchup(4, 2, 110)],
+      },
+      {
+        week: 2,
+        matchups: [matchup(1, 1, 80), matchup(3, 1, 95), matchup(2, 2, 130), matchup(4, 2, 105)],
+      },
+      {
+        week: 3,
+        matchups: [matchup(1, 1, 140), matchup(4, 1, 100), matchup(2, 2, 90), matchup(3, 2, 100)],
+      },
+    ],
+  };
+}
+
+describe('league standings', () => {
+  it('should compute records and break ties on points for before head-to-head', () => {
+    const standings = computeStandings(buildSeason());
+
+    // 1 and 3 are both 2-1; 3 won their game but 1 scored more (340 vs 285)
+    expect(standings.map((team) => team.roster_id)).toEqual([1, 3, 2, 4]);
+    expect(standings[0]).toMatchObject({
+      rank: 1,
+      team_name: 'One',
+      wins: 2,
+      losses: 1,
+      ties: 0,
+      win_pct: 0.67,
+      points_for: 340,
+      points_against: 295,
+      streak: 'W1',
+      playoff_seed: 1,
+      division: null,
+    });
+    expect(standings[1]).toMatchObject({ roster_id: 3, playoff_seed: 2 });
+    expect(standings[2].team_name).toBe('Team Two');
+    expect(standings[3]).toMatchObject({ streak: 'L2', playoff_seed: null });
+  });
+
+  it('should fall back to head-to-head when tied teams also scored the same', () => {
+    const season = buildSeason();
+    season.weeks[0].matchups[0] = matchup(1, 1, 100);
+    season.weeks[0].matchups[1] = matchup(2, 1, 120);
+    season.weeks[1].matchups[2] = matchup(2, 2, 100);
+    season.weeks[2].matchups[2] = matchup(2, 2, 100);
+    season.weeks[2].matchups[3] = matchup(3, 2, 110);
+
+    const standings = computeStandings(season);
+
+    // 1 and 2 are both 1-2 with 320 points; 2 won their game
+    expect(standings.map((team) => [team.roster_id, team.points_for])).toEqual([
+      [4, 315],
+      [3, 295],
+      [2, 320],
+      [1, 320],
+    ]);
+  });
+
+  it('should seed division winners first', () => {
+    const standings = computeStandings(buildSeason({ divisions: 2 }, [1, 2, 1, 2]));
+
+    const byRoster = new Map(standings.map((team) => [team.roster_id, team]));
+    expect(byRoster.get(1)).toMatchObject({
+      division_name: 'North',
+      division_rank: 1,
+      playoff_seed: 1,
+    });
+    expect(byRoster.get(2)).toMatchObject({
+      division_name: 'South',
+      division_rank: 1,
+      playoff_seed: 2,
+    });
+    expect(byRoster.get(3)).toMatchObject({ division_rank: 2, playoff_seed: null });
+  });
+
+  it('should add a game against the weekly median when the league plays the median', () => {
+    const standings = computeStandings(buildSeason({ league_average_match: 1 }));
+
+    expect(standings.find((team) => team.roster_id === 1)).toMatchObject({ wins: 4, losses: 2 });
+  });
+
+  it('should compute all-play, luck and schedule-adjusted power scores', () => {
+    const rankings = computePowerRankings(buildSeason());
+
+    expect(rankings.map((team) => team.roster_id)).toEqual([1, 4, 2, 3]);
+    expect(rankings[0]).toMatchObject({
+      power_score: 63.33,
+      all_play: { wins: 6, losses: 3, ties: 0, win_pct: 0.67 },
+      average_points: 113.33,
+      expected_wins: 2,
+      luck_index: 0,
+      strength_of_schedule: 0.44,
+    });
+    // Won two games while posting the league's lowest scores
+    expect(rankings[3]).toMatchObject({ expected_wins: 0.83, luck_index: 1.17 });
+  });
+});
+
+describe('completedWeeks', () => {
+  const league = (overrides: Partial<SleeperLeague>, settings: Record<string, number> = {}) =>
+    ({
+      season: '2024',
+      status: 'in_season',
+      ...overrides,
+      settings: { start_week: 1, playoff_week_start: 15, ...settings },
+    }) as unknown as SleeperLeague;
+  const state = { season: '2024', season_type: 'regular', week: 6 } as SleeperNFLState;
+
+  it('should stop at the last scored week and exclude the playoffs', () => {
+    expect(completedWeeks(league({}, { last_scored_leg: 4 }), state)).toEqual([1, 2, 3, 4]);
+    expect(completedWeeks(league({ status: 'complete' }), state)).toHaveLength(14);
+    expect(completedWeeks(league({}, { start_week: 3 }), state)).toEqual([3, 4, 5]);
+  });
+
+  it('should return no weeks before the season starts', () => {
+    expect(completedWeeks(league({}), { ...state, season_type: 'pre', week: 0 })).toEqual([]);
+  });
+});
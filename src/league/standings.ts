@@ -0,0 +1,336 @@
+import { LeagueSeason, matchupPoints, teamName } from './season';
+import { SleeperMatchup } from '../types/sleeper';
+
+export interface WinLossRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+export interface StandingsEntry extends WinLossRecord {
+  rank: number;
+  roster_id: number;
+  owner_id: string;
+  team_name: string;
+  division: number | null;
+  division_name: string | null;
+  division_rank: number | null;
+  win_pct: number;
+  points_for: number;
+  points_against: number;
+  streak: string | null;
+  playoff_seed: number | null;
+}
+
+export interface PowerRankingEntry {
+  rank: number;
+  roster_id: number;
+  owner_id: string;
+  team_name: string;
+  power_score: number;
+  record: WinLossRecord;
+  all_play: WinLossRecord & { win_pct: number };
+  points_for: number;
+  average_points: number;
+  expected_wins: number;
+  luck_index: number;
+  strength_of_schedule: number;
+}
+
+interface TeamTally {
+  rosterId: number;
+  record: WinLossRecord;
+  // Head-to-head only, without games against the league median
+  h2h: WinLossRecord;
+  allPlay: WinLossRecord;
+  pointsFor: number;
+  pointsAgainst: number;
+  weeksPlayed: number;
+  expectedWins: number;
+  results: Array<'W' | 'L' | 'T'>;
+  opponents: number[];
+  vs: Map<number, WinLossRecord>;
+}
+
+// Power score weights; schedule strength rewards results against better opponents
+const ALL_PLAY_WEIGHT = 0.6;
+const RECORD_WEIGHT = 0.25;
+const SCHEDULE_WEIGHT = 0.15;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyRecord(): WinLossRecord {
+  return { wins: 0, losses: 0, ties: 0 };
+}
+
+function winPct(record: WinLossRecord): number {
+  const games = record.wins + record.losses + record.ties;
+  return games === 0 ? 0 : (record.wins + record.ties / 2) / games;
+}
+
+function addResult(record: WinLossRecord, points: number, opponentPoints: number): 'W' | 'L' | 'T' {
+  if (points > opponentPoints) {
+    record.wins++;
+    return 'W';
+  }
+  if (points < opponentPoints) {
+    record.losses++;
+    return 'L';
+  }
+  record.ties++;
+  return 'T';
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Replay every completed week: head-to-head, median games (when the league
+ * plays the median) and all-play records.
+ */
+function tallySeason(season: LeagueSeason): Map<number, TeamTally> {
+  const tallies = new Map<number, TeamTally>();
+  const tallyFor = (rosterId: number): TeamTally => {
+    let tally = tallies.get(rosterId);
+    if (!tally) {
+      tally = {
+        rosterId,
+        record: emptyRecord(),
+        h2h: emptyRecord(),
+        allPlay: emptyRecord(),
+        pointsFor: 0,
+        pointsAgainst: 0,
+        weeksPlayed: 0,
+        expectedWins: 0,
+        results: [],
+        opponents: [],
+        vs: new Map(),
+      };
+      tallies.set(rosterId, tally);
+    }
+    return tally;
+  };
+
+  season.rosters.forEach((roster) => tallyFor(roster.roster_id));
+  const playsMedian = season.league.settings?.league_average_match === 1;
+
+  for (const { matchups } of season.weeks) {
+    const scores = matchups.map(matchupPoints);
+    const weekMedian = median(scores);
+
+    const games = new Map<number, SleeperMatchup[]>();
+    for (const matchup of matchups) {
+      if (matchup.matchup_id !== null && matchup.matchup_id !== undefined) {
+        games.set(matchup.matchup_id, [...(games.get(matchup.matchup_id) || []), matchup]);
+      }
+    }
+
+    for (const matchup of matchups) {
+      const tally = tallyFor(matchup.roster_id);
+      const points = matchupPoints(matchup);
+      tally.pointsFor += points;
+      tally.weeksPlayed++;
+
+      const weekAllPlay = emptyRecord();
+      for (const other of matchups) {
+        if (other.roster_id !== matchup.roster_id) {
+          addResult(weekAllPlay, points, matchupPoints(other));
+        }
+      }
+      tally.allPlay.wins += weekAllPlay.wins;
+      tally.allPlay.losses += weekAllPlay.losses;
+      tally.allPlay.ties += weekAllPlay.ties;
+      tally.expectedWins += winPct(weekAllPlay);
+
+      const opponent = (games.get(matchup.matchup_id) || []).find(
+        (other) => other.roster_id !== matchup.roster_id
+      );
+      if (opponent) {
+        const opponentPoints = matchupPoints(opponent);
+        const result = addResult(tally.record, points, opponentPoints);
+        addResult(tally.h2h, points, opponentPoints);
+        tally.pointsAgainst += opponentPoints;
+        tally.results.push(result);
+        tally.opponents.push(opponent.roster_id);
+
+        const vs = tally.vs.get(opponent.roster_id) || emptyRecord();
+        addResult(vs, points, opponentPoints);
+        tally.vs.set(opponent.roster_id, vs);
+      }
+
+      if (playsMedian && matchups.length > 1) {
+        addResult(tally.record, points, weekMedian);
+      }
+    }
+  }
+
+  return tallies;
+}
+
+/**
+ * Win percentage in games among a group of teams tied on record
+ */
+function groupHeadToHead(tally: TeamTally, group: TeamTally[]): number {
+  const record = emptyRecord();
+  for (const other of group) {
+    const vs = tally.vs.get(other.rosterId);
+    if (vs) {
+      record.wins += vs.wins;
+      record.losses += vs.losses;
+      record.ties += vs.ties;
+    }
+  }
+  return winPct(record);
+}
+
+/**
+ * Order teams by win percentage. Teams tied on record are separated by points
+ * for, Sleeper's tiebreaker (the API exposes no setting to change it). Their
+ * head-to-head record against each other only decides teams also level on
+ * points, where Sleeper's own order is undocumented.
+ */
+function rankTallies(teams: TeamTally[]): TeamTally[] {
+  const byRecord = [...teams].sort((a, b) => winPct(b.record) - winPct(a.record));
+  const ranked: TeamTally[] = [];
+
+  for (let i = 0; i < byRecord.length; ) {
+    let j = i + 1;
+    while (j < byRecord.length && winPct(byRecord[j].record) === winPct(byRecord[i].record)) {
+      j++;
+    }
+    const group = byRecord.slice(i, j);
+    ranked.push(
+      ...group.sort(
+        (a, b) =>
+          b.pointsFor - a.pointsFor ||
+          groupHeadToHead(b, group) - groupHeadToHead(a, group) ||
+          a.rosterId - b.rosterId
+      )
+    );
+    i = j;
+  }
+
+  return ranked;
+}
+
+function currentStreak(results: Array<'W' | 'L' | 'T'>): string | null {
+  if (results.length === 0) {
+    return null;
+  }
+  const last = results[results.length - 1];
+  let length = 0;
+  for (let i = results.length - 1; i >= 0 && results[i] === last; i--) {
+    length++;
+  }
+  return `${last}${length}`;
+}
+
+/**
+ * League standings with division ranks and playoff seeds.
+ * With divisions enabled, division winners take the top seeds.
+ */
+export function computeStandings(season: LeagueSeason): StandingsEntry[] {
+  const { league, rosters, users } = season;
+  const tallies = tallySeason(season);
+  const ranked = rankTallies([...tallies.values()]);
+  const rosterById = new Map(rosters.map((roster) => [roster.roster_id, roster]));
+  const hasDivisions = (league.settings?.divisions || 0) > 1;
+  const divisionOf = (rosterId: number): number | null =>
+    hasDivisions ? (rosterById.get(rosterId)?.settings?.division ?? null) : null;
+
+  const divisionRanks = new Map<number, number>();
+  const divisionCounts = new Map<number, number>();
+  for (const tally of ranked) {
+    const division = divisionOf(tally.rosterId);
+    if (division !== null) {
+      const rank = (divisionCounts.get(division) || 0) + 1;
+      divisionCounts.set(division, rank);
+      divisionRanks.set(tally.rosterId, rank);
+    }
+  }
+
+  const seedOrder = hasDivisions
+    ? [
+        ...ranked.filter((tally) => divisionRanks.get(tally.rosterId) === 1),
+        ...ranked.filter((tally) => divisionRanks.get(tally.rosterId) !== 1),
+      ]
+    : ranked;
+  const playoffTeams = league.settings?.playoff_teams || 0;
+
+  return ranked.map((tally, index) => {
+    const roster = rosterById.get(tally.rosterId);
+    const division = divisionOf(tally.rosterId);
+    const seed = seedOrder.indexOf(tally) + 1;
+
+    return {
+      rank: index + 1,
+      roster_id: tally.rosterId,
+      owner_id: roster?.owner_id ?? '',
+      team_name: roster ? teamName(roster, users) : `Team ${tally.rosterId}`,
+      division,
+      division_name:
+        division !== null ? ((league.metadata?.[`division_${division}`] as string) ?? null) : null,
+      division_rank: divisionRanks.get(tally.rosterId) ?? null,
+      ...tally.record,
+      win_pct: round(winPct(tally.record)),
+      points_for: round(tally.pointsFor),
+      points_against: round(tally.pointsAgainst),
+      streak: currentStreak(tally.results),
+      playoff_seed: seed <= playoffTeams ? seed : null,
+    };
+  });
+}
+
+/**
+ * Power rankings from all-play strength, record and strength of schedule.
+ *
+ * - all-play: record had the team played every other team each week
+ * - luck index: head-to-head wins above the all-play expectation
+ * - strength of schedule: mean all-play win percentage of opponents faced
+ */
+export function computePowerRankings(season: LeagueSeason): PowerRankingEntry[] {
+  const { rosters, users } = season;
+  const tallies = tallySeason(season);
+  const rosterById = new Map(rosters.map((roster) => [roster.roster_id, roster]));
+
+  const entries = [...tallies.values()].map((tally) => {
+    const allPlayPct = winPct(tally.allPlay);
+    const schedule =
+      tally.opponents.length === 0
+        ? 0.5
+        : tally.opponents.reduce(
+            (sum, opponent) => sum + winPct(tallies.get(opponent)?.allPlay ?? emptyRecord()),
+            0
+          ) / tally.opponents.length;
+    const roster = rosterById.get(tally.rosterId);
+
+    return {
+      rank: 0,
+      roster_id: tally.rosterId,
+      owner_id: roster?.owner_id ?? '',
+      team_name: roster ? teamName(roster, users) : `Team ${tally.rosterId}`,
+      power_score: round(
+        100 *
+          (ALL_PLAY_WEIGHT * allPlayPct +
+            RECORD_WEIGHT * winPct(tally.record) +
+            SCHEDULE_WEIGHT * schedule)
+      ),
+      record: tally.record,
+      all_play: { ...tally.allPlay, win_pct: round(allPlayPct) },
+      points_for: round(tally.pointsFor),
+      average_points: round(tally.weeksPlayed === 0 ? 0 : tally.pointsFor / tally.weeksPlayed),
+      expected_wins: round(tally.expectedWins),
+      luck_index: round(tally.h2h.wins + tally.h2h.ties / 2 - tally.expectedWins),
+      strength_of_schedule: round(schedule),
+    };
+  });
+
+  return entries
+    .sort((a, b) => b.power_score - a.power_score || b.points_for - a.points_for)
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
@@ -0,0 +1,123 @@
+import { DraftPickRef, evaluateTrade } from './trade';
+import { PlayerProjection } from '../scoring/projections';
+import { SleeperLeague, SleeperRoster } from '../types/sleeper';
+
+describe('evaluateTrade', () => {
+  const league = {
+    league_id: 'L1',
+    roster_positions: ['QB', 'RB', 'WR', 'TE', 'FLEX', 'BN', 'BN'],
+  } as unknown as SleeperLeague;
+
+  const projection = (player_id: string, position: string, points: number): PlayerProjection => ({
+    player_id,
+    player_name: player_id,
+    position,
+    positions: [position],
+    team: null,
+    points_per_week: points,
+    source: 'recent_stats',
+  });
+  const projections = new Map(
+    [
+      projection('qbA', 'QB', 20),
+      projection('rbA1', 'RB', 16),
+      projection('rbA2', 'RB', 14),
+      projection('rbA3', 'RB', 12),
+      projection('wrA', 'WR', 12),
+      projection('teA', 'TE', 5),
+      projection('qbB', 'QB', 19),
+      projection('rbB', 'RB', 8),
+      projection('wrB1', 'WR', 15),
+      projection('wrB2', 'WR', 13),
+      projection('teB1', 'TE', 11),
+      projection('teB2', 'TE', 6),
+    ].map((p) => [p.player_id, p])
+  );
+  const roster = (roster_id: number, players: string[]) =>
+    ({ roster_id, owner_id: `u${roster_id}`, players }) as unknown as SleeperRoster;
+  const sender = roster(1, ['qbA', 'rbA1', 'rbA2', 'rbA3', 'wrA', 'teA']);
+  const receiver = roster(2, ['qbB', 'rbB', 'wrB1', 'wrB2', 'teB1', 'teB2']);
+
+  const analyze = (playersOut: string[], playersIn: string[], picksIn: DraftPickRef[] = []) =>
+    evaluateTrade(
+      league,
+      sender,
+      receiver,
+      [],
+      { sendRosterId: 1, receiveRosterId: 2, playersOut, playersIn, picksOut: [], picksIn },
+      projections,
+      10
+    );
+
+  it('should project starter points change and positional fit for both sides', () => {
+    const analysis = analyze(['rbA2'], ['teB1']);
+
+    // Sender: TE 5 -> 11, FLEX RB 14 -> 12
+    expect(analysis.sender).toMatchObject({
+      starter_points_before: 67,
+      starter_points_after: 71,
+      starter_points_change: 4,
+      position_changes: { TE: 6, RB: -2 },
+      needs_before: ['QB', 'WR', 'TE'],
+      needs_filled: ['TE'],
+      needs_created: [],
+      value_change: 40,
+    });
+    // Receiver: RB 8 -> 14, TE 11 -> 6
+    expect(analysis.receiver).toMatchObject({
+      starter_points_change: 1,
+      needs_filled: ['RB'],
+      needs_created: ['TE'],
+    });
+    expect(analysis.sender.players_received[0].player_id).toBe('teB1');
+  });
+
+  it('should credit multi-position players at the slot where they help most', () => {
+    const hybrid: PlayerProjection = {
+      ...projection('hybrid', 'TE', 22),
+      positions: ['QB', 'TE'],
+    };
+    const analysis = evaluateTrade(
+      league,
+      sender,
+      roster(2, [...(receiver.players || []), 'hybrid']),
+      [],
+      {
+        sendRosterId: 1,
+        receiveRosterId: 2,
+        playersOut: ['rbA3'],
+        playersIn: ['hybrid'],
+        picksOut: [],
+        picksIn: [],
+      },
+      new Map([...projections, ['hybrid', hybrid]]),
+      10
+    );
+
+    // Sender keeps qbA at QB and starts the hybrid at TE over teA (5 -> 22)
+    expect(analysis.sender).toMatchObject({
+      starter_points_before: 67,
+      starter_points_after: 84,
+      starter_points_change: 17,
+      position_changes: { TE: 17 },
+    });
+    // Receiver had qbB at QB and the hybrid at TE; teB1 takes TE back
+    expect(analysis.receiver).toMatchObject({
+      starter_points_before: 77,
+      starter_points_after: 70,
+      starter_points_change: -7,
+    });
+    expect(analysis.verdict).toBe('favors_sender');
+  });
+
+  it('should flag lopsided trades and count draft picks', () => {
+    expect(analyze(['rbA2'], ['teB1']).verdict).toBe('fair');
+    expect(analyze(['rbA3'], ['wrB1']).verdict).toBe('favors_sender');
+    expect(analyze(['rbA2'], ['rbB']).verdict).toBe('favors_receiver');
+    // A second-round pick evens out a starter upgrade for the receiver
+    expect(analyze(['rbA3'], [], [{ season: '2025', round: 2 }])).toMatchObject({
+      verdict: 'fair',
+      value_gap: 0,
+    });
+  });
+});
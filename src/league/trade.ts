@@ -0,0 +1,189 @@
+import { candidatesFor, optimalLineup, positionalNeeds } from './lineup';
+import { teamName } from './season';
+import { PlayerProjection } from '../scoring/projections';
+import { SleeperLeague, SleeperRoster, SleeperUser } from '../types/sleeper';
+
+export interface DraftPickRef {
+  season: string;
+  round: number;
+}
+
+export interface TradeProposal {
+  sendRosterId: number;
+  receiveRosterId: number;
+  playersOut: string[];
+  playersIn: string[];
+  picksOut: DraftPickRef[];
+  picksIn: DraftPickRef[];
+}
+
+export interface TradeSide {
+  roster_id: number;
+  team_name: string;
+  players_sent: PlayerProjection[];
+  players_received: PlayerProjection[];
+  picks_sent: DraftPickRef[];
+  picks_received: DraftPickRef[];
+  starter_points_before: number;
+  starter_points_after: number;
+  starter_points_change: number;
+  position_changes: Record<string, number>;
+  needs_before: string[];
+  needs_after: string[];
+  needs_filled: string[];
+  needs_created: string[];
+  value_change: number;
+}
+
+export type TradeVerdict = 'fair' | 'favors_sender' | 'favors_receiver';
+
+export interface TradeAnalysis {
+  remaining_weeks: number;
+  sender: TradeSide;
+  receiver: TradeSide;
+  value_gap: number;
+  verdict: TradeVerdict;
+}
+
+// Rough rest-of-season starter points a pick is worth, by round
+const PICK_VALUE_BY_ROUND = [0, 40, 20, 10, 5];
+const LATE_PICK_VALUE = 2;
+// A trade is fair when the value gap is within this share of everything moved...
+const FAIR_SHARE = 0.15;
+// ...or below this many rest-of-season points
+const FAIR_MIN_GAP = 10;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function pickValue(picks: DraftPickRef[]): number {
+  return picks.reduce((sum, pick) => sum + (PICK_VALUE_BY_ROUND[pick.round] ?? LATE_PICK_VALUE), 0);
+}
+
+function pointsByPosition(
+  starters: Array<{ player_id: string | null; points: number }>,
+  projections: Map<string, PlayerProjection>
+): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const starter of starters) {
+    const position = starter.player_id ? projections.get(starter.player_id)?.position : null;
+    if (position) {
+      totals[position] = (totals[position] || 0) + starter.points;
+    }
+  }
+  return totals;
+}
+
+function evaluateSide(
+  league: SleeperLeague,
+  roster: SleeperRoster,
+  users: SleeperUser[],
+  sent: { players: string[]; picks: DraftPickRef[] },
+  received: { players: string[]; picks: DraftPickRef[] },
+  projections: Map<string, PlayerProjection>,
+  remainingWeeks: number
+): TradeSide {
+  const rosterPositions = league.roster_positions as string[];
+  const before = roster.players || [];
+  const after = [...before.filter((id) => !sent.players.includes(id)), ...received.players];
+
+  const candidatesBefore = candidatesFor(before, projections);
+  const candidatesAfter = candidatesFor(after, projections);
+
+  const lineupBefore = optimalLineup(rosterPositions, candidatesBefore);
+  const lineupAfter = optimalLineup(rosterPositions, candidatesAfter);
+  const positionsBefore = pointsByPosition(lineupBefore.starters, projections);
+  const positionsAfter = pointsByPosition(lineupAfter.starters, projections);
+  const positionChanges: Record<string, number> = {};
+  for (const position of new Set([
+    ...Object.keys(positionsBefore),
+    ...Object.keys(positionsAfter),
+  ])) {
+    const change = round((positionsAfter[position] || 0) - (positionsBefore[position] || 0));
+    if (change !== 0) {
+      positionChanges[position] = change;
+    }
+  }
+
+  const needsBefore = positionalNeeds(rosterPositions, candidatesBefore);
+  const needsAfter = positionalNeeds(rosterPositions, candidatesAfter);
+  const starterChange = round(lineupAfter.points - lineupBefore.points);
+  const project = (ids: string[]) =>
+    ids.map((id) => projections.get(id)).filter((p): p is PlayerProjection => p !== undefined);
+
+  return {
+    roster_id: roster.roster_id,
+    team_name: teamName(roster, users),
+    players_sent: project(sent.players),
+    players_received: project(received.players),
+    picks_sent: sent.picks,
+    picks_received: received.picks,
+    starter_points_before: lineupBefore.points,
+    starter_points_after: lineupAfter.points,
+    starter_points_change: starterChange,
+    position_changes: positionChanges,
+    needs_before: needsBefore,
+    needs_after: needsAfter,
+    needs_filled: needsBefore.filter((position) => !needsAfter.includes(position)),
+    needs_created: needsAfter.filter((position) => !needsBefore.includes(position)),
+    value_change: round(
+      starterChange * remainingWeeks + pickValue(received.picks) - pickValue(sent.picks)
+    ),
+  };
+}
+
+/**
+ * Evaluate a trade for both rosters. Each side's value is its change in
+ * projected starting-lineup points over the rest of the season plus the net
+ * value of draft picks; the verdict compares the two sides.
+ */
+export function evaluateTrade(
+  league: SleeperLeague,
+  sender: SleeperRoster,
+  receiver: SleeperRoster,
+  users: SleeperUser[],
+  proposal: TradeProposal,
+  projections: Map<string, PlayerProjection>,
+  remainingWeeks: number
+): TradeAnalysis {
+  const weeks = Math.max(remainingWeeks, 1);
+  const senderSide = evaluateSide(
+    league,
+    sender,
+    users,
+    { players: proposal.playersOut, picks: proposal.picksOut },
+    { players: proposal.playersIn, picks: proposal.picksIn },
+    projections,
+    weeks
+  );
+  const receiverSide = evaluateSide(
+    league,
+    receiver,
+    users,
+    { players: proposal.playersIn, picks: proposal.picksIn },
+    { players: proposal.playersOut, picks: proposal.picksOut },
+    projections,
+    weeks
+  );
+
+  const moved =
+    [...proposal.playersOut, ...proposal.playersIn].reduce(
+      (sum, id) => sum + (projections.get(id)?.points_per_week ?? 0) * weeks,
+      0
+    ) + pickValue([...proposal.picksOut, ...proposal.picksIn]);
+  const gap = round(senderSide.value_change - receiverSide.value_change);
+
+  let verdict: TradeVerdict = 'fair';
+  if (Math.abs(gap) > Math.max(FAIR_MIN_GAP, FAIR_SHARE * moved)) {
+    verdict = gap > 0 ? 'favors_sender' : 'favors_receiver';
+  }
+
+  return {
+    remaining_weeks: weeks,
+    sender: senderSide,
+    receiver: receiverSide,
+    value_gap: gap,
+    verdict,
+  };
+}
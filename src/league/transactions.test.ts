@@ -0,0 +1,124 @@
+import {
+  decodeCursor,
+  enrichTransaction,
+  filterTransactions,
+  paginateTransactions,
+} from './transactions';
+import { ValidationError } from '../utils/errors';
+import { SleeperPlayer, SleeperRoster, SleeperTransaction } from '../types/sleeper';
+
+function transaction(
+  id: string,
+  created: number,
+  fields: Partial<SleeperTransaction> = {}
+): SleeperTransaction {
+  return {
+    type: 'free_agent',
+    status: 'complete',
+    transaction_id: id,
+    created,
+    leg: 1,
+    roster_ids: [1],
+    creator: 'u1',
+    adds: null,
+    drops: null,
+    draft_picks: [],
+    settings: null,
+    metadata: null,
+    consenter_ids: [],
+    ...fields,
+  };
+}
+
+const transactions = [
+  transaction('t1', 1000, { type: 'waiver', adds: { p1: 1 }, settings: { waiver_bid: 12 } }),
+  transaction('t2', 3000, {
+    type: 'trade',
+    roster_ids: [1, 2],
+    adds: { p2: 2, p3: 1 },
+    drops: { p2: 1, p3: 2 },
+    draft_picks: [{ season: '2025', round: 2, roster_id: 2, previous_owner_id: 2, owner_id: 1 }],
+    waiver_budget: [{ sender: 1, receiver: 2, amount: 5 }],
+  }),
+  transaction('t3', 2000, { roster_ids: [2], drops: { p1: 2 } }),
+  transaction('t4', 3000, { roster_ids: [2], adds: { p4: 2 } }),
+];
+
+describe('transaction log', () => {
+  it('should filter on type, roster, player and date range', () => {
+    const ids = (filters: Parameters<typeof filterTransactions>[1]) =>
+      filterTransactions(transactions, filters).map((t) => t.transaction_id);
+
+    expect(ids({ type: 'trade' })).toEqual(['t2']);
+    expect(ids({ rosterId: 2 })).toEqual(['t2', 't3', 't4']);
+    expect(ids({ playerId: 'p1' })).toEqual(['t1', 't3']);
+    expect(ids({ since: 2000, until: 2999 })).toEqual(['t3']);
+    expect(ids({ rosterId: 2, playerId: 'p1' })).toEqual(['t3']);
+  });
+
+  it('should page newest first with a stable cursor', () => {
+    const first = paginateTransactions(transactions, 2);
+    expect(first.transactions.map((t) => t.transaction_id)).toEqual(['t4', 't2']);
+    expect(first.total).toBe(4);
+    expect(first.next_cursor).not.toBeNull();
+
+    // A newer transaction arriving between requests does not shift the next page
+    const second = paginateTransactions(
+      [...transactions, transaction('t5', 9000)],
+      2,
+      first.next_cursor ?? undefined
+    );
+    expect(second.transactions.map((t) => t.transaction_id)).toEqual(['t3', 't1']);
+    expect(second.next_cursor).toBeNull();
+  });
+
+  it('should reject a malformed cursor', () => {
+    expect(() => decodeCursor('not-a-cursor')).toThrow(ValidationError);
+    expect(() =>
+      paginateTransactions(transactions, 2, Buffer.from('{}').toString('base64url'))
+    ).toThrow(ValidationError);
+  });
+
+  it('should resolve names and FAAB amounts', () => {
+    const rosters = [1, 2].map(
+      (rosterId) => ({ roster_id: rosterId, owner_id: `u${rosterId}` }) as unknown as SleeperRoster
+    );
+    const users = [
+      { user_id: 'u1', username: 'one', display_name: 'One', avatar: null },
+      { user_id: 'u2', username: 'two', display_name: 'Two', avatar: null },
+    ];
+    const players = new Map<string, SleeperPlayer | null>([
+      ['p2', { full_name: 'Player Two', position: 'WR', team: 'KC' } as SleeperPlayer],
+      ['p3', null],
+    ]);
+
+    const trade = enrichTransaction(transactions[1], rosters, users, players);
+    expect(trade.creator).toEqual({ user_id: 'u1', display_name: 'One' });
+    expect(trade.teams.map((team) => team.owner_name)).toEqual(['One', 'Two']);
+    expect(trade.adds).toEqual([
+      {
+        player_id: 'p2',
+        player_name: 'Player Two',
+        position: 'WR',
+        team: 'KC',
+        roster_id: 2,
+        team_name: 'Two',
+      },
+      {
+        player_id: 'p3',
+        player_name: null,
+        position: null,
+        team: null,
+        roster_id: 1,
+        team_name: 'One',
+      },
+    ]);
+    expect(trade.draft_picks[0]).toMatchObject({ from_team: 'Two', to_team: 'One', round: 2 });
+    expect(trade.faab_transfers).toEqual([
+      { from_roster_id: 1, from_team: 'One', to_roster_id: 2, to_team: 'Two', amount: 5 },
+    ]);
+    expect(trade.created_at).toBe('1970-01-01T00:00:03.000Z');
+
+    expect(enrichTransaction(transactions[0], rosters, users, players).waiver_bid).toBe(12);
+  });
+});
@@ -0,0 +1,229 @@
+import { teamName } from './season';
+import { ValidationError } from '../utils/errors';
+import {
+  SleeperPlayer,
+  SleeperRoster,
+  SleeperTransaction,
+  SleeperTransactionType,
+  SleeperUser,
+} from '../types/sleeper';
+
+export interface TransactionFilters {
+  type?: SleeperTransactionType;
+  rosterId?: number;
+  playerId?: string;
+  // Epoch milliseconds, inclusive
+  since?: number;
+  until?: number;
+}
+
+export interface TransactionTeam {
+  roster_id: number;
+  team_name: string;
+  owner_id: string | null;
+  owner_name: string | null;
+}
+
+export interface TransactionPlayerMove {
+  player_id: string;
+  player_name: string | null;
+  position: string | null;
+  team: string | null;
+  roster_id: number;
+  team_name: string;
+}
+
+export interface TransactionPickMove {
+  season: string;
+  round: number;
+  original_roster_id: number;
+  from_roster_id: number;
+  from_team: string;
+  to_roster_id: number;
+  to_team: string;
+}
+
+export interface FaabTransfer {
+  from_roster_id: number;
+  from_team: string;
+  to_roster_id: number;
+  to_team: string;
+  amount: number;
+}
+
+export interface TransactionLogEntry {
+  transaction_id: string;
+  type: SleeperTransactionType;
+  status: string;
+  week: number;
+  created: number;
+  created_at: string;
+  creator: { user_id: string; display_name: string | null };
+  teams: TransactionTeam[];
+  adds: TransactionPlayerMove[];
+  drops: TransactionPlayerMove[];
+  draft_picks: TransactionPickMove[];
+  // Winning FAAB bid on a waiver claim
+  waiver_bid: number | null;
+  faab_transfers: FaabTransfer[];
+  notes: string | null;
+}
+
+export interface TransactionPage {
+  transactions: SleeperTransaction[];
+  total: number;
+  next_cursor: string | null;
+}
+
+interface CursorPosition {
+  created: number;
+  id: string;
+}
+
+/**
+ * Keep transactions matching every filter that is set. A roster matches when
+ * it took part in the transaction; a player when they were added or dropped.
+ */
+export function filterTransactions(
+  transactions: SleeperTransaction[],
+  filters: TransactionFilters
+): SleeperTransaction[] {
+  const { type, rosterId, playerId, since, until } = filters;
+  return transactions.filter(
+    (transaction) =>
+      (type === undefined || transaction.type === type) &&
+      (rosterId === undefined || (transaction.roster_ids || []).includes(rosterId)) &&
+      (playerId === undefined ||
+        playerId in (transaction.adds || {}) ||
+        playerId in (transaction.drops || {})) &&
+      (since === undefined || transaction.created >= since) &&
+      (until === undefined || transaction.created <= until)
+  );
+}
+
+// Newest first; the transaction ID breaks ties so the order is stable across pages
+function compareTransactions(a: CursorPosition, b: CursorPosition): number {
+  return b.created - a.created || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+}
+
+export function encodeCursor(transaction: SleeperTransaction): string {
+  return Buffer.from(
+    JSON.stringify({ created: transaction.created, id: transaction.transaction_id })
+  ).toString('base64url');
+}
+
+function invalidCursor(): ValidationError {
+  return new ValidationError('Invalid parameters', [
+    { path: 'cursor', message: 'Malformed pagination cursor' },
+  ]);
+}
+
+export function decodeCursor(cursor: string): CursorPosition {
+  let position: Partial<CursorPosition> | null;
+  try {
+    position = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    ) as Partial<CursorPosition> | null;
+  } catch (error) {
+    throw invalidCursor();
+  }
+  if (typeof position?.created !== 'number' || typeof position.id !== 'string') {
+    throw invalidCursor();
+  }
+  return { created: position.created, id: position.id };
+}
+
+/**
+ * One page of transactions, newest first, starting after the cursor. The
+ * cursor encodes the last transaction of the previous page, so pages stay
+ * consistent when newer transactions arrive between requests.
+ */
+export function paginateTransactions(
+  transactions: SleeperTransaction[],
+  limit: number,
+  cursor?: string
+): TransactionPage {
+  const position = (transaction: SleeperTransaction): CursorPosition => ({
+    created: transaction.created,
+    id: transaction.transaction_id,
+  });
+  const sorted = [...transactions].sort((a, b) => compareTransactions(position(a), position(b)));
+  const after = cursor ? decodeCursor(cursor) : null;
+  const remaining = after
+    ? sorted.filter((transaction) => compareTransactions(after, position(transaction)) < 0)
+    : sorted;
+  const page = remaining.slice(0, limit);
+
+  return {
+    transactions: page,
+    total: sorted.length,
+    next_cursor: remaining.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
+
+/**
+ * Resolve a transaction's roster, user and player IDs to names and spell out
+ * the FAAB involved. players holds the players the transaction moves.
+ */
+export function enrichTransaction(
+  transaction: SleeperTransaction,
+  rosters: SleeperRoster[],
+  users: SleeperUser[],
+  players: Map<string, SleeperPlayer | null>
+): TransactionLogEntry {
+  const displayName = (userId: string | null | undefined) =>
+    (userId && users.find((user) => user.user_id === userId)?.display_name) || null;
+  const team = (rosterId: number): TransactionTeam => {
+    const roster = rosters.find((r) => r.roster_id === rosterId);
+    return {
+      roster_id: rosterId,
+      team_name: roster ? teamName(roster, users) : `Team ${rosterId}`,
+      owner_id: roster?.owner_id ?? null,
+      owner_name: displayName(roster?.owner_id),
+    };
+  };
+  const playerMoves = (moves: Record<string, number> | null) =>
+    Object.entries(moves || {}).map(([playerId, rosterId]): TransactionPlayerMove => {
+      const player = players.get(playerId);
+      return {
+        player_id: playerId,
+        player_name: player ? player.full_name || `${player.first_name} ${player.last_name}` : null,
+        position: player?.position ?? null,
+        team: player?.team ?? null,
+        roster_id: rosterId,
+        team_name: team(rosterId).team_name,
+      };
+    });
+
+  const bid: unknown = transaction.settings?.waiver_bid;
+  return {
+    transaction_id: transaction.transaction_id,
+    type: transaction.type,
+    status: transaction.status,
+    week: transaction.leg,
+    created: transaction.created,
+    created_at: new Date(transaction.created).toISOString(),
+    creator: { user_id: transaction.creator, display_name: displayName(transaction.creator) },
+    teams: (transaction.roster_ids || []).map(team),
+    adds: playerMoves(transaction.adds),
+    drops: playerMoves(transaction.drops),
+    draft_picks: (transaction.draft_picks || []).map((pick) => ({
+      season: String(pick.season),
+      round: pick.round,
+      original_roster_id: pick.roster_id,
+      from_roster_id: pick.previous_owner_id,
+      from_team: team(pick.previous_owner_id).team_name,
+      to_roster_id: pick.owner_id,
+      to_team: team(pick.owner_id).team_name,
+    })),
+    waiver_bid: typeof bid === 'number' ? bid : null,
+    faab_transfers: (transaction.waiver_budget || []).map((transfer) => ({
+      from_roster_id: transfer.sender,
+      from_team: team(transfer.sender).team_name,
+      to_roster_id: transfer.receiver,
+      to_team: team(transfer.receiver).team_name,
+      amount: transfer.amount,
+    })),
+    notes: typeof transaction.metadata?.notes === 'string' ? transaction.metadata.notes : null,
+  };
+}
@@ -0,0 +1,75 @@
+import { rankWaiverTargets, suggestBid, WaiverCandidate } from './waivers';
+import { PlayerProjection } from '../scoring/projections';
+
+describe('rankWaiverTargets', () => {
+  const projection = (player_id: string, position: string, points: number): PlayerProjection => ({
+    player_id,
+    player_name: player_id,
+    position,
+    positions: [position],
+    team: null,
+    points_per_week: points,
+    source: 'analytics',
+  });
+  const candidate = (
+    p: PlayerProjection,
+    adds: number,
+    drops: number,
+    bye_weeks: number[] = []
+  ): WaiverCandidate => ({ projection: p, adds, drops, bye_weeks });
+
+  const context = {
+    rosterPositions: ['QB', 'RB', 'WR', 'FLEX', 'BN'],
+    roster: [
+      { player_id: 'qb', positions: ['QB'], points: 20 },
+      { player_id: 'rb', positions: ['RB'], points: 12 },
+      { player_id: 'wr1', positions: ['WR'], points: 14 },
+      { player_id: 'wr2', positions: ['WR'], points: 6 },
+    ],
+    rosterByeWeeks: new Map([['rb', [6]]]),
+    upcomingWeeks: [5, 6, 7],
+    faabRemaining: 100,
+  };
+  const candidates = [
+    candidate(projection('wrB', 'WR', 15), 100, 50, [5]),
+    candidate(projection('qbC', 'QB', 8), 0, 0),
+    candidate(projection('rbA', 'RB', 10), 500, 0),
+  ];
+
+  it('should rank on trend, projection, starter gain, need and bye coverage', () => {
+    const ranked = rankWaiverTargets(candidates, context, 10);
+
+    expect(ranked.map((r) => r.player_id)).toEqual(['rbA', 'wrB', 'qbC']);
+    expect(ranked[0]).toMatchObject({
+      score: 73.9,
+      starter_gain: 4,
+      fills_need: true,
+      covers_bye_weeks: [6],
+      suggested_bid: 16,
+    });
+    // On bye next week
+    expect(ranked[1]).toMatchObject({ score: 38, starter_gain: 9, fills_need: false });
+    expect(ranked[2]).toMatchObject({ score: 28.3, fills_need: true });
+  });
+
+  it('should only suggest bids in FAAB leagues and respect the limit', () => {
+    const ranked = rankWaiverTargets(candidates, { ...context, faabRemaining: null }, 1);
+
+    expect(ranked).toHaveLength(1);
+    expect(ranked[0].suggested_bid).toBeNull();
+  });
+
+  it('should count a multi-position player at the slot where they gain most', () => {
+    const hybrid = { ...projection('hybrid', 'TE', 25), positions: ['QB', 'TE'] };
+    const [ranked] = rankWaiverTargets([candidate(hybrid, 0, 0)], context, 10);
+
+    // Starting at FLEX over wr2 (6 -> 25) beats replacing qb at QB (20 -> 25)
+    expect(ranked.starter_gain).toBe(19);
+  });
+
+  it('should never bid more than the remaining budget', () => {
+    expect(suggestBid(100, 3)).toBe(1);
+    expect(suggestBid(100, 0)).toBe(0);
+    expect(suggestBid(50, 200)).toBe(15);
+  });
+});
@@ -0,0 +1,146 @@
+import { LineupCandidate, isEligible, optimalLineup, positionalNeeds } from './lineup';
+import { PlayerProjection } from '../scoring/projections';
+
+export interface WaiverCandidate {
+  projection: PlayerProjection;
+  adds: number;
+  drops: number;
+  // Upcoming weeks the player's team is on bye
+  bye_weeks: number[];
+}
+
+export interface WaiverContext {
+  rosterPositions: string[];
+  roster: LineupCandidate[];
+  rosterByeWeeks: Map<string, number[]>;
+  upcomingWeeks: number[];
+  faabRemaining: number | null;
+}
+
+export interface WaiverRecommendation {
+  player_id: string;
+  player_name: string | null;
+  position: string | null;
+  team: string | null;
+  score: number;
+  adds: number;
+  drops: number;
+  projected_points: number;
+  projection_source: string;
+  starter_gain: number;
+  fills_need: boolean;
+  bye_weeks: number[];
+  covers_bye_weeks: number[];
+  suggested_bid: number | null;
+}
+
+// Score weights (sum to 1)
+const TREND_WEIGHT = 0.3;
+const PROJECTION_WEIGHT = 0.25;
+const STARTER_GAIN_WEIGHT = 0.2;
+const NEED_WEIGHT = 0.15;
+const BYE_COVER_WEIGHT = 0.1;
+// Points taken off a player who is on bye next week
+const NEXT_WEEK_BYE_PENALTY = 10;
+// Largest share of the remaining FAAB budget suggested for a perfect score
+const MAX_BID_SHARE = 0.3;
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Suggested FAAB bid: grows with the square of the score so only clear
+ * priorities get a meaningful share of the remaining budget
+ */
+export function suggestBid(score: number, remaining: number): number {
+  return Math.min(remaining, Math.round(remaining * MAX_BID_SHARE * (score / 100) ** 2));
+}
+
+/**
+ * Rank free agents for a roster on trending velocity (net adds), projected
+ * points, starting-lineup gain, positional need and bye-week coverage
+ */
+export function rankWaiverTargets(
+  candidates: WaiverCandidate[],
+  context: WaiverContext,
+  limit: number
+): WaiverRecommendation[] {
+  const { rosterPositions, roster, rosterByeWeeks, upcomingWeeks, faabRemaining } = context;
+  const baseline = optimalLineup(rosterPositions, roster);
+  const needs = positionalNeeds(rosterPositions, roster);
+
+  // Starters missing each upcoming week because of byes
+  const byeHoles = new Map(
+    upcomingWeeks.map((week) => [
+      week,
+      baseline.starters.filter(
+        (starter) =>
+          starter.player_id !== null && rosterByeWeeks.get(starter.player_id)?.includes(week)
+      ),
+    ])
+  );
+
+  const evaluated = candidates.map((candidate) => {
+    const { projection } = candidate;
+    const asCandidate: LineupCandidate = {
+      player_id: projection.player_id,
+      positions: projection.positions,
+      points: projection.points_per_week,
+    };
+    const withPlayer = optimalLineup(rosterPositions, [...roster, asCandidate]);
+    const coversByeWeeks = upcomingWeeks.filter(
+      (week) =>
+        !candidate.bye_weeks.includes(week) &&
+        (byeHoles.get(week) || []).some((hole) => isEligible(hole.slot, asCandidate))
+    );
+
+    return {
+      candidate,
+      starterGain: round(withPlayer.points - baseline.points),
+      fillsNeed: projection.positions.some((position) => needs.includes(position)),
+      coversByeWeeks,
+    };
+  });
+
+  const max = (values: number[]) => Math.max(1, ...values);
+  const maxTrend = max(evaluated.map((e) => e.candidate.adds - e.candidate.drops));
+  const maxPoints = max(evaluated.map((e) => e.candidate.projection.points_per_week));
+  const maxGain = max(evaluated.map((e) => e.starterGain));
+
+  return evaluated
+    .map(({ candidate, starterGain, fillsNeed, coversByeWeeks }) => {
+      const { projection } = candidate;
+      let score =
+        100 *
+        (TREND_WEIGHT * (Math.max(0, candidate.adds - candidate.drops) / maxTrend) +
+          PROJECTION_WEIGHT * (Math.max(0, projection.points_per_week) / maxPoints) +
+          STARTER_GAIN_WEIGHT * (Math.max(0, starterGain) / maxGain) +
+          NEED_WEIGHT * (fillsNeed ? 1 : 0) +
+          BYE_COVER_WEIGHT *
+            (upcomingWeeks.length > 0 ? coversByeWeeks.length / upcomingWeeks.length : 0));
+      if (upcomingWeeks.length > 0 && candidate.bye_weeks.includes(upcomingWeeks[0])) {
+        score -= NEXT_WEEK_BYE_PENALTY;
+      }
+      score = Math.max(0, Math.round(score * 10) / 10);
+
+      return {
+        player_id: projection.player_id,
+        player_name: projection.player_name,
+        position: projection.position,
+        team: projection.team,
+        score,
+        adds: candidate.adds,
+        drops: candidate.drops,
+        projected_points: projection.points_per_week,
+        projection_source: projection.source,
+        starter_gain: starterGain,
+        fills_need: fillsNeed,
+        bye_weeks: candidate.bye_weeks,
+        covers_bye_weeks: coversByeWeeks,
+        suggested_bid: faabRemaining === null ? null : suggestBid(score, faabRemaining),
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.projected_points - a.projected_points)
+    .slice(0, limit);
+}
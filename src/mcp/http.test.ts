@@ -0,0 +1,133 @@
+import request from 'supertest';
+import express from 'express';
+import { StreamableHTTPTransport } from './http';
+import { MCPProtocolHandler, MCPRequest, MCPRequestContext } from './protocol';
+
+describe('StreamableHTTPTransport', () => {
+  let app: express.Express;
+  let handler: { handleMessage: jest.Mock; closeSession: jest.Mock };
+  let transport: StreamableHTTPTransport;
+
+  const initialize = { jsonrpc: '2.0', id: 1, method: 'initialize', params: {} };
+
+  beforeEach(() => {
+    handler = {
+      handleMessage: jest.fn((message: MCPRequest) =>
+        Promise.resolve(
+          message.method.startsWith('notifications/')
+            ? null
+            : { jsonrpc: '2.0', id: message.id, result: {} }
+        )
+      ),
+      closeSession: jest.fn(),
+    };
+    transport = new StreamableHTTPTransport(handler as unknown as MCPProtocolHandler);
+
+    app = express();
+    app.use(express.json());
+    app.post('/mcp', (req, res) => void transport.handlePost(req, res));
+    app.get('/mcp', (req, res) => transport.handleGet(req, res));
+    app.delete('/mcp', (req, res) => transport.handleDelete(req, res));
+  });
+
+  afterEach(() => {
+    transport.close();
+  });
+
+  it('should start a session on initialize', async () => {
+    const response = await request(app).post('/mcp').send(initialize);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['mcp-session-id']).toEqual(expect.any(String));
+    expect(response.body).toEqual({ jsonrpc: '2.0', id: 1, result: {} });
+    expect(transport.sessionCount).toBe(1);
+  });
+
+  it('should pass the session ID to the handler', async () => {
+    const init = await request(app).post('/mcp').send(initialize);
+    const sessionId = init.headers['mcp-session-id'];
+
+    await request(app)
+      .post('/mcp')
+      .set('Mcp-Session-Id', sessionId)
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(handler.handleMessage).toHaveBeenLastCalledWith(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { sessionId, notify: undefined, notifySession: expect.any(Function) }
+    );
+  });
+
+  it('should reject unknown sessions with 404', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .set('Mcp-Session-Id', 'missing')
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(response.status).toBe(404);
+    expect(handler.handleMessage).not.toHaveBeenCalled();
+  });
+
+  it('should acknowledge notifications with 202', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    expect(response.status).toBe(202);
+    expect(response.text).toBe('');
+  });
+
+  it('should stream progress notifications before the result', async () => {
+    handler.handleMessage.mockImplementation((message: MCPRequest, context: MCPRequestContext) => {
+      context.notify?.({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 'tok', progress: 1, total: 2 },
+      });
+      return Promise.resolve({ jsonrpc: '2.0', id: message.id, result: { done: true } });
+    });
+
+    const response = await request(app)
+      .post('/mcp')
+      .set('Accept', 'application/json, text/event-stream')
+      .send({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'run_nightly_delta_sync', _meta: { progressToken: 'tok' } },
+      });
+
+    expect(response.headers['content-type']).toContain('text/event-stream');
+    const events = response.text
+      .split('\n')
+      .filter((line) => line.startsWith('data: '))
+      .map((line) => JSON.parse(line.slice('data: '.length)));
+    expect(events.map((event) => event.method ?? 'response')).toEqual([
+      'notifications/progress',
+      'response',
+    ]);
+    expect(events[1]).toEqual({ jsonrpc: '2.0', id: 3, result: { done: true } });
+  });
+
+  it('should end sessions on DELETE', async () => {
+    const init = await request(app).post('/mcp').send(initialize);
+    const sessionId = init.headers['mcp-session-id'];
+
+    const deleted = await request(app).delete('/mcp').set('Mcp-Session-Id', sessionId);
+    const after = await request(app)
+      .post('/mcp')
+      .set('Mcp-Session-Id', sessionId)
+      .send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+    expect(deleted.status).toBe(204);
+    expect(after.status).toBe(404);
+    expect(handler.closeSession).toHaveBeenCalledWith(sessionId);
+    expect(transport.sessionCount).toBe(0);
+  });
+
+  it('should only serve GET as an event stream', async () => {
+    const response = await request(app).get('/mcp').set('Accept', 'application/json');
+
+    expect(response.status).toBe(405);
+  });
+});
@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { MCPNotification, MCPProtocolHandler, MCPRequest, MCPResponse } from './protocol';
+
+const SESSION_HEADER = 'mcp-session-id';
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000; // 30 minutes
+const KEEP_ALIVE_INTERVAL_MS = 25 * 1000;
+
+interface MCPSession {
+  id: string;
+  streams: Set<Response>;
+  lastActivity: number;
+}
+
+/**
+ * MCP Streamable HTTP transport for the /mcp endpoint.
+ *
+ * - POST carries client messages. `initialize` starts a session whose ID is
+ *   returned in the `Mcp-Session-Id` header. Requests without the header are
+ *   served statelessly so plain HTTP clients keep working.
+ * - POST responses are upgraded to an SSE stream when the client accepts it and
+ *   asked for progress, so `notifications/progress` arrive before the result.
+ * - GET opens a standalone SSE stream for server-initiated notifications.
+ * - DELETE ends a session.
+ */
+export class StreamableHTTPTransport {
+  private sessions = new Map<string, MCPSession>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private handler: MCPProtocolHandler) {
+    this.sweepTimer = setInterval(() => this.sweepIdleSessions(), 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  async handlePost(req: Request, res: Response): Promise<void> {
+    const body: unknown = req.body;
+    const messages = (Array.isArray(body) ? body : [body]) as MCPRequest[];
+
+    if (
+      messages.length === 0 ||
+      messages.some((message) => !message || typeof message.method !== 'string')
+    ) {
+      res.status(400).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid Request' },
+      });
+      return;
+    }
+
+    let session: MCPSession | undefined;
+    if (messages.some((message) => message.method === 'initialize')) {
+      session = this.createSession();
+      res.setHeader('Mcp-Session-Id', session.id);
+    } else if (req.header(SESSION_HEADER)) {
+      session = this.getSession(req, res);
+      if (!session) {
+        return;
+      }
+    }
+
+    // Notifications (no id) are acknowledged without a body
+    const requests = messages.filter((message) => message.id !== undefined);
+    if (requests.length === 0) {
+      await Promise.all(messages.map((message) => this.dispatch(message, session)));
+      res.status(202).end();
+      return;
+    }
+
+    const wantsProgress = requests.some(
+      (message) =>
+        (message.params as { _meta?: { progressToken?: unknown } } | undefined)?._meta
+          ?.progressToken !== undefined
+    );
+    if (wantsProgress && this.acceptsEventStream(req)) {
+      await this.respondWithStream(res, messages, session);
+      return;
+    }
+
+    const responses = await Promise.all(messages.map((message) => this.dispatch(message, session)));
+    const answered = responses.filter((response): response is MCPResponse => response !== null);
+    res.json(Array.isArray(body) ? answered : answered[0]);
+  }
+
+  /**
+   * Open a standalone SSE stream for server-to-client notifications
+   */
+  handleGet(req: Request, res: Response): void {
+    if (!this.acceptsEventStream(req)) {
+      res.status(405).set('Allow', 'POST, DELETE').end();
+      return;
+    }
+
+    if (!req.header(SESSION_HEADER)) {
+      res.status(400).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Mcp-Session-Id header is required' },
+      });
+      return;
+    }
+
+    const session = this.getSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    this.openEventStream(res);
+    session.streams.add(res);
+
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+    res.on('close', () => {
+      clearInterval(keepAlive);
+      session.streams.delete(res);
+      session.lastActivity = Date.now();
+    });
+
+    logger.info('MCP notification stream opened', { sessionId: session.id });
+  }
+
+  handleDelete(req: Request, res: Response): void {
+    const session = this.getSession(req, res);
+    if (!session) {
+      return;
+    }
+
+    this.closeSession(session);
+    res.status(204).end();
+  }
+
+  /**
+   * Push a notification to every open GET stream of a session.
+   * Returns false when the session has no listener.
+   */
+  notify(sessionId: string, notification: MCPNotification): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.streams.size === 0) {
+      return false;
+    }
+
+    for (const stream of session.streams) {
+      this.writeEvent(stream, notification);
+    }
+    return true;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  close(): void {
+    clearInterval(this.sweepTimer);
+    for (const session of this.sessions.values()) {
+      this.closeSession(session);
+    }
+  }
+
+  private async respondWithStream(
+    res: Response,
+    messages: MCPRequest[],
+    session: MCPSession | undefined
+  ): Promise<void> {
+    this.openEventStream(res);
+
+    let closed = false;
+    res.on('close', () => {
+      closed = true;
+    });
+    const write = (message: MCPResponse | MCPNotification) => {
+      if (!closed) {
+        this.writeEvent(res, message);
+      }
+    };
+
+    await Promise.all(
+      messages.map(async (message) => {
+        const response = await this.dispatch(message, session, write);
+        if (response) {
+          write(response);
+        }
+      })
+    );
+
+    res.end();
+  }
+
+  private async dispatch(
+    message: MCPRequest,
+    session: MCPSession | undefined,
+    notify?: (notification: MCPNotification) => void
+  ): Promise<MCPResponse | null> {
+    try {
+      return await this.handler.handleMessage(message, {
+        sessionId: session?.id,
+        notify,
+        notifySession: session
+          ? (notification) => {
+              this.notify(session.id, notification);
+            }
+          : undefined,
+      });
+    } catch (error) {
+      logger.error('MCP request error:', error);
+      return {
+        jsonrpc: '2.0',
+        id: message.id ?? null,
+        error: { code: -32603, message: 'Internal error', data: (error as Error).message },
+      };
+    }
+  }
+
+  private createSession(): MCPSession {
+    const session: MCPSession = {
+      id: randomUUID(),
+      streams: new Set(),
+      lastActivity: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+    logger.info('MCP session created', { sessionId: session.id });
+    return session;
+  }
+
+  /**
+   * Look up the session named in the request header, answering 404 for
+   * unknown or expired sessions so the client re-initializes.
+   */
+  private getSession(req: Request, res: Response): MCPSession | undefined {
+    const sessionId = req.header(SESSION_HEADER);
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (!session) {
+      res.status(404).json({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32001, message: 'Session not found' },
+      });
+      return undefined;
+    }
+
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  private closeSession(session: MCPSession): void {
+    for (const stream of session.streams) {
+      stream.end();
+    }
+    session.streams.clear();
+    this.sessions.delete(session.id);
+    this.handler.closeSession(session.id);
+    logger.info('MCP session closed', { sessionId: session.id });
+  }
+
+  private sweepIdleSessions(): void {
+    const cutoff = Date.now() - SESSION_IDLE_TIMEOUT_MS;
+    for (const session of this.sessions.values()) {
+      if (session.streams.size === 0 && session.lastActivity < cutoff) {
+        this.closeSession(session);
+      }
+    }
+  }
+
+  private acceptsEventStream(req: Request): boolean {
+    return (req.header('accept') || '').includes('text/event-stream');
+  }
+
+  private openEventStream(res: Response): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+  }
+
+  private writeEvent(res: Response, message: MCPResponse | MCPNotification): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+}
@@ -0,0 +1,123 @@
+import { MCPPromptProvider, RPCMethodMap } from './prompts';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+describe('MCPPromptProvider', () => {
+  let rpc: Record<string, jest.Mock>;
+  let provider: MCPPromptProvider;
+
+  const league = {
+    league_id: '123',
+    name: 'Test League',
+    season: '2024',
+    total_rosters: 2,
+    roster_positions: ['QB', 'RB', 'FLEX', 'BN'],
+    scoring_settings: { rec: 1 },
+    settings: { waiver_budget: 100 },
+  };
+  const rosters = [
+    {
+      roster_id: 1,
+      owner_id: 'u1',
+      players: ['4046', '6794', '9999'],
+      starters: ['4046', '6794'],
+      settings: { wins: 3, losses: 1, ties: 0, waiver_budget_used: 20 },
+    },
+    {
+      roster_id: 2,
+      owner_id: 'u2',
+      players: ['4034'],
+      starters: ['4034'],
+      settings: { wins: 1, losses: 3, ties: 0, waiver_budget_used: 0 },
+    },
+  ];
+  const users = [
+    { user_id: 'u1', display_name: 'alice', metadata: { team_name: 'Team A' } },
+    { user_id: 'u2', display_name: 'bob' },
+  ];
+  const players = {
+    '4046': { full_name: 'Patrick Mahomes', position: 'QB', team: 'KC' },
+    '6794': { full_name: 'Justin Jefferson', position: 'WR', team: 'MIN' },
+    '4034': { full_name: 'Christian McCaffrey', position: 'RB', team: 'SF' },
+    '7000': { full_name: 'Waiver Guy', position: 'WR', team: 'NYJ' },
+  };
+
+  const text = (result: { messages: Array<{ content: { text: string } }> }) =>
+    result.messages.map((message) => message.content.text).join('\n');
+
+  beforeEach(() => {
+    rpc = {
+      'sleeper.getNFLState': jest.fn().mockResolvedValue({ season: '2024', week: 5 }),
+      'sleeper.getLeague': jest.fn().mockResolvedValue(league),
+      'sleeper.getRosters': jest.fn().mockResolvedValue(rosters),
+      'sleeper.getUsers': jest.fn().mockResolvedValue(users),
+      'sleeper.getMatchups': jest.fn().mockResolvedValue([
+        { roster_id: 1, matchup_id: 1 },
+        { roster_id: 2, matchup_id: 1 },
+      ]),
+      'sleeper.getAllPlayers': jest.fn().mockResolvedValue(players),
+      'sleeper.getTrendingPlayers': jest.fn().mockResolvedValue([
+        { player_id: '4034', count: 500 },
+        { player_id: '7000', count: 300 },
+      ]),
+    };
+    provider = new MCPPromptProvider(rpc as unknown as RPCMethodMap);
+  });
+
+  it('should list prompts with arguments derived from their schemas', () => {
+    const prompts = provider.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual([
+      'weekly_start_sit',
+      'evaluate_trade',
+      'waiver_targets',
+    ]);
+    expect(prompts[0].arguments).toEqual([
+      { name: 'leagueId', description: 'League ID', required: true },
+      {
+        name: 'rosterId',
+        description: 'Roster ID of the team to set a lineup for',
+        required: true,
+      },
+      { name: 'week', description: 'Week number (default: current week)', required: false },
+    ]);
+  });
+
+  it('should render start/sit with the current week and opponent', async () => {
+    const result = await provider.getPrompt('weekly_start_sit', { leagueId: '123', rosterId: '1' });
+
+    expect(rpc['sleeper.getMatchups']).toHaveBeenCalledWith({ leagueId: '123', week: 5 }, {});
+    expect(text(result)).toContain('Team A');
+    expect(text(result)).toContain('Christian McCaffrey');
+    expect(text(result)).toContain('It is week 5 of the 2024 NFL season');
+  });
+
+  it('should split comma-separated player IDs for trades', async () => {
+    const result = await provider.getPrompt('evaluate_trade', {
+      leagueId: '123',
+      rosterId: '1',
+      playersOut: '6794',
+      playersIn: '4034, 7000',
+    });
+
+    expect(text(result)).toContain('"players_in"');
+    expect(text(result)).toContain('Waiver Guy');
+  });
+
+  it('should only offer unrostered players as waiver targets', async () => {
+    const result = await provider.getPrompt('waiver_targets', { leagueId: '123', rosterId: '1' });
+    const freeAgents = result.messages[2].content.text;
+
+    expect(freeAgents).toContain('Waiver Guy');
+    expect(freeAgents).not.toContain('Christian McCaffrey');
+  });
+
+  it('should reject unknown prompts, invalid arguments and unknown rosters', async () => {
+    await expect(provider.getPrompt('unknown')).rejects.toThrow(NotFoundError);
+    await expect(provider.getPrompt('weekly_start_sit', { leagueId: '123' })).rejects.toThrow(
+      ValidationError
+    );
+    await expect(
+      provider.getPrompt('weekly_start_sit', { leagueId: '123', rosterId: '9' })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
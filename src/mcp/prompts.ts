@@ -0,0 +1,325 @@
+import { z } from 'zod';
+import { validateParams } from '../utils/validation';
+import { NotFoundError } from '../utils/errors';
+import { zodToJsonSchema } from './tools';
+import {
+  SleeperLeague,
+  SleeperMatchup,
+  SleeperNFLState,
+  SleeperPlayer,
+  SleeperRoster,
+  SleeperTrendingPlayer,
+  SleeperUser,
+} from '../types/sleeper';
+
+export type RPCMethodMap = Record<string, (params: unknown, context: unknown) => Promise<unknown>>;
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description: string;
+  arguments: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+export interface MCPPromptResult {
+  description: string;
+  messages: MCPPromptMessage[];
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  schema: z.AnyZodObject;
+  // Method syntax so each prompt can take its own schema's parsed arguments
+  render(args: Record<string, unknown>, rpc: RPCMethodMap): Promise<MCPPromptMessage[]>;
+}
+
+interface PlayerSummary {
+  player_id: string;
+  name: string;
+  position: string | null;
+  team: string | null;
+  status: string | null;
+  injury_status: string | null;
+}
+
+// Prompt arguments always arrive as strings
+const playerIdList = z
+  .string()
+  .min(1)
+  .transform((value) =>
+    value
+      .split(',')
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0)
+  );
+
+const startSitSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  rosterId: z.coerce.number().int().min(1).describe('Roster ID of the team to set a lineup for'),
+  week: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(18)
+    .optional()
+    .describe('Week number (default: current week)'),
+});
+
+const evaluateTradeSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  rosterId: z.coerce.number().int().min(1).describe('Roster ID of the team evaluating the trade'),
+  playersOut: playerIdList.describe('Comma-separated player IDs being sent away'),
+  playersIn: playerIdList.describe('Comma-separated player IDs being received'),
+});
+
+const waiverTargetsSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  rosterId: z.coerce.number().int().min(1).describe('Roster ID of the team to find targets for'),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .default(15)
+    .describe('Number of trending free agents to include (default: 15)'),
+});
+
+function contextMessage(title: string, data: unknown): MCPPromptMessage {
+  return textMessage(`${title}:\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``);
+}
+
+function textMessage(text: string): MCPPromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function summarizePlayer(players: Record<string, SleeperPlayer>, playerId: string): PlayerSummary {
+  const player = players[playerId];
+  return {
+    player_id: playerId,
+    name: player
+      ? player.full_name || `${player.first_name} ${player.last_name}`.trim()
+      : 'Unknown player',
+    position: player?.position ?? null,
+    team: player?.team ?? null,
+    status: player?.status ?? null,
+    injury_status: player?.injury_status ?? null,
+  };
+}
+
+function findRoster(rosters: SleeperRoster[], rosterId: number, leagueId: string): SleeperRoster {
+  const roster = rosters.find((r) => r.roster_id === rosterId);
+  if (!roster) {
+    throw new NotFoundError(`Roster ${rosterId} in league ${leagueId}`);
+  }
+  return roster;
+}
+
+function leagueSummary(league: SleeperLeague) {
+  return {
+    league_id: league.league_id,
+    name: league.name,
+    season: league.season,
+    total_rosters: league.total_rosters,
+    roster_positions: league.roster_positions,
+    scoring_settings: league.scoring_settings,
+    waiver_budget: league.settings?.waiver_budget,
+  };
+}
+
+function rosterSummary(
+  roster: SleeperRoster,
+  players: Record<string, SleeperPlayer>,
+  users: SleeperUser[]
+) {
+  const owner = users.find((u) => u.user_id === roster.owner_id);
+  return {
+    roster_id: roster.roster_id,
+    owner: owner?.metadata?.team_name || owner?.display_name || null,
+    record: `${roster.settings.wins}-${roster.settings.losses}-${roster.settings.ties}`,
+    waiver_budget_used: roster.settings.waiver_budget_used,
+    starters: (roster.starters || []).map((id) => summarizePlayer(players, id)),
+    bench: (roster.players || [])
+      .filter((id) => !(roster.starters || []).includes(id))
+      .map((id) => summarizePlayer(players, id)),
+  };
+}
+
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: 'weekly_start_sit',
+    description: 'Weekly start/sit recommendations for a roster in a league',
+    schema: startSitSchema,
+    render: async (args: z.infer<typeof startSitSchema>, rpc) => {
+      const { leagueId, rosterId } = args;
+      const state = (await rpc['sleeper.getNFLState']({}, {})) as SleeperNFLState;
+      const week = args.week ?? state.week;
+
+      const [league, rosters, users, matchups, players] = (await Promise.all([
+        rpc['sleeper.getLeague']({ leagueId }, {}),
+        rpc['sleeper.getRosters']({ leagueId }, {}),
+        rpc['sleeper.getUsers']({ leagueId }, {}),
+        rpc['sleeper.getMatchups']({ leagueId, week }, {}),
+        rpc['sleeper.getAllPlayers']({ sport: 'nfl' }, {}),
+      ])) as [
+        SleeperLeague,
+        SleeperRoster[],
+        SleeperUser[],
+        SleeperMatchup[],
+        Record<string, SleeperPlayer>,
+      ];
+
+      const roster = findRoster(rosters, rosterId, leagueId);
+      const matchup = (matchups || []).find((m) => m.roster_id === rosterId);
+      const opponentMatchup = matchup
+        ? matchups.find((m) => m.matchup_id === matchup.matchup_id && m.roster_id !== rosterId)
+        : undefined;
+      const opponent = opponentMatchup
+        ? rosters.find((r) => r.roster_id === opponentMatchup.roster_id)
+        : undefined;
+
+      return [
+        contextMessage('League settings', leagueSummary(league)),
+        contextMessage(`Week ${week} matchup`, {
+          my_team: rosterSummary(roster, players, users),
+          opponent: opponent ? rosterSummary(opponent, players, users) : null,
+        }),
+        textMessage(
+          `It is week ${week} of the ${state.season} NFL season. Using the league scoring ` +
+            `settings, lineup slots and the rosters above, recommend the best starting lineup ` +
+            `for roster ${rosterId}. For each lineup slot name the starter, flag injured or bye ` +
+            `players, and explain the closest start/sit decisions against the opponent.`
+        ),
+      ];
+    },
+  },
+  {
+    name: 'evaluate_trade',
+    description: 'Evaluate a proposed trade for a roster using league scoring and lineup needs',
+    schema: evaluateTradeSchema,
+    render: async (args: z.infer<typeof evaluateTradeSchema>, rpc) => {
+      const { leagueId, rosterId, playersOut, playersIn } = args;
+
+      const [league, rosters, users, players, trending] = (await Promise.all([
+        rpc['sleeper.getLeague']({ leagueId }, {}),
+        rpc['sleeper.getRosters']({ leagueId }, {}),
+        rpc['sleeper.getUsers']({ leagueId }, {}),
+        rpc['sleeper.getAllPlayers']({ sport: 'nfl' }, {}),
+        rpc['sleeper.getTrendingPlayers']({ type: 'add', limit: 50 }, {}),
+      ])) as [
+        SleeperLeague,
+        SleeperRoster[],
+        SleeperUser[],
+        Record<string, SleeperPlayer>,
+        SleeperTrendingPlayer[],
+      ];
+
+      const roster = findRoster(rosters, rosterId, leagueId);
+      const trendingIds = new Set((trending || []).map((t) => t.player_id));
+      const tradeSide = (ids: string[]) =>
+        ids.map((id) => ({ ...summarizePlayer(players, id), trending_up: trendingIds.has(id) }));
+
+      return [
+        contextMessage('League settings', leagueSummary(league)),
+        contextMessage('Current roster', rosterSummary(roster, players, users)),
+        contextMessage('Proposed trade', {
+          players_out: tradeSide(playersOut),
+          players_in: tradeSide(playersIn),
+        }),
+        textMessage(
+          `Evaluate this trade for roster ${rosterId}. Consider the league scoring settings, ` +
+            `the starting lineup requirements, positional depth before and after the trade, ` +
+            `injuries and recent trends. Say who wins the trade and whether roster ${rosterId} ` +
+            `should accept, counter or decline.`
+        ),
+      ];
+    },
+  },
+  {
+    name: 'waiver_targets',
+    description: 'Waiver wire targets for a roster based on trending free agents',
+    schema: waiverTargetsSchema,
+    render: async (args: z.infer<typeof waiverTargetsSchema>, rpc) => {
+      const { leagueId, rosterId, limit } = args;
+
+      const [league, rosters, users, players, trending] = (await Promise.all([
+        rpc['sleeper.getLeague']({ leagueId }, {}),
+        rpc['sleeper.getRosters']({ leagueId }, {}),
+        rpc['sleeper.getUsers']({ leagueId }, {}),
+        rpc['sleeper.getAllPlayers']({ sport: 'nfl' }, {}),
+        rpc['sleeper.getTrendingPlayers']({ type: 'add', limit: 100 }, {}),
+      ])) as [
+        SleeperLeague,
+        SleeperRoster[],
+        SleeperUser[],
+        Record<string, SleeperPlayer>,
+        SleeperTrendingPlayer[],
+      ];
+
+      const roster = findRoster(rosters, rosterId, leagueId);
+      const rostered = new Set(rosters.flatMap((r) => r.players || []));
+      const freeAgents = (trending || [])
+        .filter((t) => !rostered.has(t.player_id))
+        .slice(0, limit)
+        .map((t) => ({ ...summarizePlayer(players, t.player_id), adds_24h: t.count }));
+
+      return [
+        contextMessage('League settings', leagueSummary(league)),
+        contextMessage('Current roster', rosterSummary(roster, players, users)),
+        contextMessage('Trending free agents', freeAgents),
+        textMessage(
+          `Recommend waiver wire targets for roster ${rosterId} from the trending free agents ` +
+            `above. Rank them by fit with this roster's weakest lineup slots, suggest who to ` +
+            `drop for each, and propose FAAB bids if the league uses a waiver budget.`
+        ),
+      ];
+    },
+  },
+];
+
+export class MCPPromptProvider {
+  constructor(
+    private rpcMethods: RPCMethodMap,
+    private definitions: PromptDefinition[] = PROMPT_DEFINITIONS
+  ) {}
+
+  listPrompts(): MCPPrompt[] {
+    return this.definitions.map((definition) => {
+      const { properties = {}, required = [] } = zodToJsonSchema(definition.schema);
+      return {
+        name: definition.name,
+        description: definition.description,
+        arguments: Object.entries(properties).map(([name, property]) => ({
+          name,
+          description: property.description,
+          required: required.includes(name),
+        })),
+      };
+    });
+  }
+
+  /**
+   * Render a prompt, pre-fetching its league context through the RPC methods
+   */
+  async getPrompt(name: string, args: Record<string, unknown> = {}): Promise<MCPPromptResult> {
+    const definition = this.definitions.find((d) => d.name === name);
+    if (!definition) {
+      throw new NotFoundError(`Prompt ${name}`);
+    }
+
+    const validated = validateParams(args, definition.schema);
+    const messages = await definition.render(validated, this.rpcMethods);
+
+    return { description: definition.description, messages };
+  }
+}
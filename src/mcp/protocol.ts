@@ -1,6 +1,13 @@
-import { Request, Response } from 'express';
+import { z } from 'zod';
 import { logger } from '../utils/logger';
-import { createRPCMethods } from '../rpc/index';
+import { createRPCMethods, createRPCSchemas } from '../rpc/index';
+import { createMCPTools, MCPTool } from './tools';
+import { MCPResourceProvider } from './resources';
+import { MCPPromptProvider } from './prompts';
+import { MatchupSubscriptionManager } from './subscriptions';
+import { JsonRpcError } from '../utils/errors';
+import { ProgressReporter } from '../analytics/ingestion';
+import { validateParams } from '../utils/validation';
 
 // MCP Protocol Implementation
 export interface MCPRequest {
@@ -12,7 +19,7 @@ export interface MCPRequest {
 
 export interface MCPResponse {
   jsonrpc: '2.0';
-  id?: string | number;
+  id?: string | number | null;
   result?: any;
   error?: {
     code: number;
@@ -21,6 +28,23 @@ export interface MCPResponse {
   };
 }
 
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+}
+
+/**
+ * Per-message context supplied by the transport
+ */
+export interface MCPRequestContext {
+  sessionId?: string;
+  // Sends a notification tied to the request being handled (e.g. progress)
+  notify?: (notification: MCPNotification) => void;
+  // Sends server-initiated notifications for the lifetime of the session
+  notifySession?: (notification: MCPNotification) => void;
+}
+
 export interface MCPInitializeParams {
   protocolVersion: string;
   capabilities: {
@@ -56,173 +80,118 @@ export interface MCPInitializeResult {
   };
 }
 
-// Available MCP tools (converted from our RPC methods)
-const MCP_TOOLS = [
-  {
-    name: "get_player",
-    description: "Get detailed information about an NFL player",
-    inputSchema: {
-      type: "object",
-      properties: {
-        player_id: {
-          type: "string",
-          description: "The Sleeper player ID"
-        }
-      },
-      required: ["player_id"]
-    }
-  },
-  {
-    name: "search_players", 
-    description: "Search for NFL players by name",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "Player name to search for"
-        }
-      },
-      required: ["query"]
-    }
-  },
-  {
-    name: "get_player_analytics",
-    description: "Get comprehensive analytics for a player including trends, projections, and insights",
-    inputSchema: {
-      type: "object",
-      properties: {
-        player_id: {
-          type: "string", 
-          description: "The Sleeper player ID"
-        }
-      },
-      required: ["player_id"]
-    }
-  },
-  {
-    name: "compare_players",
-    description: "Compare two players head-to-head with detailed analytics",
-    inputSchema: {
-      type: "object",
-      properties: {
-        player_ids: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of 2 player IDs to compare"
-        }
-      },
-      required: ["player_ids"]
-    }
-  },
-  {
-    name: "get_trending_players",
-    description: "Get currently trending players for waiver wire pickups",
-    inputSchema: {
-      type: "object",
-      properties: {
-        type: {
-          type: "string",
-          enum: ["add", "drop"],
-          description: "Type of trending players"
-        }
-      }
-    }
-  },
-  {
-    name: "get_league_info",
-    description: "Get information about a fantasy league",
-    inputSchema: {
-      type: "object", 
-      properties: {
-        league_id: {
-          type: "string",
-          description: "The Sleeper league ID"
-        }
-      },
-      required: ["league_id"]
-    }
-  },
-  {
-    name: "get_league_rosters",
-    description: "Get all rosters in a fantasy league",
-    inputSchema: {
-      type: "object",
-      properties: {
-        league_id: {
-          type: "string",
-          description: "The Sleeper league ID" 
-        }
-      },
-      required: ["league_id"]
-    }
-  },
-  {
-    name: "get_nfl_state",
-    description: "Get current NFL season and week information",
-    inputSchema: {
-      type: "object",
-      properties: {},
-      required: []
-    }
-  }
-];
+// tools/call and prompts/get both name what to run and pass its arguments
+const namedCallSchema = z.object({
+  name: z.string().min(1),
+  arguments: z.record(z.unknown()).optional(),
+});
 
 export class MCPProtocolHandler {
   private rpcMethods: Record<string, any>;
+  private tools: MCPTool[];
+  private methodsByTool: Map<string, string>;
+  private resources: MCPResourceProvider;
+  private prompts: MCPPromptProvider;
+  private subscriptions: MatchupSubscriptionManager;
 
   constructor() {
     this.rpcMethods = createRPCMethods();
+
+    // Tools are generated from the RPC method schemas so they never drift
+    const { tools, methodsByTool } = createMCPTools(createRPCSchemas());
+    this.tools = tools;
+    this.methodsByTool = methodsByTool;
+
+    this.resources = new MCPResourceProvider();
+    this.prompts = new MCPPromptProvider(this.rpcMethods);
+    this.subscriptions = new MatchupSubscriptionManager();
   }
 
-  async handleMCPRequest(req: Request, res: Response): Promise<void> {
-    try {
-      const mcpRequest: MCPRequest = req.body;
-      
-      logger.info(`MCP request: ${mcpRequest.method}`, {
-        id: mcpRequest.id,
-        method: mcpRequest.method,
-        params: mcpRequest.params
-      });
+  /**
+   * Release per-session state once a transport session ends
+   */
+  closeSession(sessionId: string): void {
+    this.subscriptions.unsubscribeAll(sessionId);
+  }
 
-      let response: MCPResponse;
-
-      switch (mcpRequest.method) {
-        case 'initialize':
-          response = await this.handleInitialize(mcpRequest);
-          break;
-        
-        case 'tools/list':
-          response = this.handleToolsList(mcpRequest);
-          break;
-          
-        case 'tools/call':
-          response = await this.handleToolCall(mcpRequest);
-          break;
-          
-        default:
-          response = {
-            jsonrpc: '2.0',
-            id: mcpRequest.id,
-            error: {
-              code: -32601,
-              message: `Method '${mcpRequest.method}' not found`
-            }
-          };
-      }
+  close(): void {
+    this.subscriptions.close();
+  }
 
-      res.json(response);
-    } catch (error) {
-      logger.error('MCP request error:', error);
-      res.status(500).json({
-        jsonrpc: '2.0',
-        id: req.body?.id,
-        error: {
-          code: -32603,
-          message: 'Internal error',
-          data: (error as Error).message
-        }
-      });
+  /**
+   * Handle a single MCP message independently of the transport.
+   * Returns null for notifications, which must never be answered.
+   */
+  async handleMessage(
+    mcpRequest: MCPRequest,
+    context: MCPRequestContext = {}
+  ): Promise<MCPResponse | null> {
+    logger.info(`MCP request: ${mcpRequest.method}`, {
+      id: mcpRequest.id,
+      sessionId: context.sessionId,
+      method: mcpRequest.method,
+      params: mcpRequest.params
+    });
+
+    if (mcpRequest.method.startsWith('notifications/')) {
+      return null;
+    }
+
+    switch (mcpRequest.method) {
+      case 'initialize':
+        return this.handleInitialize(mcpRequest);
+
+      case 'ping':
+        return { jsonrpc: '2.0', id: mcpRequest.id, result: {} };
+
+      case 'tools/list':
+        return this.handleToolsList(mcpRequest);
+
+      case 'tools/call':
+        return this.handleToolCall(mcpRequest, context);
+
+      case 'resources/list':
+        return {
+          jsonrpc: '2.0',
+          id: mcpRequest.id,
+          result: { resources: this.resources.listResources() }
+        };
+
+      case 'resources/templates/list':
+        return {
+          jsonrpc: '2.0',
+          id: mcpRequest.id,
+          result: { resourceTemplates: this.resources.listResourceTemplates() }
+        };
+
+      case 'resources/read':
+        return this.handleResourceRead(mcpRequest);
+
+      case 'resources/subscribe':
+        return this.handleResourceSubscribe(mcpRequest, context);
+
+      case 'resources/unsubscribe':
+        return this.handleResourceUnsubscribe(mcpRequest, context);
+
+      case 'prompts/list':
+        return {
+          jsonrpc: '2.0',
+          id: mcpRequest.id,
+          result: { prompts: this.prompts.listPrompts() }
+        };
+
+      case 'prompts/get':
+        return this.handlePromptGet(mcpRequest);
+
+      default:
+        return {
+          jsonrpc: '2.0',
+          id: mcpRequest.id,
+          error: {
+            code: -32601,
+            message: `Method '${mcpRequest.method}' not found`
+          }
+        };
     }
   }
 
@@ -237,7 +206,9 @@ export class MCPProtocolHandler {
       },
       capabilities: {
         tools: {},
-        resources: {},
+        resources: {
+          subscribe: true
+        },
         prompts: {},
         logging: {}
       }
@@ -260,55 +231,27 @@ export class MCPProtocolHandler {
       jsonrpc: '2.0', 
       id: request.id,
       result: {
-        tools: MCP_TOOLS
+        tools: this.tools
       }
     };
   }
 
-  private async handleToolCall(request: MCPRequest): Promise<MCPResponse> {
-    const { name, arguments: args } = request.params;
-    
+  private async handleToolCall(
+    request: MCPRequest,
+    context: MCPRequestContext
+  ): Promise<MCPResponse> {
     try {
-      let result: any;
-      
-      // Map MCP tool calls to RPC methods
-      switch (name) {
-        case 'get_player':
-          result = await this.rpcMethods['sleeper.getPlayer']([args.player_id], {});
-          break;
-          
-        case 'search_players':
-          result = await this.rpcMethods['sleeper.searchPlayers']([args.query], {});
-          break;
-          
-        case 'get_player_analytics':
-          result = await this.rpcMethods['sleeper.getPlayerAnalytics']([args.player_id], {});
-          break;
-          
-        case 'compare_players':
-          result = await this.rpcMethods['sleeper.comparePlayersHQ'](args.player_ids, {});
-          break;
-          
-        case 'get_trending_players':
-          result = await this.rpcMethods['sleeper.getTrendingPlayers']([args.type || 'add'], {});
-          break;
-          
-        case 'get_league_info':
-          result = await this.rpcMethods['sleeper.getLeague']([args.league_id], {});
-          break;
-          
-        case 'get_league_rosters':
-          result = await this.rpcMethods['sleeper.getLeagueRosters']([args.league_id], {});
-          break;
-          
-        case 'get_nfl_state':
-          result = await this.rpcMethods['sleeper.getNFLState']([], {});
-          break;
-          
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      const { name, arguments: args } = validateParams(request.params, namedCallSchema);
+      const method = this.methodsByTool.get(name);
+      if (!method) {
+        throw new Error(`Unknown tool: ${name}`);
       }
 
+      // Map MCP tool calls to RPC methods (tool arguments are the named params)
+      const result = await this.rpcMethods[method](args || {}, {
+        onProgress: this.createProgressReporter(request, context)
+      });
+
       return {
         jsonrpc: '2.0',
         id: request.id,
@@ -327,9 +270,171 @@ export class MCPProtocolHandler {
         id: request.id,
         error: {
           code: -32602,
-          message: `Tool execution failed: ${(error as Error).message}`
+          message: `Tool execution failed: ${(error as Error).message}`,
+          ...(error instanceof JsonRpcError && error.data && { data: error.data })
         }
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Progress is only reported when the client asked for it with a progress token
+   */
+  private createProgressReporter(
+    request: MCPRequest,
+    context: MCPRequestContext
+  ): ProgressReporter | undefined {
+    const progressToken = request.params?._meta?.progressToken;
+    const notify = context.notify;
+    if (progressToken === undefined || !notify) {
+      return undefined;
+    }
+
+    return (progress, total, message) => {
+      notify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message }
+      });
+    };
+  }
+
+  private async handleResourceRead(request: MCPRequest): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+
+    if (typeof uri !== 'string' || uri.length === 0) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message: 'uri is required' }
+      };
+    }
+
+    try {
+      const contents = await this.resources.readResource(uri);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result: { contents }
+      };
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: error.toJSON()
+        };
+      }
+
+      logger.error(`MCP resource read failed: ${uri}`, error);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32603,
+          message: `Resource read failed: ${(error as Error).message}`
+        }
+      };
+    }
+  }
+
+  private handleResourceSubscribe(request: MCPRequest, context: MCPRequestContext): MCPResponse {
+    const uri = request.params?.uri;
+    const { sessionId, notifySession } = context;
+
+    if (typeof uri !== 'string' || uri.length === 0) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message: 'uri is required' }
+      };
+    }
+
+    if (!sessionId || !notifySession) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32600, message: 'Resource subscriptions require a session' }
+      };
+    }
+
+    try {
+      this.subscriptions.subscribe(sessionId, uri, (updatedUri) => {
+        notifySession({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri: updatedUri }
+        });
+      });
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: error.toJSON()
+        };
+      }
+      throw error;
+    }
+
+    return { jsonrpc: '2.0', id: request.id, result: {} };
+  }
+
+  private handleResourceUnsubscribe(request: MCPRequest, context: MCPRequestContext): MCPResponse {
+    const uri = request.params?.uri;
+
+    if (typeof uri !== 'string' || uri.length === 0) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message: 'uri is required' }
+      };
+    }
+
+    if (context.sessionId) {
+      this.subscriptions.unsubscribe(context.sessionId, uri);
+    }
+
+    return { jsonrpc: '2.0', id: request.id, result: {} };
+  }
+
+  private async handlePromptGet(request: MCPRequest): Promise<MCPResponse> {
+    const params = namedCallSchema.safeParse(request.params);
+
+    if (!params.success) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32602, message: 'name is required and arguments must be an object' }
+      };
+    }
+    const { name, arguments: args } = params.data;
+
+    try {
+      const result = await this.prompts.getPrompt(name, args);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        result
+      };
+    } catch (error) {
+      if (error instanceof JsonRpcError) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: error.toJSON()
+        };
+      }
+
+      logger.error(`MCP prompt failed: ${name}`, error);
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32603,
+          message: `Prompt failed: ${(error as Error).message}`
+        }
+      };
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import { MCPResourceProvider } from './resources';
+import { sleeperAPI } from '../api/client';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+const mockGetMatchups = jest.fn();
+
+// Mock the API client
+jest.mock('../api/client', () => ({
+  sleeperAPI: {
+    getNFLState: jest.fn(),
+    getLeague: jest.fn(),
+    getRosters: jest.fn(),
+    getUsers: jest.fn(),
+    getMatchups: (...args: unknown[]): unknown => mockGetMatchups(...args),
+    getTransactions: jest.fn(),
+    getAllPlayers: jest.fn(),
+    getDraft: jest.fn(),
+    getDraftPicks: jest.fn(),
+  },
+}));
+
+describe('MCPResourceProvider', () => {
+  let provider: MCPResourceProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new MCPResourceProvider();
+  });
+
+  it('should separate static resources from templates', () => {
+    expect(provider.listResources().map((r) => r.uri)).toEqual(['sleeper://nfl/state']);
+    expect(provider.listResourceTemplates().map((t) => t.uriTemplate)).toEqual(
+      expect.arrayContaining([
+        'sleeper://league/{leagueId}',
+        'sleeper://league/{leagueId}/rosters',
+        'sleeper://league/{leagueId}/matchups/{week}',
+        'sleeper://player/{playerId}',
+      ])
+    );
+  });
+
+  it('should match URIs to the most specific template', () => {
+    expect(provider.match('sleeper://league/123')?.params).toEqual({ leagueId: '123' });
+    expect(provider.match('sleeper://league/123/matchups/5')?.definition.uriTemplate).toBe(
+      'sleeper://league/{leagueId}/matchups/{week}'
+    );
+    expect(provider.match('sleeper://league/123/unknown')).toBeNull();
+  });
+
+  it('should read league matchups as JSON text', async () => {
+    const matchups = [{ roster_id: 1, matchup_id: 1, points: 101.5 }];
+    mockGetMatchups.mockResolvedValue(matchups);
+
+    const contents = await provider.readResource('sleeper://league/123/matchups/5');
+
+    expect(mockGetMatchups).toHaveBeenCalledWith('123', 5);
+    expect(contents).toEqual([
+      {
+        uri: 'sleeper://league/123/matchups/5',
+        mimeType: 'application/json',
+        text: JSON.stringify(matchups, null, 2),
+      },
+    ]);
+  });
+
+  it('should read a single player from the players payload', async () => {
+    (sleeperAPI.getAllPlayers as jest.Mock).mockResolvedValue({
+      '4046': { player_id: '4046', full_name: 'Patrick Mahomes' },
+    });
+
+    const [contents] = await provider.readResource('sleeper://player/4046');
+
+    expect(JSON.parse(contents.text)).toEqual({ player_id: '4046', full_name: 'Patrick Mahomes' });
+    await expect(provider.readResource('sleeper://player/0000')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should validate the week parameter', async () => {
+    await expect(provider.readResource('sleeper://league/123/matchups/25')).rejects.toThrow(
+      ValidationError
+    );
+    expect(mockGetMatchups).not.toHaveBeenCalled();
+  });
+
+  it('should report unknown URIs and empty API responses as not found', async () => {
+    (sleeperAPI.getLeague as jest.Mock).mockResolvedValue(null);
+
+    await expect(provider.readResource('sleeper://team/1')).rejects.toThrow(NotFoundError);
+    await expect(provider.readResource('sleeper://league/999')).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,214 @@
+import axios from 'axios';
+import { sleeperAPI } from '../api/client';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { SleeperPlayer } from '../types/sleeper';
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+interface ResourceDefinition extends MCPResourceTemplate {
+  read: (params: Record<string, string>) => Promise<unknown>;
+}
+
+interface ResourceMatch {
+  definition: ResourceDefinition;
+  params: Record<string, string>;
+}
+
+const JSON_MIME_TYPE = 'application/json';
+
+function parseWeek(value: string): number {
+  const week = Number(value);
+  if (!Number.isInteger(week) || week < 1 || week > 18) {
+    throw new ValidationError('Invalid parameters', [
+      { path: 'week', message: 'Week must be an integer between 1 and 18' },
+    ]);
+  }
+  return week;
+}
+
+// Resource URI templates backed by the Sleeper API
+const RESOURCE_DEFINITIONS: ResourceDefinition[] = [
+  {
+    uriTemplate: 'sleeper://nfl/state',
+    name: 'NFL state',
+    description: 'Current NFL season, week and season type',
+    mimeType: JSON_MIME_TYPE,
+    read: () => sleeperAPI.getNFLState(),
+  },
+  {
+    uriTemplate: 'sleeper://league/{leagueId}',
+    name: 'League',
+    description: 'League settings, scoring settings and roster positions',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ leagueId }) => sleeperAPI.getLeague(leagueId),
+  },
+  {
+    uriTemplate: 'sleeper://league/{leagueId}/rosters',
+    name: 'League rosters',
+    description: 'All rosters in a league with players, starters and records',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ leagueId }) => sleeperAPI.getRosters(leagueId),
+  },
+  {
+    uriTemplate: 'sleeper://league/{leagueId}/users',
+    name: 'League users',
+    description: 'All users in a league with display and team names',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ leagueId }) => sleeperAPI.getUsers(leagueId),
+  },
+  {
+    uriTemplate: 'sleeper://league/{leagueId}/matchups/{week}',
+    name: 'League matchups',
+    description: 'Matchups and scores for a league week (1-18)',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ leagueId, week }) => sleeperAPI.getMatchups(leagueId, parseWeek(week)),
+  },
+  {
+    uriTemplate: 'sleeper://league/{leagueId}/transactions/{week}',
+    name: 'League transactions',
+    description: 'Trades, waivers and free agent moves for a league week (1-18)',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ leagueId, week }) => sleeperAPI.getTransactions(leagueId, parseWeek(week)),
+  },
+  {
+    uriTemplate: 'sleeper://player/{playerId}',
+    name: 'Player',
+    description: 'NFL player details including team, position and injury status',
+    mimeType: JSON_MIME_TYPE,
+    read: async ({ playerId }) => {
+      const players = (await sleeperAPI.getAllPlayers('nfl')) as Record<string, SleeperPlayer>;
+      const player = players[playerId];
+      if (!player) {
+        throw new NotFoundError(`Player ${playerId}`);
+      }
+      return player;
+    },
+  },
+  {
+    uriTemplate: 'sleeper://draft/{draftId}',
+    name: 'Draft',
+    description: 'Draft settings, order and status',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ draftId }) => sleeperAPI.getDraft(draftId),
+  },
+  {
+    uriTemplate: 'sleeper://draft/{draftId}/picks',
+    name: 'Draft picks',
+    description: 'All picks made in a draft',
+    mimeType: JSON_MIME_TYPE,
+    read: ({ draftId }) => sleeperAPI.getDraftPicks(draftId),
+  },
+];
+
+export class MCPResourceProvider {
+  private matchers: Array<{ definition: ResourceDefinition; pattern: RegExp; keys: string[] }>;
+
+  constructor(private definitions: ResourceDefinition[] = RESOURCE_DEFINITIONS) {
+    this.matchers = this.definitions.map((definition) => {
+      const keys: string[] = [];
+      const source = definition.uriTemplate
+        .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+        .replace(/\{(\w+)\}/g, (_match, key: string) => {
+          keys.push(key);
+          return '([^/]+)';
+        });
+      return { definition, pattern: new RegExp(`^${source}$`), keys };
+    });
+  }
+
+  /**
+   * Concrete resources that need no parameters
+   */
+  listResources(): MCPResource[] {
+    return this.definitions
+      .filter((definition) => !definition.uriTemplate.includes('{'))
+      .map(({ uriTemplate, name, description, mimeType }) => ({
+        uri: uriTemplate,
+        name,
+        description,
+        mimeType,
+      }));
+  }
+
+  /**
+   * Parameterized resources (RFC 6570 level 1 templates)
+   */
+  listResourceTemplates(): MCPResourceTemplate[] {
+    return this.definitions
+      .filter((definition) => definition.uriTemplate.includes('{'))
+      .map(({ uriTemplate, name, description, mimeType }) => ({
+        uriTemplate,
+        name,
+        description,
+        mimeType,
+      }));
+  }
+
+  /**
+   * Match a URI against the known templates
+   */
+  match(uri: string): ResourceMatch | null {
+    for (const { definition, pattern, keys } of this.matchers) {
+      const result = pattern.exec(uri);
+      if (result) {
+        const params: Record<string, string> = {};
+        keys.forEach((key, index) => {
+          params[key] = decodeURIComponent(result[index + 1]);
+        });
+        return { definition, params };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read a resource by URI
+   */
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    const matched = this.match(uri);
+    if (!matched) {
+      throw new NotFoundError(`Resource ${uri}`);
+    }
+
+    let data: unknown;
+    try {
+      data = await matched.definition.read(matched.params);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        throw new NotFoundError(`Resource ${uri}`);
+      }
+      throw error;
+    }
+
+    // Sleeper returns null for unknown league/draft IDs
+    if (data === null || data === undefined) {
+      throw new NotFoundError(`Resource ${uri}`);
+    }
+
+    return [
+      {
+        uri,
+        mimeType: matched.definition.mimeType || JSON_MIME_TYPE,
+        text: JSON.stringify(data, null, 2),
+      },
+    ];
+  }
+}
@@ -0,0 +1,78 @@
+import { PassThrough } from 'stream';
+import { StdioTransport } from './stdio';
+import { MCPProtocolHandler } from './protocol';
+
+describe('StdioTransport', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let handler: { handleMessage: jest.Mock; closeSession: jest.Mock };
+  let transport: StdioTransport;
+
+  const readMessages = (): any[] =>
+    (output.read() || '')
+      .toString()
+      .split('\n')
+      .filter((line: string) => line.length > 0)
+      .map((line: string) => JSON.parse(line));
+
+  beforeEach(() => {
+    input = new PassThrough();
+    output = new PassThrough();
+    handler = { handleMessage: jest.fn(), closeSession: jest.fn() };
+    transport = new StdioTransport(handler as unknown as MCPProtocolHandler, input, output);
+  });
+
+  it('should answer newline-delimited requests on the output stream', async () => {
+    handler.handleMessage.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: { tools: [] } });
+
+    const done = transport.start();
+    input.end('{"jsonrpc":"2.0","id":1,"method":"tools/list"}\n');
+    await done;
+
+    expect(handler.handleMessage).toHaveBeenCalledWith(
+      { jsonrpc: '2.0', id: 1, method: 'tools/list' },
+      {
+        sessionId: expect.any(String),
+        notify: expect.any(Function),
+        notifySession: expect.any(Function),
+      }
+    );
+    expect(handler.closeSession).toHaveBeenCalledWith(
+      handler.handleMessage.mock.calls[0][1].sessionId
+    );
+    expect(readMessages()).toEqual([{ jsonrpc: '2.0', id: 1, result: { tools: [] } }]);
+  });
+
+  it('should not write anything for notifications', async () => {
+    handler.handleMessage.mockResolvedValue(null);
+
+    const done = transport.start();
+    input.end('{"jsonrpc":"2.0","method":"notifications/initialized"}\n');
+    await done;
+
+    expect(readMessages()).toEqual([]);
+  });
+
+  it('should return a parse error for invalid JSON', async () => {
+    const done = transport.start();
+    input.end('not json\n');
+    await done;
+
+    const [response] = readMessages();
+    expect(response.id).toBeNull();
+    expect(response.error.code).toBe(-32700);
+    expect(handler.handleMessage).not.toHaveBeenCalled();
+  });
+
+  it('should return an internal error when the handler throws', async () => {
+    handler.handleMessage.mockRejectedValue(new Error('boom'));
+
+    const done = transport.start();
+    input.end('{"jsonrpc":"2.0","id":"a","method":"tools/call"}\n');
+    await done;
+
+    expect(readMessages()).toEqual([
+      { jsonrpc: '2.0', id: 'a', error: { code: -32603, message: 'Internal error', data: 'boom' } },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { randomUUID } from 'crypto';
+import { createInterface, Interface } from 'readline';
+import { Readable, Writable } from 'stream';
+import { logger } from '../utils/logger';
+import { MCPNotification, MCPProtocolHandler, MCPRequest, MCPResponse } from './protocol';
+
+/**
+ * MCP stdio transport: newline-delimited JSON-RPC messages on stdin/stdout.
+ * stdout is reserved for protocol messages, so nothing else may write to it.
+ */
+export class StdioTransport {
+  private readline: Interface | null = null;
+  private pending = new Set<Promise<void>>();
+  // A stdio connection is a single session for its whole lifetime
+  private readonly sessionId = randomUUID();
+
+  constructor(
+    private handler: MCPProtocolHandler,
+    private input: Readable = process.stdin,
+    private output: Writable = process.stdout
+  ) {}
+
+  /**
+   * Start reading messages. Resolves once the input stream closes and all
+   * in-flight requests have been answered.
+   */
+  start(): Promise<void> {
+    this.readline = createInterface({ input: this.input, crlfDelay: Infinity });
+
+    this.readline.on('line', (line) => {
+      if (line.trim() === '') {
+        return;
+      }
+
+      const task = this.handleLine(line).finally(() => this.pending.delete(task));
+      this.pending.add(task);
+    });
+
+    return new Promise((resolve) => {
+      this.readline?.once('close', () => {
+        void Promise.all(this.pending).then(() => {
+          this.handler.closeSession(this.sessionId);
+          resolve();
+        });
+      });
+    });
+  }
+
+  close(): void {
+    this.readline?.close();
+    this.readline = null;
+  }
+
+  /**
+   * Send a message (response or server notification) to the client
+   */
+  send(message: MCPResponse | MCPNotification): void {
+    this.output.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    let message: MCPRequest;
+
+    try {
+      message = JSON.parse(line) as MCPRequest;
+    } catch (error) {
+      logger.warn('Invalid JSON received on stdio transport');
+      this.send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error', data: (error as Error).message },
+      });
+      return;
+    }
+
+    if (!message || typeof message.method !== 'string') {
+      this.send({
+        jsonrpc: '2.0',
+        id: message?.id ?? null,
+        error: { code: -32600, message: 'Invalid Request' },
+      });
+      return;
+    }
+
+    try {
+      const response = await this.handler.handleMessage(message, {
+        sessionId: this.sessionId,
+        notify: (notification) => this.send(notification),
+        notifySession: (notification) => this.send(notification),
+      });
+      if (response) {
+        this.send(response);
+      }
+    } catch (error) {
+      logger.error('MCP stdio request error:', error);
+      this.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: -32603, message: 'Internal error', data: (error as Error).message },
+      });
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { MatchupSubscriptionManager } from './subscriptions';
+import { ValidationError } from '../utils/errors';
+
+const mockGetMatchups = jest.fn();
+const mockInvalidateMatchups = jest.fn();
+
+jest.mock('../api/client', () => ({
+  sleeperAPI: {
+    getMatchups: (...args: unknown[]): unknown => mockGetMatchups(...args),
+    invalidateMatchups: (...args: unknown[]): unknown => mockInvalidateMatchups(...args),
+  },
+}));
+
+jest.mock('../cache/smart-ttl', () => ({
+  smartTTLManager: {
+    getContextualTTL: jest.fn().mockResolvedValue(30),
+  },
+}));
+
+describe('MatchupSubscriptionManager', () => {
+  const uri = 'sleeper://league/123/matchups/5';
+  let manager: MatchupSubscriptionManager;
+
+  const matchups = (points: number) => [
+    { roster_id: 2, matchup_id: 1, points: 80, players_points: { '4034': 20 } },
+    { roster_id: 1, matchup_id: 1, points, players_points: { '4046': points } },
+  ];
+
+  // Let the pending poll resolve, then advance to the next one
+  const nextPoll = async () => {
+    await jest.advanceTimersByTimeAsync(30 * 1000);
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    manager = new MatchupSubscriptionManager();
+  });
+
+  afterEach(() => {
+    manager.close();
+    jest.useRealTimers();
+  });
+
+  it('should notify subscribers when scores change', async () => {
+    const listener = jest.fn();
+    mockGetMatchups
+      .mockResolvedValueOnce(matchups(10))
+      .mockResolvedValueOnce(matchups(10))
+      .mockResolvedValueOnce(matchups(16.5));
+
+    manager.subscribe('session-a', uri, listener);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(mockInvalidateMatchups).toHaveBeenCalledWith('123', 5);
+    expect(mockGetMatchups).toHaveBeenCalledWith('123', 5);
+
+    await nextPoll();
+    expect(listener).not.toHaveBeenCalled();
+
+    await nextPoll();
+    expect(listener).toHaveBeenCalledWith(uri);
+  });
+
+  it('should poll each URI once for all subscribers', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    mockGetMatchups.mockResolvedValueOnce(matchups(10)).mockResolvedValueOnce(matchups(12));
+
+    manager.subscribe('session-a', uri, first);
+    manager.subscribe('session-b', uri, second);
+    await jest.advanceTimersByTimeAsync(0);
+    await nextPoll();
+
+    expect(mockGetMatchups).toHaveBeenCalledTimes(2);
+    expect(manager.watchCount).toBe(1);
+    expect(first).toHaveBeenCalledWith(uri);
+    expect(second).toHaveBeenCalledWith(uri);
+  });
+
+  it('should stop polling once the last subscriber leaves', async () => {
+    mockGetMatchups.mockResolvedValue(matchups(10));
+
+    manager.subscribe('session-a', uri, jest.fn());
+    manager.subscribe('session-b', uri, jest.fn());
+    await jest.advanceTimersByTimeAsync(0);
+
+    manager.unsubscribe('session-a', uri);
+    expect(manager.watchCount).toBe(1);
+
+    manager.unsubscribeAll('session-b');
+    expect(manager.watchCount).toBe(0);
+
+    await nextPoll();
+    expect(mockGetMatchups).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only accept matchup URIs', () => {
+    expect(() => manager.subscribe('a', 'sleeper://league/123', jest.fn())).toThrow(
+      ValidationError
+    );
+    expect(() => manager.subscribe('a', 'sleeper://league/123/matchups/19', jest.fn())).toThrow(
+      ValidationError
+    );
+    expect(manager.watchCount).toBe(0);
+  });
+});
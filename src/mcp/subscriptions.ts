@@ -0,0 +1,153 @@
+import { sleeperAPI } from '../api/client';
+import { smartTTLManager } from '../cache/smart-ttl';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { SleeperMatchup } from '../types/sleeper';
+
+export type ResourceUpdateListener = (uri: string) => void;
+
+interface MatchupWatch {
+  uri: string;
+  leagueId: string;
+  week: number;
+  listeners: Map<string, ResourceUpdateListener>;
+  fingerprint: string | null;
+  timer: NodeJS.Timeout | null;
+}
+
+const MATCHUP_URI = /^sleeper:\/\/league\/([^/]+)\/matchups\/(\d+)$/;
+
+function parseMatchupUri(uri: string): { leagueId: string; week: number } {
+  const match = MATCHUP_URI.exec(uri);
+  const week = match ? Number(match[2]) : NaN;
+
+  if (!match || week < 1 || week > 18) {
+    throw new ValidationError('Invalid parameters', [
+      {
+        path: 'uri',
+        message:
+          'Only sleeper://league/{leagueId}/matchups/{week} (week 1-18) can be subscribed to',
+      },
+    ]);
+  }
+
+  return { leagueId: decodeURIComponent(match[1]), week };
+}
+
+/**
+ * Only scores matter for change detection; lineup edits alone are not pushed
+ */
+function scoreFingerprint(matchups: SleeperMatchup[]): string {
+  return JSON.stringify(
+    [...matchups]
+      .sort((a, b) => a.roster_id - b.roster_id)
+      .map((m) => [m.roster_id, m.points, m.players_points ?? null])
+  );
+}
+
+/**
+ * Polls subscribed matchup resources and notifies subscribers when scores change.
+ * Each URI is polled once no matter how many sessions subscribe to it, on the
+ * SmartTTLManager matchup cadence (every 30 seconds for the current week during games).
+ * Every poll skips the matchup cache, so a score change is pushed at most one
+ * poll interval after Sleeper reports it.
+ */
+export class MatchupSubscriptionManager {
+  private watches = new Map<string, MatchupWatch>();
+
+  subscribe(subscriberId: string, uri: string, listener: ResourceUpdateListener): void {
+    const { leagueId, week } = parseMatchupUri(uri);
+
+    let watch = this.watches.get(uri);
+    if (!watch) {
+      watch = { uri, leagueId, week, listeners: new Map(), fingerprint: null, timer: null };
+      this.watches.set(uri, watch);
+      logger.info(`Started matchup polling for ${uri}`);
+      void this.poll(watch);
+    }
+
+    watch.listeners.set(subscriberId, listener);
+  }
+
+  unsubscribe(subscriberId: string, uri: string): void {
+    const watch = this.watches.get(uri);
+    if (!watch) {
+      return;
+    }
+
+    watch.listeners.delete(subscriberId);
+    if (watch.listeners.size === 0) {
+      this.stop(watch);
+    }
+  }
+
+  /**
+   * Drop every subscription of a subscriber (e.g. when its session ends)
+   */
+  unsubscribeAll(subscriberId: string): void {
+    for (const watch of [...this.watches.values()]) {
+      this.unsubscribe(subscriberId, watch.uri);
+    }
+  }
+
+  get watchCount(): number {
+    return this.watches.size;
+  }
+
+  close(): void {
+    for (const watch of [...this.watches.values()]) {
+      this.stop(watch);
+    }
+  }
+
+  private stop(watch: MatchupWatch): void {
+    if (watch.timer) {
+      clearTimeout(watch.timer);
+    }
+    this.watches.delete(watch.uri);
+    logger.info(`Stopped matchup polling for ${watch.uri}`);
+  }
+
+  private isActive(watch: MatchupWatch): boolean {
+    return this.watches.get(watch.uri) === watch;
+  }
+
+  private async poll(watch: MatchupWatch): Promise<void> {
+    try {
+      await sleeperAPI.invalidateMatchups(watch.leagueId, watch.week);
+      const matchups = (await sleeperAPI.getMatchups(watch.leagueId, watch.week)) as
+        | SleeperMatchup[]
+        | null;
+      const fingerprint = scoreFingerprint(matchups || []);
+
+      // The first poll only records a baseline
+      if (watch.fingerprint !== null && fingerprint !== watch.fingerprint && this.isActive(watch)) {
+        logger.debug(`Matchup scores changed for ${watch.uri}`);
+        for (const listener of watch.listeners.values()) {
+          try {
+            listener(watch.uri);
+          } catch (error) {
+            logger.warn(`Resource update listener failed for ${watch.uri}:`, error);
+          }
+        }
+      }
+      watch.fingerprint = fingerprint;
+    } catch (error) {
+      logger.warn(`Matchup poll failed for ${watch.uri}:`, error);
+    }
+
+    if (!this.isActive(watch)) {
+      return;
+    }
+
+    const ttl = await smartTTLManager.getContextualTTL('matchup', {
+      leagueId: watch.leagueId,
+      week: watch.week,
+    });
+
+    if (this.isActive(watch)) {
+      watch.timer = setTimeout(() => void this.poll(watch), ttl * 1000);
+      watch.timer.unref();
+    }
+  }
+}
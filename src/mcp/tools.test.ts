@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { createMCPTools, toToolName, zodToJsonSchema } from './tools';
+import { leagueSchemas } from '../rpc/methods/league';
+import { playerSchemas } from '../rpc/methods/player';
+import { stateSchemas } from '../rpc/methods/state';
+
+describe('MCP tool generation', () => {
+  describe('toToolName', () => {
+    it('should convert RPC method names to snake_case tool names', () => {
+      expect(toToolName('sleeper.getMatchups')).toBe('get_matchups');
+      expect(toToolName('sleeper.getNFLState')).toBe('get_nfl_state');
+      expect(toToolName('sleeper.comparePlayersHQ')).toBe('compare_players_hq');
+      expect(toToolName('sleeper.getLeaguesForUser')).toBe('get_leagues_for_user');
+    });
+  });
+
+  describe('zodToJsonSchema', () => {
+    it('should convert objects with required, optional and default fields', () => {
+      const schema = z.object({
+        leagueId: z.string().min(1).describe('League ID'),
+        week: z.number().int().min(1).max(18).optional(),
+        type: z.enum(['add', 'drop']).default('add'),
+        ids: z.array(z.string()).min(2),
+      });
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        type: 'object',
+        properties: {
+          leagueId: { type: 'string', minLength: 1, description: 'League ID' },
+          week: { type: 'integer', minimum: 1, maximum: 18 },
+          type: { type: 'string', enum: ['add', 'drop'], default: 'add' },
+          ids: { type: 'array', items: { type: 'string' }, minItems: 2 },
+        },
+        required: ['leagueId', 'ids'],
+      });
+    });
+
+    it('should keep regex patterns', () => {
+      const schema = z.string().regex(/^\d{4}$/);
+      expect(zodToJsonSchema(schema)).toEqual({ type: 'string', pattern: '^\\d{4}$' });
+    });
+  });
+
+  describe('createMCPTools', () => {
+    const { tools, methodsByTool } = createMCPTools({
+      ...leagueSchemas,
+      ...playerSchemas,
+      ...stateSchemas,
+    });
+
+    it('should expose every method as a tool', () => {
+      expect(tools.map((tool) => tool.name)).toEqual(
+        expect.arrayContaining([
+          'get_matchups',
+          'get_transactions',
+          'get_winners_bracket',
+          'get_trending_players',
+          'get_nfl_state',
+        ])
+      );
+      expect(methodsByTool.get('get_matchups')).toBe('sleeper.getMatchups');
+    });
+
+    it('should generate input schemas from the method schemas', () => {
+      const matchups = tools.find((tool) => tool.name === 'get_matchups');
+
+      expect(matchups?.description).toBe('Get matchups for a specific week');
+      expect(matchups?.inputSchema.required).toEqual(['leagueId', 'week']);
+      expect(matchups?.inputSchema.properties?.week).toMatchObject({
+        type: 'integer',
+        minimum: 1,
+        maximum: 18,
+      });
+    });
+
+    it('should produce an object schema for methods without params', () => {
+      const state = tools.find((tool) => tool.name === 'get_nfl_state');
+      expect(state?.inputSchema).toEqual({ type: 'object', properties: {} });
+    });
+  });
+});
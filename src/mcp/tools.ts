@@ -0,0 +1,177 @@
+import { z } from 'zod';
+
+// JSON Schema subset used for MCP tool input schemas
+export interface JSONSchema {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: (string | number | boolean)[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  pattern?: string;
+  additionalProperties?: JSONSchema | boolean;
+}
+
+export interface MCPTool {
+  name: string;
+  description: string;
+  inputSchema: JSONSchema;
+}
+
+/**
+ * Convert an RPC method name to an MCP tool name.
+ * e.g. sleeper.getNFLState -> get_nfl_state
+ */
+export function toToolName(method: string): string {
+  const name = method.replace(/^sleeper\./, '');
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Convert a zod schema to JSON Schema.
+ * Only the zod types used by the RPC method schemas are supported; anything
+ * else falls back to an unconstrained schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JSONSchema {
+  const result = convert(schema);
+  if (schema.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convert(schema: z.ZodTypeAny): JSONSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return zodToJsonSchema(schema.unwrap() as z.ZodTypeAny);
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return {
+      ...zodToJsonSchema(schema.removeDefault() as z.ZodTypeAny),
+      default: schema._def.defaultValue() as unknown,
+    };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType() as z.ZodTypeAny);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const properties: Record<string, JSONSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const json: JSONSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') {
+        json.minLength = check.value;
+      } else if (check.kind === 'max') {
+        json.maxLength = check.value;
+      } else if (check.kind === 'regex') {
+        json.pattern = check.regex.source;
+      }
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const json: JSONSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') {
+        json.type = 'integer';
+      } else if (check.kind === 'min') {
+        json.minimum = check.value;
+      } else if (check.kind === 'max') {
+        json.maximum = check.value;
+      }
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...(schema.options as string[])] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value as string | number | boolean;
+    return { type: typeof value, enum: [value] };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const json: JSONSchema = {
+      type: 'array',
+      items: zodToJsonSchema(schema.element as z.ZodTypeAny),
+    };
+    if (schema._def.minLength) {
+      json.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      json.maxItems = schema._def.maxLength.value;
+    }
+    return json;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return {
+      type: 'object',
+      additionalProperties: zodToJsonSchema(schema.valueSchema as z.ZodTypeAny),
+    };
+  }
+
+  return {};
+}
+
+/**
+ * Build the MCP tool list from RPC method schemas.
+ * Returns the tools together with a tool name -> RPC method lookup.
+ */
+export function createMCPTools(schemas: Record<string, z.ZodTypeAny>): {
+  tools: MCPTool[];
+  methodsByTool: Map<string, string>;
+} {
+  const tools: MCPTool[] = [];
+  const methodsByTool = new Map<string, string>();
+
+  for (const [method, schema] of Object.entries(schemas)) {
+    const name = toToolName(method);
+    const { description, ...inputSchema } = zodToJsonSchema(schema);
+
+    tools.push({
+      name,
+      description: description || `Call ${method}`,
+      inputSchema: { type: 'object', properties: {}, ...inputSchema },
+    });
+    methodsByTool.set(name, method);
+  }
+
+  return { tools, methodsByTool };
+}
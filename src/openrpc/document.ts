@@ -307,6 +307,70 @@ export const openRPCDocument = {
         schema: { type: 'array', items: { type: 'object' } },
       },
     },
+    {
+      name: 'sleeper.searchPlayers',
+      description: 'Search players by name with typo-tolerant matching',
+      params: [
+        {
+          name: 'query',
+          description: 'Player name, last name or nickname',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'position',
+          description: 'Position filter (e.g., QB, RB, WR, TE, K, DEF)',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'team',
+          description: 'NFL team abbreviation filter (e.g., KC)',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'active',
+          description: 'Only active (true) or inactive (false) players',
+          required: false,
+          schema: { type: 'boolean' },
+        },
+        {
+          name: 'limit',
+          description: 'Result limit (1-50)',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+        },
+      ],
+      result: {
+        name: 'players',
+        description: 'Matching player objects, best match first',
+        schema: { type: 'array', items: { type: 'object' } },
+      },
+    },
+    {
+      name: 'sleeper.getPlayer',
+      description: 'Get a single player by ID or by best name match',
+      params: [
+        {
+          name: 'playerId',
+          description: 'Sleeper player ID',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'name',
+          description: 'Player name, used when the ID is unknown',
+          required: false,
+          schema: { type: 'string' },
+        },
+      ],
+      result: {
+        name: 'player',
+        description: 'Player object',
+        schema: { type: 'object' },
+      },
+    },
     // Draft Methods
     {
       name: 'sleeper.getDraftsForUser',
@@ -435,6 +499,464 @@ export const openRPCDocument = {
         },
       ],
     },
+    // Scoring Methods
+    {
+      name: 'sleeper.scorePlayer',
+      description: "Score a player's week using a league's scoring settings",
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID whose scoring settings are applied',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'playerId',
+          description: 'Sleeper player ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'week',
+          description: 'Week number (1-18)',
+          required: true,
+          schema: { type: 'integer', minimum: 1, maximum: 18 },
+        },
+        {
+          name: 'season',
+          description: "Season year (default: the league's season)",
+          required: false,
+          schema: { type: 'string', pattern: '^\\d{4}$' },
+        },
+      ],
+      result: {
+        name: 'score',
+        description: 'Total points with per-category totals and a per-stat breakdown',
+        schema: { type: 'object' },
+      },
+    },
+    // Standings Methods
+    {
+      name: 'sleeper.getStandings',
+      description: 'Get league standings computed from completed weeks',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'throughWeek',
+          description: 'Only count weeks up to this one (default: every completed week)',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 18 },
+        },
+      ],
+      result: {
+        name: 'standings',
+        description: 'Teams ordered by record with division ranks and playoff seeds',
+        schema: { type: 'object' },
+      },
+    },
+    {
+      name: 'sleeper.getPowerRankings',
+      description: 'Get power rankings with all-play record, luck index and strength of schedule',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'throughWeek',
+          description: 'Only count weeks up to this one (default: every completed week)',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 18 },
+        },
+      ],
+      result: {
+        name: 'rankings',
+        description: 'Teams ordered by power score',
+        schema: { type: 'object' },
+      },
+    },
+    {
+      name: 'sleeper.simulatePlayoffOdds',
+      description:
+        'Estimate playoff, bye and championship odds with a seeded Monte Carlo simulation',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'iterations',
+          description: 'Number of simulated seasons (default: 1000)',
+          required: false,
+          schema: { type: 'integer', minimum: 100, maximum: 20000 },
+        },
+        {
+          name: 'seed',
+          description: 'Random seed; the same seed reproduces the same odds',
+          required: false,
+          schema: { type: 'integer', minimum: 0 },
+        },
+      ],
+      result: {
+        name: 'odds',
+        description: 'Per-roster playoff, bye and championship probabilities with the seed used',
+        schema: { type: 'object' },
+      },
+    },
+    // Trade Methods
+    {
+      name: 'sleeper.analyzeTrade',
+      description: 'Evaluate a proposed trade for both rosters',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'sendRosterId',
+          description: 'Roster proposing the trade',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'receiveRosterId',
+          description: 'Roster receiving the proposal',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'playersOut',
+          description: 'Player IDs the sending roster gives up',
+          required: false,
+          schema: { type: 'array', items: { type: 'string' } },
+        },
+        {
+          name: 'playersIn',
+          description: 'Player IDs the sending roster receives',
+          required: false,
+          schema: { type: 'array', items: { type: 'string' } },
+        },
+        {
+          name: 'picksOut',
+          description: 'Draft picks ({ season, round }) the sending roster gives up',
+          required: false,
+          schema: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { season: { type: 'string' }, round: { type: 'integer' } },
+            },
+          },
+        },
+        {
+          name: 'picksIn',
+          description: 'Draft picks ({ season, round }) the sending roster receives',
+          required: false,
+          schema: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { season: { type: 'string' }, round: { type: 'integer' } },
+            },
+          },
+        },
+      ],
+      result: {
+        name: 'analysis',
+        description:
+          'Starter points change, positional fit and value change per side with a verdict',
+        schema: { type: 'object' },
+      },
+    },
+    // Lineup Methods
+    {
+      name: 'sleeper.getOptimalLineup',
+      description: "Get a roster's highest-projected legal lineup for a week",
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'rosterId',
+          description: 'Roster ID',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'week',
+          description: 'Week number (1-18)',
+          required: true,
+          schema: { type: 'integer', minimum: 1, maximum: 18 },
+        },
+      ],
+      result: {
+        name: 'lineup',
+        description: 'Optimal starters and bench, with the gap to the current starters',
+        schema: { type: 'object' },
+      },
+    },
+    {
+      name: 'sleeper.getManagerEfficiency',
+      description: 'Compare actual scores with the best possible lineups in completed weeks',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'weeks',
+          description: 'Weeks to include (default: every completed week)',
+          required: false,
+          schema: { type: 'array', items: { type: 'integer', minimum: 1, maximum: 18 } },
+        },
+      ],
+      result: {
+        name: 'efficiency',
+        description:
+          'Per-roster efficiency, points left on the bench and costly start/sit decisions',
+        schema: { type: 'object' },
+      },
+    },
+    // Waiver Methods
+    {
+      name: 'sleeper.getWaiverRecommendations',
+      description: 'Recommend free agents for a roster with suggested FAAB bids',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'rosterId',
+          description: 'Roster ID to recommend pickups for',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'position',
+          description: 'Only recommend players at this position',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'limit',
+          description: 'Result limit (1-50, default: 10)',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 50 },
+        },
+      ],
+      result: {
+        name: 'recommendations',
+        description: 'Scored free agents with trend, projection, need and bye details',
+        schema: { type: 'object' },
+      },
+    },
+    // Pick Methods
+    {
+      name: 'sleeper.getPickOwnership',
+      description: 'Get the current owner and chain of custody of every pick in upcoming drafts',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'seasons',
+          description: 'Draft seasons to include (default: the next three drafts)',
+          required: false,
+          schema: { type: 'array', items: { type: 'string' } },
+        },
+      ],
+      result: {
+        name: 'ledger',
+        description: 'Picks with owner, trade history and projected slot, plus per-roster totals',
+        schema: { type: 'object' },
+      },
+    },
+    // History Methods
+    {
+      name: 'sleeper.getLeagueHistory',
+      description: 'Get every season of a league by following previous_league_id',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID (the most recent season to start from)',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ],
+      result: {
+        name: 'history',
+        description:
+          'Champions and final standings per season, all-time owner and head-to-head records, and league records',
+        schema: { type: 'object' },
+      },
+    },
+    {
+      name: 'sleeper.getRivalry',
+      description: 'Get the all-time head-to-head history between two managers',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID (the most recent season to start from)',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'userIdA',
+          description: 'First manager user ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'userIdB',
+          description: 'Second manager user ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ],
+      result: {
+        name: 'rivalry',
+        description:
+          'Regular season and playoff meetings with scores, records, streaks, blowouts and trades between the two',
+        schema: { type: 'object' },
+      },
+    },
+    // Transaction Methods
+    {
+      name: 'sleeper.getTransactionLog',
+      description: 'Get every transaction in a league across all weeks with names and FAAB amounts',
+      params: [
+        {
+          name: 'leagueId',
+          description: 'League ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'type',
+          description: 'Only include this transaction type',
+          required: false,
+          schema: { type: 'string', enum: ['trade', 'waiver', 'free_agent'] },
+        },
+        {
+          name: 'rosterId',
+          description: 'Only include transactions involving this roster',
+          required: false,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'playerId',
+          description: 'Only include transactions adding or dropping this player',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'since',
+          description: 'Only include transactions on or after this date (ISO 8601)',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'until',
+          description: 'Only include transactions on or before this date (ISO 8601)',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'cursor',
+          description: 'next_cursor from the previous page (default: start from the newest)',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'limit',
+          description: 'Page size (1-200, default: 50)',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 200 },
+        },
+      ],
+      result: {
+        name: 'transactionLog',
+        description: 'One page of enriched transactions, newest first, with total and next_cursor',
+        schema: { type: 'object' },
+      },
+    },
+    // Draft Report Methods
+    {
+      name: 'sleeper.getDraftReport',
+      description:
+        'Get a draft board with each pick compared to ADP (steal/reach), season production when available, and a letter grade per team',
+      params: [
+        {
+          name: 'draftId',
+          description: 'Draft ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ],
+      result: {
+        name: 'draftReport',
+        description: 'Draft board by round and team grades',
+        schema: { type: 'object' },
+      },
+    },
+    {
+      name: 'sleeper.getDraftRecommendations',
+      description:
+        'Recommend the best available players for a roster during a live draft, with the chance each lasts until its next pick',
+      params: [
+        {
+          name: 'draftId',
+          description: 'Draft ID',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'rosterId',
+          description: 'Roster ID to recommend picks for',
+          required: true,
+          schema: { type: 'integer' },
+        },
+        {
+          name: 'position',
+          description: 'Only recommend players at this position',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'limit',
+          description: 'Result limit (1-50, default: 10)',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+        },
+      ],
+      result: {
+        name: 'recommendations',
+        description: 'Turn, open slots, players expected to go first and ranked recommendations',
+        schema: { type: 'object' },
+      },
+    },
   ],
   components: {
     schemas: {},
@@ -0,0 +1,140 @@
+import { PlayerSearchIndex, normalizeName } from './search';
+import { config } from '../config';
+
+const mockGetAllPlayers = jest.fn();
+
+jest.mock('../api/client', () => ({
+  sleeperAPI: {
+    getAllPlayers: (...args: unknown[]): unknown => mockGetAllPlayers(...args),
+  },
+}));
+
+describe('PlayerSearchIndex', () => {
+  const players = {
+    '4881': {
+      player_id: '4881',
+      first_name: 'Lamar',
+      last_name: 'Jackson',
+      full_name: 'Lamar Jackson',
+      position: 'QB',
+      team: 'BAL',
+      status: 'Active',
+      active: true,
+      search_rank: 5,
+    },
+    '6801': {
+      player_id: '6801',
+      first_name: 'Tee',
+      last_name: 'Higgins',
+      full_name: 'Tee Higgins',
+      position: 'WR',
+      team: 'CIN',
+      active: true,
+      search_rank: 40,
+    },
+    '2133': {
+      player_id: '2133',
+      first_name: 'DeSean',
+      last_name: 'Jackson',
+      full_name: 'DeSean Jackson',
+      position: 'WR',
+      team: null,
+      active: false,
+      search_rank: 9999999,
+    },
+    '4034': {
+      player_id: '4034',
+      first_name: 'Christian',
+      last_name: 'McCaffrey',
+      full_name: 'Christian McCaffrey',
+      position: 'RB',
+      team: 'SF',
+      active: true,
+      search_rank: 1,
+      metadata: { nickname: 'CMC' },
+    },
+    '7564': {
+      player_id: '7564',
+      first_name: "Ja'Marr",
+      last_name: 'Chase',
+      full_name: "Ja'Marr Chase",
+      position: 'WR',
+      team: 'CIN',
+      active: true,
+      search_rank: 3,
+    },
+    KC: {
+      player_id: 'KC',
+      first_name: 'Kansas City',
+      last_name: 'Chiefs',
+      position: 'DEF',
+      team: 'KC',
+      active: true,
+    },
+  };
+
+  let index: PlayerSearchIndex;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetAllPlayers.mockResolvedValue(players);
+    index = new PlayerSearchIndex();
+  });
+
+  it('should normalize punctuation, accents and suffixes', () => {
+    expect(normalizeName("Ja'Marr Chase")).toBe('jamarr chase');
+    expect(normalizeName('Odell Beckham Jr.')).toBe('odell beckham');
+    expect(normalizeName('Amon-Ra St. Brown')).toBe('amon ra st brown');
+    expect(normalizeName('José')).toBe('jose');
+  });
+
+  it('should rank exact matches first and prefer active players', async () => {
+    const results = await index.search('jackson');
+
+    expect(results.map((p) => p.player_id)).toEqual(['4881', '2133']);
+  });
+
+  it('should tolerate typos and match nicknames', async () => {
+    expect((await index.search('lamar jakson'))[0].player_id).toBe('4881');
+    expect((await index.search('mccafrey'))[0].player_id).toBe('4034');
+    expect((await index.search('jamar chase'))[0].player_id).toBe('7564');
+    expect((await index.search('cmc'))[0].player_id).toBe('4034');
+  });
+
+  it('should not return unrelated players', async () => {
+    expect(await index.search('zzzz')).toEqual([]);
+  });
+
+  it('should filter by position, team and active status', async () => {
+    expect((await index.search('jackson', { position: 'wr' })).map((p) => p.player_id)).toEqual([
+      '2133',
+    ]);
+    expect((await index.search('chiefs', { team: 'KC' })).map((p) => p.player_id)).toEqual(['KC']);
+    expect((await index.search('jackson', { active: true })).map((p) => p.player_id)).toEqual([
+      '4881',
+    ]);
+  });
+
+  it('should only rebuild once the players cache TTL has passed', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await index.search('lamar');
+    mockGetAllPlayers.mockResolvedValue({ '4881': players['4881'] });
+    await index.search('tee');
+    expect(index.size).toBe(6);
+    expect(mockGetAllPlayers).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1_000_000 + config.CACHE_TTL.PLAYER * 1000);
+    await index.search('lamar');
+
+    expect(index.size).toBe(1);
+    expect(await index.getPlayer('6801')).toBeNull();
+    expect(mockGetAllPlayers).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    await Promise.all([index.search('lamar'), index.getPlayer('6801'), index.search('tee')]);
+
+    expect(mockGetAllPlayers).toHaveBeenCalledTimes(1);
+  });
+});
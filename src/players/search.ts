@@ -0,0 +1,227 @@
+import { sleeperAPI } from '../api/client';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { SleeperPlayer } from '../types/sleeper';
+
+export interface PlayerSearchFilters {
+  position?: string;
+  team?: string;
+  active?: boolean;
+  limit?: number;
+}
+
+interface IndexEntry {
+  player: SleeperPlayer;
+  fullName: string;
+  lastName: string;
+  nickname: string | null;
+  tokens: string[];
+  positions: string[];
+  active: boolean;
+}
+
+interface ScoredEntry {
+  entry: IndexEntry;
+  score: number;
+}
+
+// Minimum similarity (0-1) for a typo-tolerant match
+const FUZZY_THRESHOLD = 0.75;
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+/**
+ * Lowercase, strip accents and punctuation, and drop generational suffixes
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/-/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 0 && !NAME_SUFFIXES.has(token))
+    .join(' ');
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit (optimal string alignment)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][cols - 1];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+  // Cheap bound before computing the full distance
+  if (1 - Math.abs(a.length - b.length) / longest < FUZZY_THRESHOLD) {
+    return 0;
+  }
+  return 1 - editDistance(a, b) / longest;
+}
+
+function toEntry(player: SleeperPlayer): IndexEntry | null {
+  const fullName = normalizeName(
+    player.full_name || `${player.first_name || ''} ${player.last_name || ''}`
+  );
+  if (!fullName) {
+    return null;
+  }
+
+  const nickname =
+    typeof player.metadata?.nickname === 'string' ? normalizeName(player.metadata.nickname) : '';
+
+  return {
+    player,
+    fullName,
+    lastName: normalizeName(player.last_name || ''),
+    nickname: nickname || null,
+    tokens: fullName.split(' '),
+    positions: [player.position, ...(player.fantasy_positions || [])]
+      .filter(Boolean)
+      .map((p) => p.toUpperCase()),
+    active: player.active ?? player.status === 'Active',
+  };
+}
+
+/**
+ * Score how well a normalized query matches a player (0 = no match).
+ * Exact and prefix matches always outrank typo-tolerant ones.
+ */
+function scoreEntry(query: string, queryTokens: string[], entry: IndexEntry): number {
+  if (query === entry.fullName || query === entry.nickname) {
+    return 100;
+  }
+  if (entry.fullName.startsWith(query)) {
+    return 90;
+  }
+  if (query === entry.lastName) {
+    return 85;
+  }
+  if (queryTokens.every((qt) => entry.tokens.some((token) => token.startsWith(qt)))) {
+    return 75;
+  }
+
+  // Whole-name similarity, or the average of each query token's best token match
+  const whole = Math.max(
+    similarity(query, entry.fullName),
+    entry.lastName ? similarity(query, entry.lastName) : 0,
+    entry.nickname ? similarity(query, entry.nickname) : 0
+  );
+  const tokenwise =
+    queryTokens.reduce(
+      (sum, qt) => sum + Math.max(...entry.tokens.map((token) => similarity(qt, token))),
+      0
+    ) / queryTokens.length;
+
+  const best = Math.max(whole, tokenwise);
+  return best >= FUZZY_THRESHOLD ? 70 * best : 0;
+}
+
+/**
+ * In-memory name index over the getAllPlayers payload.
+ * The index is rebuilt once the players cache TTL has passed; concurrent
+ * callers share a single in-flight rebuild.
+ */
+export class PlayerSearchIndex {
+  private source: Record<string, SleeperPlayer> | null = null;
+  private entries: IndexEntry[] = [];
+  private builtAt = 0;
+  private refreshing: Promise<void> | null = null;
+
+  async search(query: string, filters: PlayerSearchFilters = {}): Promise<SleeperPlayer[]> {
+    await this.refresh();
+
+    const normalized = normalizeName(query);
+    if (!normalized) {
+      return [];
+    }
+    const queryTokens = normalized.split(' ');
+    const position = filters.position?.toUpperCase();
+    const team = filters.team?.toUpperCase();
+
+    const matches: ScoredEntry[] = [];
+    for (const entry of this.entries) {
+      if (
+        (position && !entry.positions.includes(position)) ||
+        (team && (entry.player.team || '').toUpperCase() !== team) ||
+        (filters.active !== undefined && entry.active !== filters.active)
+      ) {
+        continue;
+      }
+
+      const score = scoreEntry(normalized, queryTokens, entry);
+      if (score > 0) {
+        matches.push({ entry, score });
+      }
+    }
+
+    // Ties go to active players, then to Sleeper's own search rank
+    matches.sort(
+      (a, b) =>
+        b.score - a.score ||
+        Number(b.entry.active) - Number(a.entry.active) ||
+        (a.entry.player.search_rank ?? Infinity) - (b.entry.player.search_rank ?? Infinity) ||
+        a.entry.fullName.localeCompare(b.entry.fullName)
+    );
+
+    return matches.slice(0, filters.limit ?? 10).map((match) => match.entry.player);
+  }
+
+  async getPlayer(playerId: string): Promise<SleeperPlayer | null> {
+    await this.refresh();
+    return this.source?.[playerId] ?? null;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private refresh(): Promise<void> {
+    if (this.source && Date.now() - this.builtAt < config.CACHE_TTL.PLAYER * 1000) {
+      return Promise.resolve();
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.rebuild().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async rebuild(): Promise<void> {
+    const players = (await sleeperAPI.getAllPlayers('nfl')) as Record<string, SleeperPlayer>;
+
+    const startTime = Date.now();
+    this.entries = Object.values(players || {})
+      .map(toEntry)
+      .filter((entry): entry is IndexEntry => entry !== null);
+    this.source = players;
+    this.builtAt = Date.now();
+
+    logger.info(`Built player search index: ${this.entries.length} players`, {
+      duration: Date.now() - startTime,
+    });
+  }
+}
+
+export const playerSearchIndex = new PlayerSearchIndex();
@@ -1,14 +1,47 @@
-import { userMethods } from './methods/user';
-import { leagueMethods } from './methods/league';
-import { playerMethods } from './methods/player';
-import { draftMethods } from './methods/draft';
-import { stateMethods } from './methods/state';
+import { z } from 'zod';
+import { userMethods, userSchemas } from './methods/user';
+import { leagueMethods, leagueSchemas } from './methods/league';
+import { playerMethods, playerSchemas } from './methods/player';
+import { draftMethods, draftSchemas } from './methods/draft';
+import { stateMethods, stateSchemas } from './methods/state';
+import { scoringMethods, scoringSchemas } from './methods/scoring';
+import { standingsMethods, standingsSchemas } from './methods/standings';
+import { tradeMethods, tradeSchemas } from './methods/trade';
+import { lineupMethods, lineupSchemas } from './methods/lineup';
+import { waiverMethods, waiverSchemas } from './methods/waivers';
+import { pickMethods, pickSchemas } from './methods/picks';
+import { historyMethods, historySchemas } from './methods/history';
+import { transactionMethods, transactionSchemas } from './methods/transactions';
 import { batchRPC, batchLeagueData, batchUserData, analyzeBatchOpportunities } from './methods/batch';
-import { analyticsMethods } from './methods/analytics';
+import { analyticsMethods, analyticsSchemas } from './methods/analytics';
 import { logger } from '../utils/logger';
 import { JsonRpcError } from '../utils/errors';
 import { recordRPCCall } from '../middleware/metrics';
 
+/**
+ * Parameter schemas for every method that accepts named parameters.
+ * Batch methods are intentionally absent: they wrap other calls and are not
+ * useful as standalone tools.
+ */
+export function createRPCSchemas(): Record<string, z.ZodTypeAny> {
+  return {
+    ...userSchemas,
+    ...leagueSchemas,
+    ...playerSchemas,
+    ...draftSchemas,
+    ...stateSchemas,
+    ...scoringSchemas,
+    ...standingsSchemas,
+    ...tradeSchemas,
+    ...lineupSchemas,
+    ...waiverSchemas,
+    ...pickSchemas,
+    ...historySchemas,
+    ...transactionSchemas,
+    ...analyticsSchemas,
+  };
+}
+
 export function createRPCMethods() {
   const methods = {
     ...userMethods,
@@ -16,6 +49,14 @@ export function createRPCMethods() {
     ...playerMethods,
     ...draftMethods,
     ...stateMethods,
+    ...scoringMethods,
+    ...standingsMethods,
+    ...tradeMethods,
+    ...lineupMethods,
+    ...waiverMethods,
+    ...pickMethods,
+    ...historyMethods,
+    ...transactionMethods,
     // Batch processing methods
     'sleeper.batchRPC': batchRPC,
     'sleeper.batchLeagueData': batchLeagueData,
@@ -0,0 +1,40 @@
+import { getPlayerAnalytics, getTopPerformers } from './analytics';
+import { ValidationError } from '../../utils/errors';
+
+const mockGetPlayerAnalytics = jest.fn();
+const mockGetPositionAnalytics = jest.fn();
+
+jest.mock('../../analytics/service', () => ({
+  analyticsService: {
+    getPlayerAnalytics: (...args: unknown[]): unknown => mockGetPlayerAnalytics(...args),
+    getPositionAnalytics: (...args: unknown[]): unknown => mockGetPositionAnalytics(...args),
+  },
+}));
+
+jest.mock('../../analytics/delta-sync', () => ({ deltaSyncService: {} }));
+
+describe('Analytics RPC Methods', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetPlayerAnalytics.mockResolvedValue(null);
+    mockGetPositionAnalytics.mockResolvedValue([]);
+  });
+
+  it('should accept named and positional params', async () => {
+    await getPlayerAnalytics({ playerId: '4046' }, {});
+    await getPlayerAnalytics([{ playerId: '4046' }], {});
+
+    expect(mockGetPlayerAnalytics).toHaveBeenNthCalledWith(1, '4046');
+    expect(mockGetPlayerAnalytics).toHaveBeenNthCalledWith(2, '4046');
+  });
+
+  it('should treat an empty positional array as no params', async () => {
+    await getTopPerformers([], {});
+
+    expect(mockGetPositionAnalytics).toHaveBeenCalledWith(undefined, undefined);
+  });
+
+  it('should still validate positional params', async () => {
+    await expect(getPlayerAnalytics([{}], {})).rejects.toThrow(ValidationError);
+  });
+});
@@ -1,16 +1,80 @@
+import { z } from 'zod';
 import { analyticsService } from '../../analytics/service';
 import { deltaSyncService } from '../../analytics/delta-sync';
+import { validateParams } from '../../utils/validation';
 import { logger } from '../../utils/logger';
+import { ProgressReporter } from '../../analytics/ingestion';
+
+// Validation schemas
+const playerIdSchema = z.object({
+  playerId: z.string().min(1).describe('Sleeper player ID'),
+});
+
+const getPositionAnalyticsSchema = z.object({
+  position: z.string().min(1).describe('Position (QB, RB, WR, TE, K, DEF)'),
+  season: z.number().int().optional().describe('Season year (e.g., 2024)'),
+});
+
+const getPlayerProjectionsSchema = z.object({
+  playerId: z.string().min(1).describe('Sleeper player ID'),
+  weeks: z.number().int().min(1).max(18).default(4).describe('Weeks to project (default: 4)'),
+  opponentTeam: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Next opponent (e.g., KC), adjusts the projection for that defense'),
+});
+
+const getMatchupAnalysisSchema = z.object({
+  playerId: z.string().min(1).describe('Sleeper player ID'),
+  opponentTeam: z.string().min(1).describe('Opponent team abbreviation (e.g., KC)'),
+});
+
+const getTopPerformersSchema = z.object({
+  position: z.string().optional().describe('Position filter (default: all)'),
+  limit: z.number().int().min(1).max(100).default(20).describe('Result limit (1-100)'),
+  timeframe: z.string().default('season').describe('Timeframe (default: season)'),
+});
+
+const comparePlayersSchema = z.object({
+  playerIds: z.array(z.string().min(1)).min(2).describe('Sleeper player IDs to compare (2+)'),
+});
+
+const getLeagueInsightsSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  week: z.number().int().min(1).max(18).optional().describe('Week number (1-18)'),
+});
+
+const ingestHistoricalDataSchema = z.object({
+  startYear: z
+    .number()
+    .int()
+    .min(1999)
+    .optional()
+    .describe('First season to ingest (default: 2015)'),
+  endYear: z.number().int().min(1999).optional().describe('Last season to ingest (default: 2024)'),
+});
+
+const noParamsSchema = z.object({});
+
+// HTTP RPC calls pass { req, res }; MCP tool calls may pass a progress reporter
+interface RPCContext {
+  onProgress?: ProgressReporter;
+}
+
+/**
+ * Analytics methods used to take their arguments positionally as [{ ... }].
+ * Unwrap that array so existing callers keep working alongside named params.
+ */
+function namedParams(params: unknown): unknown {
+  return Array.isArray(params) ? (params[0] as unknown) : params;
+}
 
 /**
  * Get comprehensive player analytics and performance metrics
  */
-export async function getPlayerAnalytics(params: any[], _context: any) {
-  const { playerId } = params[0] || {};
-  
-  if (!playerId) {
-    throw new Error('playerId is required');
-  }
+export async function getPlayerAnalytics(params: unknown, _context: any) {
+  const { playerId } = validateParams(namedParams(params), playerIdSchema);
 
   logger.info(`Getting analytics for player ${playerId}`);
   return analyticsService.getPlayerAnalytics(playerId);
@@ -19,12 +83,8 @@ export async function getPlayerAnalytics(params: any[], _context: any) {
 /**
  * Get position-based analytics and rankings
  */
-export async function getPositionAnalytics(params: any[], _context: any) {
-  const { position, season } = params[0] || {};
-  
-  if (!position) {
-    throw new Error('position is required');
-  }
+export async function getPositionAnalytics(params: unknown, _context: any) {
+  const { position, season } = validateParams(namedParams(params), getPositionAnalyticsSchema);
 
   logger.info(`Getting position analytics for ${position}`);
   return analyticsService.getPositionAnalytics(position, season);
@@ -33,26 +93,21 @@ export async function getPositionAnalytics(params: any[], _context: any) {
 /**
  * Get player projections based on historical performance
  */
-export async function getPlayerProjections(params: any[], _context: any) {
-  const { playerId, weeks = 4 } = params[0] || {};
-  
-  if (!playerId) {
-    throw new Error('playerId is required');
-  }
+export async function getPlayerProjections(params: unknown, _context: any) {
+  const { playerId, weeks, opponentTeam } = validateParams(
+    namedParams(params),
+    getPlayerProjectionsSchema
+  );
 
   logger.info(`Getting projections for player ${playerId}`);
-  return analyticsService.getPlayerProjections(playerId, weeks);
+  return analyticsService.getPlayerProjections(playerId, weeks, opponentTeam);
 }
 
 /**
  * Get matchup analysis for player vs opponent
  */
-export async function getMatchupAnalysis(params: any[], _context: any) {
-  const { playerId, opponentTeam } = params[0] || {};
-  
-  if (!playerId || !opponentTeam) {
-    throw new Error('playerId and opponentTeam are required');
-  }
+export async function getMatchupAnalysis(params: unknown, _context: any) {
+  const { playerId, opponentTeam } = validateParams(namedParams(params), getMatchupAnalysisSchema);
 
   logger.info(`Getting matchup analysis for ${playerId} vs ${opponentTeam}`);
   return analyticsService.getMatchupAnalysis(playerId, opponentTeam);
@@ -61,8 +116,8 @@ export async function getMatchupAnalysis(params: any[], _context: any) {
 /**
  * Get top performers by position for a given timeframe
  */
-export async function getTopPerformers(params: any[], _context: any) {
-  const { position, limit: _limit = 20, timeframe: _timeframe = 'season' } = params[0] || {};
+export async function getTopPerformers(params: unknown, _context: any) {
+  const { position } = validateParams(namedParams(params) ?? {}, getTopPerformersSchema);
   
   logger.info(`Getting top performers for position ${position || 'all'}`);
   return analyticsService.getPositionAnalytics(position, undefined);
@@ -71,12 +126,8 @@ export async function getTopPerformers(params: any[], _context: any) {
 /**
  * Compare multiple players head-to-head
  */
-export async function comparePlayersHQ(params: any[], _context: any) {
-  const { playerIds } = params[0] || {};
-  
-  if (!playerIds || !Array.isArray(playerIds) || playerIds.length < 2) {
-    throw new Error('At least 2 playerIds are required for comparison');
-  }
+export async function comparePlayersHQ(params: unknown, _context: any) {
+  const { playerIds } = validateParams(namedParams(params), comparePlayersSchema);
 
   logger.info(`Comparing players: ${playerIds.join(', ')}`);
   
@@ -130,8 +181,8 @@ export async function comparePlayersHQ(params: any[], _context: any) {
 /**
  * Get league-wide analytics and insights
  */
-export async function getLeagueInsights(params: any[], _context: any) {
-  const { leagueId, week } = params[0] || {};
+export async function getLeagueInsights(params: unknown, _context: any) {
+  const { leagueId, week } = validateParams(namedParams(params), getLeagueInsightsSchema);
   
   // This would require league-specific data, which could be added later
   // For now, return general insights
@@ -166,13 +217,16 @@ export async function getLeagueInsights(params: any[], _context: any) {
 /**
  * Trigger historical data ingestion
  */
-export async function ingestHistoricalData(params: any[], _context: any) {
-  const { startYear, endYear } = params[0] || {};
+export async function ingestHistoricalData(params: unknown, context: RPCContext) {
+  const { startYear, endYear } = validateParams(
+    namedParams(params) ?? {},
+    ingestHistoricalDataSchema
+  );
   
   logger.info(`Starting historical data ingestion: ${startYear || 2015} to ${endYear || 2024}`);
   
   try {
-    await analyticsService.ingestHistoricalData(startYear, endYear);
+    await analyticsService.ingestHistoricalData(startYear, endYear, context?.onProgress);
     return {
       success: true,
       message: `Historical data ingestion completed for years ${startYear || 2015} to ${endYear || 2024}`,
@@ -187,7 +241,7 @@ export async function ingestHistoricalData(params: any[], _context: any) {
 /**
  * Update current player data from Sleeper API
  */
-export async function updateCurrentPlayerData(_params: any[], _context: any) {
+export async function updateCurrentPlayerData(_params: unknown, _context: any) {
   logger.info('Starting current player data update');
   
   try {
@@ -206,7 +260,7 @@ export async function updateCurrentPlayerData(_params: any[], _context: any) {
 /**
  * Run complete daily data sync
  */
-export async function runDailyDataSync(_params: any[], _context: any) {
+export async function runDailyDataSync(_params: unknown, _context: any) {
   logger.info('Starting daily data sync');
   
   try {
@@ -225,11 +279,11 @@ export async function runDailyDataSync(_params: any[], _context: any) {
 /**
  * Run nightly delta sync to check for new data
  */
-export async function runNightlyDeltaSync(_params: any[], _context: any): Promise<any> {
+export async function runNightlyDeltaSync(_params: unknown, context: RPCContext): Promise<any> {
   logger.info('Starting nightly delta sync');
   
   try {
-    const result = await deltaSyncService.runNightlySync();
+    const result = await deltaSyncService.runNightlySync(context?.onProgress);
     return {
       success: true,
       message: result.hasNewData ? 
@@ -247,7 +301,7 @@ export async function runNightlyDeltaSync(_params: any[], _context: any): Promis
 /**
  * Get sync status and statistics
  */
-export async function getSyncStatus(_params: any[], _context: any) {
+export async function getSyncStatus(_params: unknown, _context: any) {
   logger.info('Getting sync status');
   
   try {
@@ -266,11 +320,11 @@ export async function getSyncStatus(_params: any[], _context: any) {
 /**
  * Force a delta sync (for testing or manual triggers)
  */
-export async function forceDeltaSync(_params: any[], _context: any): Promise<any> {
+export async function forceDeltaSync(_params: unknown, context: RPCContext): Promise<any> {
   logger.info('Forcing delta sync');
   
   try {
-    const result = await deltaSyncService.forceDeltaSync();
+    const result = await deltaSyncService.forceDeltaSync(context?.onProgress);
     return {
       success: true,
       message: 'Force delta sync completed',
@@ -298,4 +352,39 @@ export const analyticsMethods = {
   'sleeper.runNightlyDeltaSync': runNightlyDeltaSync,
   'sleeper.getSyncStatus': getSyncStatus,
   'sleeper.forceDeltaSync': forceDeltaSync,
-};
\ No newline at end of file
+};
+
+// Method schemas (used to generate MCP tools)
+export const analyticsSchemas = {
+  'sleeper.getPlayerAnalytics': playerIdSchema.describe(
+    'Get comprehensive analytics for a player including trends, projections, and insights'
+  ),
+  'sleeper.getPositionAnalytics': getPositionAnalyticsSchema.describe(
+    'Get position rankings and comparisons'
+  ),
+  'sleeper.getPlayerProjections': getPlayerProjectionsSchema.describe(
+    'Get player projections based on historical performance'
+  ),
+  'sleeper.getMatchupAnalysis': getMatchupAnalysisSchema.describe(
+    'Get historical performance analysis for a player against an opponent'
+  ),
+  'sleeper.getTopPerformers': getTopPerformersSchema.describe('Get top performers by position'),
+  'sleeper.comparePlayersHQ': comparePlayersSchema.describe(
+    'Compare multiple players head-to-head with detailed analytics'
+  ),
+  'sleeper.getLeagueInsights': getLeagueInsightsSchema.describe(
+    'Get league-wide analytics and position insights'
+  ),
+  'sleeper.ingestHistoricalData': ingestHistoricalDataSchema.describe(
+    'Trigger historical data ingestion into the analytics database'
+  ),
+  'sleeper.updateCurrentPlayerData': noParamsSchema.describe(
+    'Update current player data from the Sleeper API'
+  ),
+  'sleeper.runDailyDataSync': noParamsSchema.describe('Run complete daily data sync'),
+  'sleeper.runNightlyDeltaSync': noParamsSchema.describe(
+    'Run nightly delta sync to check for new data'
+  ),
+  'sleeper.getSyncStatus': noParamsSchema.describe('Get sync status and statistics'),
+  'sleeper.forceDeltaSync': noParamsSchema.describe('Force a delta sync'),
+};
@@ -14,7 +14,7 @@ interface RPCResponse {
 }
 
 // Create parallel processor instance
-const parallelProcessor = new ParallelRPCProcessor();
+export const parallelProcessor = new ParallelRPCProcessor();
 
 // Register all available methods
 parallelProcessor.registerMethod('sleeper.getUserByUsername', async (params: any[], __context: any) => {
@@ -0,0 +1,94 @@
+import { draftMethods } from './draft';
+import { sleeperAPI } from '../../api/client';
+
+const mockGetWeeklyStats = jest.fn();
+
+jest.mock('../../api/client', () => ({
+  sleeperAPI: {
+    getDraft: jest.fn(),
+    getDraftPicks: jest.fn(),
+    getTradedDraftPicks: jest.fn(),
+    getAllPlayers: jest.fn(),
+    getNFLState: jest.fn(),
+    getLeague: jest.fn(),
+    getRosters: jest.fn(),
+    getWeeklyStats: (...args: unknown[]): unknown => mockGetWeeklyStats(...args),
+  },
+}));
+
+jest.mock('../../analytics/service', () => ({
+  analyticsService: {
+    getPlayerProjections: jest.fn().mockResolvedValue(null),
+  },
+}));
+
+describe('Draft RPC Methods', () => {
+  const player = (player_id: string, position: string, search_rank: number) => ({
+    player_id,
+    first_name: player_id,
+    last_name: 'Test',
+    position,
+    team: 'KC',
+    fantasy_positions: [position],
+    search_rank,
+    active: true,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sleeperAPI.getDraft as jest.Mock).mockResolvedValue({
+      draft_id: 'D1',
+      league_id: 'L1',
+      status: 'drafting',
+      type: 'snake',
+      settings: { teams: 2, rounds: 3 },
+      slot_to_roster_id: { '1': 1, '2': 2 },
+    });
+    (sleeperAPI.getDraftPicks as jest.Mock).mockResolvedValue([]);
+    (sleeperAPI.getTradedDraftPicks as jest.Mock).mockResolvedValue([]);
+    (sleeperAPI.getAllPlayers as jest.Mock).mockResolvedValue({
+      qb1: player('qb1', 'QB', 1),
+      rb1: player('rb1', 'RB', 2),
+      wr1: player('wr1', 'WR', 3),
+    });
+    (sleeperAPI.getNFLState as jest.Mock).mockResolvedValue({
+      season: '2024',
+      season_type: 'pre',
+      week: 0,
+    });
+    (sleeperAPI.getLeague as jest.Mock).mockResolvedValue({
+      league_id: 'L1',
+      season: '2024',
+      status: 'drafting',
+      settings: {},
+      roster_positions: ['QB', 'RB', 'WR', 'BN'],
+      scoring_settings: { pass_yd: 0.04, rush_yd: 0.1 },
+    });
+    (sleeperAPI.getRosters as jest.Mock).mockResolvedValue([]);
+    mockGetWeeklyStats.mockImplementation((_season: string, week: number) =>
+      Promise.resolve(
+        week === 1 ? { qb1: { gp: 1, pass_yd: 300 }, rb1: { gp: 1, rush_yd: 100 } } : {}
+      )
+    );
+  });
+
+  it("should project from last season's stats before the season has a completed week", async () => {
+    const result = await draftMethods['sleeper.getDraftRecommendations']({
+      draftId: 'D1',
+      rosterId: 1,
+    });
+
+    expect(mockGetWeeklyStats).toHaveBeenCalledWith('2023', 1);
+    expect(mockGetWeeklyStats).not.toHaveBeenCalledWith('2024', expect.anything());
+    const byPlayer = new Map(result.recommendations.map((r) => [r.player_id, r]));
+    expect(byPlayer.get('qb1')).toMatchObject({
+      projected_points: 12,
+      projection_source: 'prior_season',
+    });
+    expect(byPlayer.get('rb1')).toMatchObject({
+      projected_points: 10,
+      projection_source: 'prior_season',
+    });
+    expect(byPlayer.get('wr1')).toMatchObject({ projected_points: 0, projection_source: 'none' });
+  });
+});
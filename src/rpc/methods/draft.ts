@@ -1,6 +1,35 @@
 import { z } from 'zod';
 import { sleeperAPI } from '../../api/client';
+import { SeasonProductionRow } from '../../analytics/database';
+import { analyticsService } from '../../analytics/service';
+import {
+  DraftCandidate,
+  PlayerProduction,
+  buildDraftReport,
+  draftTurn,
+  openSlots,
+  rankDraftTargets,
+} from '../../league/draft';
+import { completedWeeks, nflRegularSeasonWeeks } from '../../league/season';
+import { SLOT_ELIGIBILITY, candidatesFor, startingSlots } from '../../league/lineup';
+import { projectPlayers } from '../../scoring/projections';
 import { validateParams } from '../../utils/validation';
+import { NotFoundError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  SleeperDraft,
+  SleeperDraftPick,
+  SleeperLeague,
+  SleeperNFLState,
+  SleeperPlayer,
+  SleeperRoster,
+  SleeperTradedDraftPick,
+} from '../../types/sleeper';
+
+// Available players considered, by Sleeper search rank
+const CANDIDATE_POOL_SIZE = 150;
+// Weeks of Sleeper stats averaged when analytics has no projection
+const RECENT_WEEKS = 4;
 
 // Validation schemas
 const getDraftsForUserSchema = z.object({
@@ -28,6 +57,39 @@ const getTradedDraftPicksSchema = z.object({
   draftId: z.string().min(1).describe('Draft ID'),
 });
 
+const getDraftReportSchema = z.object({
+  draftId: z.string().min(1).describe('Draft ID'),
+});
+
+const getDraftRecommendationsSchema = z.object({
+  draftId: z.string().min(1).describe('Draft ID'),
+  rosterId: z.number().int().describe('Roster ID to recommend picks for'),
+  position: z.string().optional().describe('Only recommend players at this position'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Result limit (1-50, default: 10)'),
+});
+
+/**
+ * Season production of drafted players from the analytics database, keyed by
+ * player ID. Empty when analytics is unavailable or has no data for the season.
+ */
+async function loadProduction(
+  playerIds: string[],
+  season: number
+): Promise<Map<string, PlayerProduction>> {
+  let rows: SeasonProductionRow[] | null = null;
+  try {
+    rows = await analyticsService.getSeasonProduction(playerIds, season);
+  } catch (error) {
+    logger.warn(`Grading draft without ${season} production`, { error });
+  }
+  return new Map(
+    (rows || []).map((row) => [
+      row.player_id,
+      { games_played: row.games_played, fantasy_points: row.fantasy_points },
+    ])
+  );
+}
+
 // Draft methods
 export const draftMethods = {
   'sleeper.getDraftsForUser': async (params: unknown) => {
@@ -54,4 +116,177 @@ export const draftMethods = {
     const validated = validateParams(params, getTradedDraftPicksSchema);
     return sleeperAPI.getTradedDraftPicks(validated.draftId);
   },
+
+  'sleeper.getDraftReport': async (params: unknown) => {
+    const { draftId } = validateParams(params, getDraftReportSchema);
+    const [draft, picks, players] = (await Promise.all([
+      sleeperAPI.getDraft(draftId),
+      sleeperAPI.getDraftPicks(draftId),
+      sleeperAPI.getAllPlayers('nfl'),
+    ])) as [SleeperDraft | null, SleeperDraftPick[] | null, Record<string, SleeperPlayer> | null];
+    if (!draft) {
+      throw new NotFoundError(`Draft ${draftId}`);
+    }
+
+    const drafted = (picks || []).filter((pick) => pick.player_id);
+    const production = await loadProduction(
+      drafted.map((pick) => pick.player_id),
+      Number(draft.season)
+    );
+
+    return {
+      draft_id: draftId,
+      league_id: draft.league_id,
+      season: draft.season,
+      type: draft.type,
+      status: draft.status,
+      teams: draft.settings?.teams,
+      rounds: draft.settings?.rounds,
+      reversal_round: draft.settings?.reversal_round || null,
+      production_source: production.size > 0 ? 'analytics' : 'none',
+      ...buildDraftReport(draft, picks || [], new Map(Object.entries(players || {})), production),
+    };
+  },
+
+  'sleeper.getDraftRecommendations': async (params: unknown) => {
+    const { draftId, rosterId, position, limit } = validateParams(
+      params,
+      getDraftRecommendationsSchema
+    );
+
+    const [draft, picks, tradedPicks, players, state] = (await Promise.all([
+      sleeperAPI.getDraft(draftId),
+      sleeperAPI.getDraftPicks(draftId),
+      sleeperAPI.getTradedDraftPicks(draftId),
+      sleeperAPI.getAllPlayers('nfl'),
+      sleeperAPI.getNFLState(),
+    ])) as [
+      SleeperDraft | null,
+      SleeperDraftPick[] | null,
+      SleeperTradedDraftPick[] | null,
+      Record<string, SleeperPlayer> | null,
+      SleeperNFLState,
+    ];
+    if (!draft) {
+      throw new NotFoundError(`Draft ${draftId}`);
+    }
+    if (!Object.values(draft.slot_to_roster_id || {}).includes(rosterId)) {
+      throw new NotFoundError(`Roster ${rosterId} in draft ${draftId}`);
+    }
+    const [league, rosters] = (await Promise.all([
+      sleeperAPI.getLeague(draft.league_id),
+      sleeperAPI.getRosters(draft.league_id),
+    ])) as [SleeperLeague | null, SleeperRoster[] | null];
+    if (!league) {
+      throw new NotFoundError(`League ${draft.league_id}`);
+    }
+
+    // Available: not drafted and not already on a league roster (keepers, dynasty veterans)
+    const taken = new Set([
+      ...(picks || []).map((pick) => pick.player_id).filter(Boolean),
+      ...(rosters || []).flatMap((r) => [
+        ...(r.players || []),
+        ...(r.reserve || []),
+        ...(r.taxi || []),
+      ]),
+    ]);
+    const startable = new Set(
+      startingSlots(league.roster_positions as string[]).flatMap(
+        (slot) => SLOT_ELIGIBILITY[slot] ?? [slot]
+      )
+    );
+    const positionsOf = (player: SleeperPlayer) =>
+      player.fantasy_positions?.length ? player.fantasy_positions : [player.position];
+    // Consensus order of everyone left on the board
+    const available = Object.values(players || {})
+      .filter(
+        (player) =>
+          !taken.has(player.player_id) &&
+          player.active !== false &&
+          !!player.team &&
+          player.search_rank !== undefined &&
+          player.search_rank !== null &&
+          positionsOf(player).some((p) => startable.has(p))
+      )
+      .sort((a, b) => (a.search_rank ?? 0) - (b.search_rank ?? 0));
+    const adpRank = new Map(available.map((player, index) => [player.player_id, index + 1]));
+    const wanted = position?.toUpperCase();
+    const pool = available
+      .filter((player) => !wanted || positionsOf(player).includes(wanted))
+      .slice(0, CANDIDATE_POOL_SIZE)
+      .map((player) => player.player_id);
+
+    const rosterPlayers = [
+      ...new Set([
+        ...(picks || [])
+          .filter((pick) => pick.roster_id === rosterId && pick.player_id)
+          .map((pick) => pick.player_id),
+        ...((rosters || []).find((r) => r.roster_id === rosterId)?.players || []),
+      ]),
+    ];
+    // Before the season has a completed week (pre-draft and most drafts),
+    // project from last season's production instead
+    const recentWeeks = completedWeeks(league, state).slice(-RECENT_WEEKS);
+    const projections =
+      recentWeeks.length > 0
+        ? await projectPlayers(league, [...pool, ...rosterPlayers], recentWeeks)
+        : await projectPlayers(
+            league,
+            [...pool, ...rosterPlayers],
+            nflRegularSeasonWeeks(),
+            String(Number(league.season) - 1)
+          );
+
+    const turn = draftTurn(draft, tradedPicks || [], (picks || []).length, rosterId);
+    const picksBefore = (pick: number | null) =>
+      pick !== null && turn.current_pick !== null ? pick - turn.current_pick : null;
+    const picksBeforeNext = picksBefore(turn.next_pick);
+    const roster = candidatesFor(rosterPlayers, projections);
+    const candidates: DraftCandidate[] = pool.flatMap((playerId) => {
+      const projection = projections.get(playerId);
+      return projection ? [{ projection, adp_rank: adpRank.get(playerId) ?? pool.length }] : [];
+    });
+
+    return {
+      draft_id: draftId,
+      roster_id: rosterId,
+      status: draft.status,
+      ...turn,
+      picks_until_turn: picksBeforeNext,
+      open_slots: openSlots(league.roster_positions as string[], roster),
+      // Who the room is expected to take before the roster is on the clock, by consensus rank
+      expected_taken: available.slice(0, picksBeforeNext ?? 0).map((player) => ({
+        player_id: player.player_id,
+        player_name: player.full_name || `${player.first_name} ${player.last_name}`,
+        position: player.position,
+        team: player.team ?? null,
+        adp_rank: adpRank.get(player.player_id) ?? null,
+      })),
+      recommendations: rankDraftTargets(
+        candidates,
+        {
+          rosterPositions: league.roster_positions as string[],
+          roster,
+          picksBeforeNext,
+          picksBeforeFollowing: picksBefore(turn.following_pick),
+        },
+        limit ?? 10
+      ),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const draftSchemas = {
+  'sleeper.getDraftsForUser': getDraftsForUserSchema.describe('Get all drafts for a user'),
+  'sleeper.getDraftsForLeague': getDraftsForLeagueSchema.describe('Get all drafts for a league'),
+  'sleeper.getDraft': getDraftSchema.describe('Get draft information'),
+  'sleeper.getDraftPicks': getDraftPicksSchema.describe('Get all picks for a draft'),
+  'sleeper.getTradedDraftPicks': getTradedDraftPicksSchema.describe('Get traded picks for a draft'),
+  'sleeper.getDraftReport': getDraftReportSchema.describe(
+    'Get a draft board laid out by slot with reach/steal values against ADP, season production and a letter grade per team'
+  ),
+  'sleeper.getDraftRecommendations': getDraftRecommendationsSchema.describe(
+    'Recommend the best available players for a roster during a live draft from projections, positional scarcity and open starting slots, with the chance each lasts until its next pick (call again after each pick)'
+  ),
 };
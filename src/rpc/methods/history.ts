@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { buildLeagueHistory, loadLeagueHistory } from '../../league/history';
+import { buildRivalry, loadRivalrySeasons } from '../../league/rivalry';
+import { validateParams } from '../../utils/validation';
+import { NotFoundError } from '../../utils/errors';
+
+// Validation schemas
+const getLeagueHistorySchema = z.object({
+  leagueId: z.string().min(1).describe('League ID (the most recent season to start from)'),
+});
+
+const getRivalrySchema = z
+  .object({
+    leagueId: z.string().min(1).describe('League ID (the most recent season to start from)'),
+    userIdA: z.string().min(1).describe('First manager user ID'),
+    userIdB: z.string().min(1).describe('Second manager user ID'),
+  })
+  .refine((params) => params.userIdA !== params.userIdB, {
+    message: 'userIdA and userIdB must differ',
+  });
+
+// History methods
+export const historyMethods = {
+  'sleeper.getLeagueHistory': async (params: unknown) => {
+    const { leagueId } = validateParams(params, getLeagueHistorySchema);
+    const history = await loadLeagueHistory(leagueId);
+
+    return {
+      league_id: leagueId,
+      ...buildLeagueHistory(history),
+    };
+  },
+
+  'sleeper.getRivalry': async (params: unknown) => {
+    const { leagueId, userIdA, userIdB } = validateParams(params, getRivalrySchema);
+    const seasons = await loadRivalrySeasons(leagueId);
+
+    for (const userId of [userIdA, userIdB]) {
+      const member = seasons.some(({ season }) =>
+        season.rosters.some(
+          (roster) => roster.owner_id === userId || (roster.co_owners || []).includes(userId)
+        )
+      );
+      if (!member) {
+        throw new NotFoundError(`User ${userId} in league ${leagueId}`);
+      }
+    }
+
+    return {
+      league_id: leagueId,
+      ...buildRivalry(seasons, userIdA, userIdB),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const historySchemas = {
+  'sleeper.getLeagueHistory': getLeagueHistorySchema.describe(
+    'Get every season of a league via previous_league_id: champions, final standings, all-time owner and head-to-head records'
+  ),
+  'sleeper.getRivalry': getRivalrySchema.describe(
+    'Get every regular season and playoff meeting between two managers across all seasons, with streaks, blowouts and trades between them'
+  ),
+};
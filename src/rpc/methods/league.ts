@@ -89,3 +89,18 @@ export const leagueMethods = {
     return sleeperAPI.getTradedPicks(validated.leagueId);
   },
 };
+
+// Method schemas (used to generate MCP tools)
+export const leagueSchemas = {
+  'sleeper.getLeaguesForUser': getLeaguesForUserSchema.describe(
+    'Get all leagues for a specific user'
+  ),
+  'sleeper.getLeague': getLeagueSchema.describe('Get league information'),
+  'sleeper.getRosters': getRostersSchema.describe('Get all rosters in a league'),
+  'sleeper.getUsers': getUsersSchema.describe('Get all users in a league'),
+  'sleeper.getMatchups': getMatchupsSchema.describe('Get matchups for a specific week'),
+  'sleeper.getWinnersBracket': getBracketSchema.describe('Get winners playoff bracket'),
+  'sleeper.getLosersBracket': getBracketSchema.describe('Get losers playoff bracket'),
+  'sleeper.getTransactions': getTransactionsSchema.describe('Get transactions for a specific week'),
+  'sleeper.getTradedPicks': getTradedPicksSchema.describe('Get all traded draft picks in a league'),
+};
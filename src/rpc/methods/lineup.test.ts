@@ -0,0 +1,127 @@
+import { lineupMethods } from './lineup';
+import { sleeperAPI } from '../../api/client';
+import { NotFoundError } from '../../utils/errors';
+
+const mockGetWeeklyProjections = jest.fn();
+
+jest.mock('../../api/client', () => ({
+  sleeperAPI: {
+    getLeague: jest.fn(),
+    getRosters: jest.fn(),
+    getMatchups: jest.fn(),
+    getNFLState: jest.fn(),
+    getAllPlayers: jest.fn(),
+    getWeeklyStats: jest.fn(),
+    getWeeklyProjections: (...args: unknown[]): unknown => mockGetWeeklyProjections(...args),
+  },
+}));
+
+jest.mock('../../analytics/service', () => ({
+  analyticsService: {
+    getPlayerProjections: jest.fn().mockResolvedValue(null),
+  },
+}));
+
+describe('Lineup RPC Methods', () => {
+  const player = (player_id: string, position: string, team: string, injury_status?: string) => ({
+    player_id,
+    first_name: player_id,
+    last_name: 'Test',
+    position,
+    team,
+    fantasy_positions: [position],
+    injury_status,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (sleeperAPI.getLeague as jest.Mock).mockResolvedValue({
+      league_id: 'L1',
+      season: '2024',
+      status: 'in_season',
+      settings: { last_scored_leg: 4, playoff_week_start: 15 },
+      roster_positions: ['QB', 'RB', 'WR', 'FLEX', 'BN', 'BN', 'BN'],
+      scoring_settings: { pass_yd: 0.04, rush_yd: 0.1, rec_yd: 0.1, rec: 1 },
+    });
+    (sleeperAPI.getRosters as jest.Mock).mockResolvedValue([
+      {
+        roster_id: 1,
+        players: ['qb1', 'rb1', 'rb2', 'wr1', 'wr2', 'wr3', 'ir1'],
+        starters: ['qb1', 'rb1', 'wr1', 'wr3'],
+        reserve: ['ir1'],
+      },
+    ]);
+    (sleeperAPI.getMatchups as jest.Mock).mockResolvedValue([
+      { roster_id: 1, matchup_id: 1, starters: ['qb1', 'rb2', 'wr2', 'wr1'], points: 0 },
+    ]);
+    (sleeperAPI.getNFLState as jest.Mock).mockResolvedValue({
+      season: '2024',
+      season_type: 'regular',
+      week: 5,
+    });
+    (sleeperAPI.getAllPlayers as jest.Mock).mockResolvedValue({
+      qb1: player('qb1', 'QB', 'KC'),
+      rb1: player('rb1', 'RB', 'SF'),
+      rb2: player('rb2', 'RB', 'BUF', 'Out'),
+      wr1: player('wr1', 'WR', 'DAL'),
+      wr2: player('wr2', 'WR', 'MIA'),
+      wr3: player('wr3', 'WR', 'NYJ'),
+      ir1: player('ir1', 'WR', 'DAL'),
+    });
+    (sleeperAPI.getWeeklyStats as jest.Mock).mockResolvedValue({});
+    mockGetWeeklyProjections.mockResolvedValue({
+      qb1: { pass_yd: 250 },
+      rb1: { rush_yd: 100 },
+      rb2: { rush_yd: 80 },
+      wr1: { rec: 5, rec_yd: 70 },
+      wr3: { rec: 4, rec_yd: 40 },
+      ir1: { rec: 9, rec_yd: 150 },
+    });
+  });
+
+  it('should start the best available players and skip byes, injuries and reserve', async () => {
+    const result = await lineupMethods['sleeper.getOptimalLineup']({
+      leagueId: 'L1',
+      rosterId: 1,
+      week: 5,
+    });
+
+    expect(mockGetWeeklyProjections).toHaveBeenCalledWith('2024', 5);
+    expect(result.starters.map((starter) => starter.player?.player_id)).toEqual([
+      'qb1',
+      'rb1',
+      'wr1',
+      'wr3',
+    ]);
+    expect(result.bench.find((p) => p.player_id === 'wr2')).toMatchObject({
+      on_bye: true,
+      projected_points: 0,
+    });
+    expect(result.bench.find((p) => p.player_id === 'rb2')).toMatchObject({
+      injury_status: 'Out',
+      projected_points: 0,
+    });
+    expect(result.bench.map((p) => p.player_id)).not.toContain('ir1');
+  });
+
+  it("should measure the week's submitted lineup against the optimum", async () => {
+    const result = await lineupMethods['sleeper.getOptimalLineup']({
+      leagueId: 'L1',
+      rosterId: 1,
+      week: 5,
+    });
+
+    expect(result).toMatchObject({
+      optimal_points: 40,
+      current_points: 22,
+      points_gap: 18,
+      changes: { start: ['rb1', 'wr3'], bench: ['rb2', 'wr2'] },
+    });
+  });
+
+  it('should reject unknown rosters', async () => {
+    await expect(
+      lineupMethods['sleeper.getOptimalLineup']({ leagueId: 'L1', rosterId: 9, week: 5 })
+    ).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { sleeperAPI } from '../../api/client';
+import { completedWeeks, loadLeagueSeason } from '../../league/season';
+import { computeManagerEfficiency } from '../../league/efficiency';
+import {
+  LineupCandidate,
+  injuryMultiplier,
+  optimalLineup,
+  startingSlots,
+} from '../../league/lineup';
+import { playerSearchIndex } from '../../players/search';
+import { projectWeek } from '../../scoring/projections';
+import { validateParams } from '../../utils/validation';
+import { NotFoundError } from '../../utils/errors';
+import { SleeperLeague, SleeperMatchup, SleeperNFLState, SleeperRoster } from '../../types/sleeper';
+
+// Weeks of Sleeper stats averaged when no projection is available
+const RECENT_WEEKS = 4;
+
+// Validation schemas
+const getOptimalLineupSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  rosterId: z.number().int().describe('Roster ID'),
+  week: z.number().int().min(1).max(18).describe('Week number (1-18)'),
+});
+
+const getManagerEfficiencySchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  weeks: z
+    .array(z.number().int().min(1).max(18))
+    .optional()
+    .describe('Weeks to include (default: every completed week)'),
+});
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Lineup methods
+export const lineupMethods = {
+  'sleeper.getOptimalLineup': async (params: unknown) => {
+    const { leagueId, rosterId, week } = validateParams(params, getOptimalLineupSchema);
+
+    const [league, rosters, matchups, state] = (await Promise.all([
+      sleeperAPI.getLeague(leagueId),
+      sleeperAPI.getRosters(leagueId),
+      sleeperAPI.getMatchups(leagueId, week),
+      sleeperAPI.getNFLState(),
+    ])) as [SleeperLeague | null, SleeperRoster[] | null, SleeperMatchup[] | null, SleeperNFLState];
+    if (!league) {
+      throw new NotFoundError(`League ${leagueId}`);
+    }
+    const roster = (rosters || []).find((r) => r.roster_id === rosterId);
+    if (!roster) {
+      throw new NotFoundError(`Roster ${rosterId}`);
+    }
+
+    // Reserve and taxi players cannot be started
+    const unavailable = new Set([...(roster.reserve || []), ...(roster.taxi || [])]);
+    const playerIds = (roster.players || []).filter((id) => !unavailable.has(id));
+    const recentWeeks = completedWeeks(league, state)
+      .filter((w) => w < week)
+      .slice(-RECENT_WEEKS);
+    const projections = await projectWeek(league, playerIds, week, recentWeeks);
+
+    const details = new Map(
+      await Promise.all(
+        playerIds.map(async (playerId) => {
+          const projection = projections.get(playerId);
+          const injuryStatus = (await playerSearchIndex.getPlayer(playerId))?.injury_status ?? null;
+          return [
+            playerId,
+            {
+              player_id: playerId,
+              player_name: projection?.player_name ?? null,
+              position: projection?.position ?? null,
+              team: projection?.team ?? null,
+              projected_points: round(
+                (projection?.points_per_week ?? 0) * injuryMultiplier(injuryStatus)
+              ),
+              injury_status: injuryStatus,
+              on_bye: projection?.on_bye ?? false,
+              source: projection?.source ?? 'none',
+            },
+          ] as const;
+        })
+      )
+    );
+    const candidates: LineupCandidate[] = playerIds.map((playerId) => ({
+      player_id: playerId,
+      positions: projections.get(playerId)?.positions ?? [],
+      points: details.get(playerId)?.projected_points ?? 0,
+    }));
+
+    const optimal = optimalLineup(league.roster_positions as string[], candidates);
+
+    // Compare against the lineup set for that week, or the roster's current one
+    const current =
+      (matchups || []).find((matchup) => matchup.roster_id === rosterId)?.starters ||
+      roster.starters ||
+      [];
+    const currentStarters = startingSlots(league.roster_positions as string[]).map(
+      (slot, index) => {
+        const playerId = current[index] && current[index] !== '0' ? current[index] : null;
+        return {
+          slot,
+          player_id: playerId,
+          projected_points: playerId ? (details.get(playerId)?.projected_points ?? 0) : 0,
+        };
+      }
+    );
+    const currentPoints = round(
+      currentStarters.reduce((sum, starter) => sum + starter.projected_points, 0)
+    );
+    const optimalIds = new Set(optimal.starters.map((starter) => starter.player_id));
+    const currentIds = new Set(currentStarters.map((starter) => starter.player_id));
+
+    return {
+      league_id: leagueId,
+      roster_id: rosterId,
+      week,
+      optimal_points: optimal.points,
+      current_points: currentPoints,
+      points_gap: round(optimal.points - currentPoints),
+      starters: optimal.starters.map((starter) => ({
+        slot: starter.slot,
+        player: (starter.player_id && details.get(starter.player_id)) || null,
+      })),
+      bench: optimal.bench.flatMap((playerId) => details.get(playerId) ?? []),
+      current_starters: currentStarters,
+      changes: {
+        start: [...optimalIds].filter((id): id is string => id !== null && !currentIds.has(id)),
+        bench: [...currentIds].filter((id): id is string => id !== null && !optimalIds.has(id)),
+      },
+    };
+  },
+
+  'sleeper.getManagerEfficiency': async (params: unknown) => {
+    const { leagueId, weeks } = validateParams(params, getManagerEfficiencySchema);
+    const loaded = await loadLeagueSeason(leagueId);
+    const season = weeks
+      ? { ...loaded, weeks: loaded.weeks.filter((results) => weeks.includes(results.week)) }
+      : loaded;
+
+    const playerIds = new Set(
+      season.weeks.flatMap((results) => results.matchups.flatMap((m) => m.players || []))
+    );
+    const positions = new Map<string, string[]>();
+    for (const playerId of playerIds) {
+      const player = await playerSearchIndex.getPlayer(playerId);
+      if (player) {
+        positions.set(
+          playerId,
+          player.fantasy_positions?.length ? player.fantasy_positions : [player.position]
+        );
+      }
+    }
+
+    return {
+      league_id: leagueId,
+      weeks: season.weeks.map((results) => results.week),
+      managers: computeManagerEfficiency(season, positions),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const lineupSchemas = {
+  'sleeper.getOptimalLineup': getOptimalLineupSchema.describe(
+    "Get a roster's highest-projected legal lineup for a week and how far the current starters are from it"
+  ),
+  'sleeper.getManagerEfficiency': getManagerEfficiencySchema.describe(
+    "Compare each roster's actual scores with its best possible lineups in completed weeks and flag start/sit decisions that cost matchups"
+  ),
+};
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { sleeperAPI } from '../../api/client';
+import { buildPickLedger } from '../../league/picks';
+import { loadLeagueSeason, loadTransactions } from '../../league/season';
+import { computeStandings } from '../../league/standings';
+import { validateParams } from '../../utils/validation';
+import { SleeperTradedDraftPick } from '../../types/sleeper';
+
+// Future drafts covered when no seasons are requested
+const DEFAULT_SEASONS = 3;
+
+// Validation schemas
+const getPickOwnershipSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  seasons: z
+    .array(z.string().regex(/^\d{4}$/))
+    .min(1)
+    .max(10)
+    .optional()
+    .describe('Draft seasons to include (default: the next three drafts)'),
+});
+
+// Pick methods
+export const pickMethods = {
+  'sleeper.getPickOwnership': async (params: unknown) => {
+    const { leagueId, seasons } = validateParams(params, getPickOwnershipSchema);
+    const season = await loadLeagueSeason(leagueId);
+    const { league } = season;
+
+    // The league's own draft is still ahead until it has been run
+    const firstDraft =
+      Number(league.season) +
+      (league.status === 'pre_draft' || league.status === 'drafting' ? 0 : 1);
+    const draftSeasons = [
+      ...new Set(
+        seasons ?? Array.from({ length: DEFAULT_SEASONS }, (_, i) => String(firstDraft + i))
+      ),
+    ].sort();
+
+    const [tradedPicks, transactions] = await Promise.all([
+      sleeperAPI.getTradedPicks(leagueId) as Promise<SleeperTradedDraftPick[] | null>,
+      loadTransactions(leagueId),
+    ]);
+
+    return {
+      league_id: leagueId,
+      seasons: draftSeasons,
+      draft_rounds: league.settings?.draft_rounds || 0,
+      standings_weeks: season.weeks.map((results) => results.week),
+      ...buildPickLedger(
+        season,
+        draftSeasons,
+        tradedPicks || [],
+        transactions,
+        computeStandings(season)
+      ),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const pickSchemas = {
+  'sleeper.getPickOwnership': getPickOwnershipSchema.describe(
+    'Get the current owner, chain of custody and projected slot of every draft pick in upcoming drafts'
+  ),
+};
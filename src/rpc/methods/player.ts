@@ -1,6 +1,8 @@
 import { z } from 'zod';
 import { sleeperAPI } from '../../api/client';
+import { playerSearchIndex } from '../../players/search';
 import { validateParams } from '../../utils/validation';
+import { NotFoundError } from '../../utils/errors';
 
 // Validation schemas
 const getAllPlayersSchema = z.object({
@@ -14,6 +16,23 @@ const getTrendingPlayersSchema = z.object({
   limit: z.number().int().min(1).max(200).optional().describe('Result limit (1-200)'),
 });
 
+const searchPlayersSchema = z.object({
+  query: z.string().min(1).describe('Player name, last name or nickname (typos are tolerated)'),
+  position: z.string().optional().describe('Position filter (e.g., QB, RB, WR, TE, K, DEF)'),
+  team: z.string().optional().describe('NFL team abbreviation filter (e.g., KC)'),
+  active: z.boolean().optional().describe('Only active (true) or inactive (false) players'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Result limit (1-50, default: 10)'),
+});
+
+const getPlayerSchema = z
+  .object({
+    playerId: z.string().min(1).optional().describe('Sleeper player ID'),
+    name: z.string().min(1).optional().describe('Player name, used when the ID is unknown'),
+  })
+  .refine((params) => params.playerId || params.name, {
+    message: 'Either playerId or name is required',
+  });
+
 // Player methods
 export const playerMethods = {
   'sleeper.getAllPlayers': async (params: unknown) => {
@@ -30,4 +49,38 @@ export const playerMethods = {
       validated.limit
     );
   },
+
+  'sleeper.searchPlayers': async (params: unknown) => {
+    const { query, ...filters } = validateParams(params, searchPlayersSchema);
+    return playerSearchIndex.search(query, filters);
+  },
+
+  'sleeper.getPlayer': async (params: unknown) => {
+    const { playerId, name } = validateParams(params, getPlayerSchema);
+
+    const player = playerId
+      ? await playerSearchIndex.getPlayer(playerId)
+      : (await playerSearchIndex.search(name as string, { limit: 1 }))[0];
+
+    if (!player) {
+      throw new NotFoundError(`Player ${playerId ?? name}`);
+    }
+    return player;
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const playerSchemas = {
+  'sleeper.getAllPlayers': getAllPlayersSchema.describe(
+    'Get all players for a sport (large payload, cached for 24 hours)'
+  ),
+  'sleeper.getTrendingPlayers': getTrendingPlayersSchema.describe(
+    'Get trending players (adds/drops)'
+  ),
+  'sleeper.searchPlayers': searchPlayersSchema.describe(
+    'Search NFL players by name with typo-tolerant matching, ranked best match first'
+  ),
+  'sleeper.getPlayer': getPlayerSchema.describe(
+    'Get a single NFL player by Sleeper ID or by best name match'
+  ),
 };
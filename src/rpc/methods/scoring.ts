@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { sleeperAPI } from '../../api/client';
+import { playerSearchIndex } from '../../players/search';
+import { scoreStats } from '../../scoring/engine';
+import { validateParams } from '../../utils/validation';
+import { NotFoundError } from '../../utils/errors';
+import { SleeperLeague } from '../../types/sleeper';
+
+// Validation schemas
+const scorePlayerSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID whose scoring settings are applied'),
+  playerId: z.string().min(1).describe('Sleeper player ID'),
+  week: z.number().int().min(1).max(18).describe('Week number (1-18)'),
+  season: z
+    .string()
+    .regex(/^\d{4}$/)
+    .optional()
+    .describe("Season year (default: the league's season)"),
+});
+
+// Scoring methods
+export const scoringMethods = {
+  'sleeper.scorePlayer': async (params: unknown) => {
+    const { leagueId, playerId, week, season } = validateParams(params, scorePlayerSchema);
+
+    const league = (await sleeperAPI.getLeague(leagueId)) as SleeperLeague | null;
+    if (!league) {
+      throw new NotFoundError(`League ${leagueId}`);
+    }
+
+    const targetSeason = season ?? league.season;
+    const [weeklyStats, player] = await Promise.all([
+      sleeperAPI.getWeeklyStats(targetSeason, week),
+      playerSearchIndex.getPlayer(playerId),
+    ]);
+    const stats = weeklyStats?.[playerId];
+
+    return {
+      league_id: leagueId,
+      player_id: playerId,
+      player_name: player ? player.full_name || `${player.first_name} ${player.last_name}` : null,
+      position: player?.position ?? null,
+      season: targetSeason,
+      week,
+      // Players without a stat line (bye, inactive) score zero
+      has_stats: stats !== undefined,
+      ...scoreStats(stats || {}, league.scoring_settings, player?.position),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const scoringSchemas = {
+  'sleeper.scorePlayer': scorePlayerSchema.describe(
+    "Score a player's week using a league's scoring settings, with a per-category breakdown"
+  ),
+};
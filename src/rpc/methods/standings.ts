@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { loadLeagueSeason, loadRemainingSchedule } from '../../league/season';
+import { simulatePlayoffOdds } from '../../league/playoffs';
+import { computePowerRankings, computeStandings } from '../../league/standings';
+import { validateParams } from '../../utils/validation';
+
+// Validation schemas
+const getStandingsSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  throughWeek: z
+    .number()
+    .int()
+    .min(1)
+    .max(18)
+    .optional()
+    .describe('Only count weeks up to this one (default: every completed week)'),
+});
+
+const getPowerRankingsSchema = getStandingsSchema;
+
+const simulatePlayoffOddsSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  iterations: z
+    .number()
+    .int()
+    .min(100)
+    .max(20000)
+    .default(1000)
+    .describe('Number of simulated seasons (default: 1000)'),
+  seed: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Random seed; the same seed reproduces the same odds (default: random)'),
+});
+
+// Standings methods
+export const standingsMethods = {
+  'sleeper.getStandings': async (params: unknown) => {
+    const { leagueId, throughWeek } = validateParams(params, getStandingsSchema);
+    const season = await loadLeagueSeason(leagueId, throughWeek);
+
+    return {
+      league_id: leagueId,
+      season: season.league.season,
+      weeks: season.weeks.map((results) => results.week),
+      standings: computeStandings(season),
+    };
+  },
+
+  'sleeper.getPowerRankings': async (params: unknown) => {
+    const { leagueId, throughWeek } = validateParams(params, getPowerRankingsSchema);
+    const season = await loadLeagueSeason(leagueId, throughWeek);
+
+    return {
+      league_id: leagueId,
+      season: season.league.season,
+      weeks: season.weeks.map((results) => results.week),
+      rankings: computePowerRankings(season),
+    };
+  },
+
+  'sleeper.simulatePlayoffOdds': async (params: unknown) => {
+    const { leagueId, iterations, seed } = validateParams(params, simulatePlayoffOddsSchema);
+    const season = await loadLeagueSeason(leagueId);
+    const remaining = await loadRemainingSchedule(season);
+
+    return {
+      league_id: leagueId,
+      season: season.league.season,
+      ...simulatePlayoffOdds(season, remaining, {
+        iterations: iterations ?? 1000,
+        seed: seed ?? Math.floor(Math.random() * 2 ** 31),
+      }),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const standingsSchemas = {
+  'sleeper.getStandings': getStandingsSchema.describe(
+    'Get league standings (record, points for/against, division ranks, playoff seeds) computed from completed weeks'
+  ),
+  'sleeper.getPowerRankings': getPowerRankingsSchema.describe(
+    'Get power rankings with all-play record, luck index and strength of schedule'
+  ),
+  'sleeper.simulatePlayoffOdds': simulatePlayoffOddsSchema.describe(
+    'Simulate the rest of the regular season and playoffs to estimate playoff, bye and championship odds'
+  ),
+};
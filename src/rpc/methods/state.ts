@@ -1,8 +1,17 @@
+import { z } from 'zod';
 import { sleeperAPI } from '../../api/client';
 
+// Validation schemas
+const getNFLStateSchema = z.object({});
+
 // State methods
 export const stateMethods = {
   'sleeper.getNFLState': async () => {
     return sleeperAPI.getNFLState();
   },
 };
+
+// Method schemas (used to generate MCP tools)
+export const stateSchemas = {
+  'sleeper.getNFLState': getNFLStateSchema.describe('Get current NFL state (week, season, etc.)'),
+};
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { sleeperAPI } from '../../api/client';
+import { completedWeeks, regularSeasonEnd } from '../../league/season';
+import { evaluateTrade } from '../../league/trade';
+import { projectPlayers } from '../../scoring/projections';
+import { validateParams } from '../../utils/validation';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { SleeperLeague, SleeperNFLState, SleeperRoster, SleeperUser } from '../../types/sleeper';
+
+// Weeks of Sleeper stats averaged when analytics has no projection
+const RECENT_WEEKS = 4;
+
+const draftPickSchema = z.object({
+  season: z
+    .string()
+    .regex(/^\d{4}$/)
+    .describe('Draft season (e.g., 2025)'),
+  round: z.number().int().min(1).describe('Draft round'),
+});
+
+// Validation schemas
+const analyzeTradeSchema = z
+  .object({
+    leagueId: z.string().min(1).describe('League ID'),
+    sendRosterId: z.number().int().describe('Roster proposing the trade'),
+    receiveRosterId: z.number().int().describe('Roster receiving the proposal'),
+    playersOut: z
+      .array(z.string().min(1))
+      .default([])
+      .describe('Player IDs the sending roster gives up'),
+    playersIn: z
+      .array(z.string().min(1))
+      .default([])
+      .describe('Player IDs the sending roster receives'),
+    picksOut: z
+      .array(draftPickSchema)
+      .default([])
+      .describe('Draft picks the sending roster gives up'),
+    picksIn: z
+      .array(draftPickSchema)
+      .default([])
+      .describe('Draft picks the sending roster receives'),
+  })
+  .refine((params) => params.sendRosterId !== params.receiveRosterId, {
+    message: 'sendRosterId and receiveRosterId must differ',
+  })
+  .refine(
+    (params) =>
+      (params.playersOut?.length || 0) +
+        (params.playersIn?.length || 0) +
+        (params.picksOut?.length || 0) +
+        (params.picksIn?.length || 0) >
+      0,
+    { message: 'A trade must move at least one player or pick' }
+  );
+
+// Trade methods
+export const tradeMethods = {
+  'sleeper.analyzeTrade': async (params: unknown) => {
+    const validated = validateParams(params, analyzeTradeSchema);
+    const proposal = {
+      sendRosterId: validated.sendRosterId,
+      receiveRosterId: validated.receiveRosterId,
+      playersOut: validated.playersOut ?? [],
+      playersIn: validated.playersIn ?? [],
+      picksOut: validated.picksOut ?? [],
+      picksIn: validated.picksIn ?? [],
+    };
+
+    const [league, rosters, users, state] = (await Promise.all([
+      sleeperAPI.getLeague(validated.leagueId),
+      sleeperAPI.getRosters(validated.leagueId),
+      sleeperAPI.getUsers(validated.leagueId),
+      sleeperAPI.getNFLState(),
+    ])) as [SleeperLeague | null, SleeperRoster[] | null, SleeperUser[] | null, SleeperNFLState];
+    if (!league) {
+      throw new NotFoundError(`League ${validated.leagueId}`);
+    }
+
+    const findRoster = (rosterId: number) => {
+      const roster = (rosters || []).find((r) => r.roster_id === rosterId);
+      if (!roster) {
+        throw new NotFoundError(`Roster ${rosterId}`);
+      }
+      return roster;
+    };
+    const sender = findRoster(proposal.sendRosterId);
+    const receiver = findRoster(proposal.receiveRosterId);
+
+    const notOwned = [
+      ...proposal.playersOut
+        .filter((id) => !(sender.players || []).includes(id))
+        .map((id) => ({
+          path: 'playersOut',
+          message: `Player ${id} is not on roster ${sender.roster_id}`,
+        })),
+      ...proposal.playersIn
+        .filter((id) => !(receiver.players || []).includes(id))
+        .map((id) => ({
+          path: 'playersIn',
+          message: `Player ${id} is not on roster ${receiver.roster_id}`,
+        })),
+    ];
+    if (notOwned.length > 0) {
+      throw new ValidationError('Invalid parameters', notOwned);
+    }
+
+    const weeks = completedWeeks(league, state);
+    const lastCompleted =
+      weeks.length > 0 ? weeks[weeks.length - 1] : (league.settings?.start_week || 1) - 1;
+    const projections = await projectPlayers(
+      league,
+      [...(sender.players || []), ...(receiver.players || [])],
+      weeks.slice(-RECENT_WEEKS)
+    );
+
+    return {
+      league_id: validated.leagueId,
+      ...evaluateTrade(
+        league,
+        sender,
+        receiver,
+        users || [],
+        proposal,
+        projections,
+        regularSeasonEnd(league) - lastCompleted
+      ),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const tradeSchemas = {
+  'sleeper.analyzeTrade': analyzeTradeSchema.describe(
+    'Evaluate a proposed trade for both rosters: projected starter points change, positional fit and a fairness verdict'
+  ),
+};
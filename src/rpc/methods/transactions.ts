@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { sleeperAPI } from '../../api/client';
+import { nflRegularSeasonWeeks } from '../../league/season';
+import {
+  enrichTransaction,
+  filterTransactions,
+  paginateTransactions,
+} from '../../league/transactions';
+import { playerSearchIndex } from '../../players/search';
+import { parallelProcessor } from './batch';
+import { validateParams } from '../../utils/validation';
+import { NotFoundError, ServiceUnavailableError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  SleeperLeague,
+  SleeperPlayer,
+  SleeperRoster,
+  SleeperTransaction,
+  SleeperUser,
+} from '../../types/sleeper';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+// Validation schemas
+const getTransactionLogSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  type: z
+    .enum(['trade', 'waiver', 'free_agent'])
+    .optional()
+    .describe('Only include this transaction type'),
+  rosterId: z.number().int().optional().describe('Only include transactions involving this roster'),
+  playerId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Only include transactions adding or dropping this player'),
+  since: dateSchema
+    .optional()
+    .describe('Only include transactions on or after this date (ISO 8601)'),
+  until: dateSchema
+    .optional()
+    .describe('Only include transactions on or before this date (ISO 8601)'),
+  cursor: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('next_cursor from the previous page (default: start from the newest)'),
+  limit: z.number().int().min(1).max(200).default(50).describe('Page size (1-200, default: 50)'),
+});
+
+// A bare date as the upper bound covers that whole day (UTC)
+function untilTimestamp(value: string): number {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? Date.parse(value) + DAY_MS - 1 : Date.parse(value);
+}
+
+/**
+ * Every leg (regular-season week) of a league's transactions, fetched in
+ * parallel as one batch
+ */
+async function fetchAllTransactions(leagueId: string): Promise<SleeperTransaction[]> {
+  const responses = await parallelProcessor.processBatch(
+    nflRegularSeasonWeeks().map((leg) => ({
+      request: {
+        jsonrpc: '2.0',
+        method: 'sleeper.getTransactions',
+        params: [leagueId, leg],
+        id: leg,
+      },
+      context: {},
+      priority: 'medium' as const,
+    }))
+  );
+
+  const failed = responses.filter((response) => response.error);
+  if (failed.length > 0) {
+    logger.error(`Failed to load ${failed.length} weeks of transactions for league ${leagueId}`, {
+      errors: failed.map((response) => response.error),
+    });
+    throw new ServiceUnavailableError('Sleeper transactions');
+  }
+  return responses.flatMap((response) => (response.result as SleeperTransaction[] | null) || []);
+}
+
+// Transaction methods
+export const transactionMethods = {
+  'sleeper.getTransactionLog': async (params: unknown) => {
+    const { leagueId, type, rosterId, playerId, since, until, cursor, limit } = validateParams(
+      params,
+      getTransactionLogSchema
+    );
+
+    const [league, rosters, users, transactions] = (await Promise.all([
+      sleeperAPI.getLeague(leagueId),
+      sleeperAPI.getRosters(leagueId),
+      sleeperAPI.getUsers(leagueId),
+      fetchAllTransactions(leagueId),
+    ])) as [
+      SleeperLeague | null,
+      SleeperRoster[] | null,
+      SleeperUser[] | null,
+      SleeperTransaction[],
+    ];
+    if (!league) {
+      throw new NotFoundError(`League ${leagueId}`);
+    }
+
+    const page = paginateTransactions(
+      filterTransactions(transactions, {
+        type,
+        rosterId,
+        playerId,
+        since: since ? Date.parse(since) : undefined,
+        until: until ? untilTimestamp(until) : undefined,
+      }),
+      limit ?? 50,
+      cursor
+    );
+
+    // Only resolve the players on this page
+    const playerIds = [
+      ...new Set(
+        page.transactions.flatMap((transaction) => [
+          ...Object.keys(transaction.adds || {}),
+          ...Object.keys(transaction.drops || {}),
+        ])
+      ),
+    ];
+    const players = new Map<string, SleeperPlayer | null>(
+      await Promise.all(
+        playerIds.map(
+          async (id): Promise<[string, SleeperPlayer | null]> => [
+            id,
+            await playerSearchIndex.getPlayer(id),
+          ]
+        )
+      )
+    );
+
+    return {
+      league_id: leagueId,
+      total: page.total,
+      next_cursor: page.next_cursor,
+      transactions: page.transactions.map((transaction) =>
+        enrichTransaction(transaction, rosters || [], users || [], players)
+      ),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const transactionSchemas = {
+  'sleeper.getTransactionLog': getTransactionLogSchema.describe(
+    'Get every transaction in a league across all weeks, newest first, with player and manager names, FAAB amounts, filters and cursor pagination'
+  ),
+};
@@ -23,3 +23,9 @@ export const userMethods = {
     return sleeperAPI.getUserById(validated.userId);
   },
 };
+
+// Method schemas (used to generate MCP tools)
+export const userSchemas = {
+  'sleeper.getUserByUsername': getUserByUsernameSchema.describe('Get user information by username'),
+  'sleeper.getUserById': getUserByIdSchema.describe('Get user information by user ID'),
+};
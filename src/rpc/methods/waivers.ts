@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { sleeperAPI } from '../../api/client';
+import { completedWeeks, regularSeasonEnd } from '../../league/season';
+import { SLOT_ELIGIBILITY, candidatesFor, startingSlots } from '../../league/lineup';
+import { WaiverCandidate, rankWaiverTargets } from '../../league/waivers';
+import { projectPlayers, teamsPlaying } from '../../scoring/projections';
+import { validateParams } from '../../utils/validation';
+import { NotFoundError } from '../../utils/errors';
+import {
+  SleeperLeague,
+  SleeperNFLState,
+  SleeperPlayer,
+  SleeperRoster,
+  SleeperTrendingPlayer,
+} from '../../types/sleeper';
+
+// Weeks of Sleeper stats averaged when analytics has no projection
+const RECENT_WEEKS = 4;
+// Weeks ahead checked for byes
+const UPCOMING_WEEKS = 3;
+// Free agents considered besides trending ones, by Sleeper search rank
+const RANKED_POOL_SIZE = 100;
+const TRENDING_LOOKBACK_HOURS = 48;
+const TRENDING_LIMIT = 200;
+// Sleeper waiver_type for FAAB bidding
+const FAAB_WAIVER_TYPE = 2;
+
+// Validation schemas
+const getWaiverRecommendationsSchema = z.object({
+  leagueId: z.string().min(1).describe('League ID'),
+  rosterId: z.number().int().describe('Roster ID to recommend pickups for'),
+  position: z.string().optional().describe('Only recommend players at this position'),
+  limit: z.number().int().min(1).max(50).default(10).describe('Result limit (1-50, default: 10)'),
+});
+
+function trendingCounts(trending: SleeperTrendingPlayer[] | null): Map<string, number> {
+  return new Map((trending || []).map((entry) => [entry.player_id, entry.count]));
+}
+
+// Waiver methods
+export const waiverMethods = {
+  'sleeper.getWaiverRecommendations': async (params: unknown) => {
+    const { leagueId, rosterId, position, limit } = validateParams(
+      params,
+      getWaiverRecommendationsSchema
+    );
+
+    const [league, rosters, state, players, trendingAdds, trendingDrops] = (await Promise.all([
+      sleeperAPI.getLeague(leagueId),
+      sleeperAPI.getRosters(leagueId),
+      sleeperAPI.getNFLState(),
+      sleeperAPI.getAllPlayers('nfl'),
+      sleeperAPI.getTrendingPlayers('nfl', 'add', TRENDING_LOOKBACK_HOURS, TRENDING_LIMIT),
+      sleeperAPI.getTrendingPlayers('nfl', 'drop', TRENDING_LOOKBACK_HOURS, TRENDING_LIMIT),
+    ])) as [
+      SleeperLeague | null,
+      SleeperRoster[] | null,
+      SleeperNFLState,
+      Record<string, SleeperPlayer> | null,
+      SleeperTrendingPlayer[] | null,
+      SleeperTrendingPlayer[] | null,
+    ];
+    if (!league) {
+      throw new NotFoundError(`League ${leagueId}`);
+    }
+    const roster = (rosters || []).find((r) => r.roster_id === rosterId);
+    if (!roster) {
+      throw new NotFoundError(`Roster ${rosterId}`);
+    }
+
+    // Free agents: not on any roster (including reserve and taxi) and able to fill a starting slot
+    const rostered = new Set(
+      (rosters || []).flatMap((r) => [
+        ...(r.players || []),
+        ...(r.reserve || []),
+        ...(r.taxi || []),
+      ])
+    );
+    const startable = new Set(
+      startingSlots(league.roster_positions as string[]).flatMap(
+        (slot) => SLOT_ELIGIBILITY[slot] ?? [slot]
+      )
+    );
+    const wanted = position?.toUpperCase();
+    const freeAgents = Object.values(players || {}).filter((player) => {
+      const positions = player.fantasy_positions?.length
+        ? player.fantasy_positions
+        : [player.position];
+      return (
+        !rostered.has(player.player_id) &&
+        player.active !== false &&
+        !!player.team &&
+        positions.some((p) => startable.has(p) && (!wanted || p === wanted))
+      );
+    });
+
+    const adds = trendingCounts(trendingAdds);
+    const drops = trendingCounts(trendingDrops);
+    const ranked = [...freeAgents]
+      .filter((player) => player.search_rank !== undefined && player.search_rank !== null)
+      .sort((a, b) => (a.search_rank ?? 0) - (b.search_rank ?? 0))
+      .slice(0, RANKED_POOL_SIZE);
+    const pool = [
+      ...new Set([
+        ...freeAgents.filter((player) => adds.has(player.player_id)).map((p) => p.player_id),
+        ...ranked.map((player) => player.player_id),
+      ]),
+    ];
+
+    const weeks = completedWeeks(league, state);
+    const lastCompleted =
+      weeks.length > 0 ? weeks[weeks.length - 1] : (league.settings?.start_week || 1) - 1;
+    const upcomingWeeks: number[] = [];
+    for (
+      let week = lastCompleted + 1;
+      week <= Math.min(lastCompleted + UPCOMING_WEEKS, regularSeasonEnd(league));
+      week++
+    ) {
+      upcomingWeeks.push(week);
+    }
+
+    const rosterPlayers = roster.players || [];
+    const [projections, playing] = await Promise.all([
+      projectPlayers(league, [...pool, ...rosterPlayers], weeks.slice(-RECENT_WEEKS)),
+      Promise.all(upcomingWeeks.map((week) => teamsPlaying(league.season, week))),
+    ]);
+    const playingByWeek = new Map(upcomingWeeks.map((week, i) => [week, playing[i]]));
+    const byeWeeks = (team: string | null | undefined) =>
+      upcomingWeeks.filter((week) => {
+        const teams = playingByWeek.get(week);
+        return !!team && !!teams && !teams.has(team);
+      });
+
+    const candidates: WaiverCandidate[] = pool.flatMap((playerId) => {
+      const projection = projections.get(playerId);
+      return projection
+        ? [
+            {
+              projection,
+              adds: adds.get(playerId) ?? 0,
+              drops: drops.get(playerId) ?? 0,
+              bye_weeks: byeWeeks(projection.team),
+            },
+          ]
+        : [];
+    });
+
+    const isFaab = league.settings?.waiver_type === FAAB_WAIVER_TYPE;
+    const faabRemaining = isFaab
+      ? Math.max(
+          0,
+          (league.settings.waiver_budget || 0) - (roster.settings?.waiver_budget_used || 0)
+        )
+      : null;
+
+    return {
+      league_id: leagueId,
+      roster_id: rosterId,
+      upcoming_weeks: upcomingWeeks,
+      faab_remaining: faabRemaining,
+      recommendations: rankWaiverTargets(
+        candidates,
+        {
+          rosterPositions: league.roster_positions as string[],
+          roster: candidatesFor(rosterPlayers, projections),
+          rosterByeWeeks: new Map(
+            rosterPlayers.map((id) => [id, byeWeeks(projections.get(id)?.team)])
+          ),
+          upcomingWeeks,
+          faabRemaining,
+        },
+        limit ?? 10
+      ),
+    };
+  },
+};
+
+// Method schemas (used to generate MCP tools)
+export const waiverSchemas = {
+  'sleeper.getWaiverRecommendations': getWaiverRecommendationsSchema.describe(
+    'Recommend free agents for a roster from trending adds, projections, positional need and byes, with FAAB bids'
+  ),
+};
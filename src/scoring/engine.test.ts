@@ -0,0 +1,117 @@
+import { categoryFor, deriveStats, scoreStats, statsFromSeasonRow } from './engine';
+
+describe('scoring engine', () => {
+  const halfPPR = {
+    pass_yd: 0.04,
+    pass_td: 4,
+    pass_int: -2,
+    rush_yd: 0.1,
+    rush_td: 6,
+    rec: 0.5,
+    rec_yd: 0.1,
+    rec_td: 6,
+    fum_lost: -2,
+  };
+
+  it('should apply each scoring setting as a per-unit multiplier', () => {
+    const result = scoreStats(
+      { pass_yd: 287, pass_td: 2, pass_int: 1, rush_yd: 41, fum_lost: 1, pass_att: 35 },
+      halfPPR
+    );
+
+    // 11.48 + 8 - 2 + 4.1 - 2
+    expect(result.points).toBe(19.58);
+    expect(result.categories).toEqual({ passing: 17.48, rushing: 4.1, misc: -2 });
+    expect(result.breakdown[0]).toEqual({
+      stat: 'pass_yd',
+      category: 'passing',
+      value: 287,
+      points_per: 0.04,
+      points: 11.48,
+    });
+    expect(result.breakdown.find((line) => line.stat === 'pass_att')).toBeUndefined();
+  });
+
+  it('should apply position reception premiums and yardage bonuses', () => {
+    const scoring = { ...halfPPR, bonus_rec_te: 0.5, bonus_rec_yd_100: 3 };
+    const stats = { rec: 8, rec_yd: 104, rec_td: 1 };
+
+    const asTE = scoreStats(stats, scoring, 'TE');
+    const asWR = scoreStats(stats, scoring, 'WR');
+
+    expect(asTE.points).toBe(27.4);
+    expect(asWR.points).toBe(23.4);
+    expect(asTE.categories.bonus).toBe(7);
+  });
+
+  it('should award only the yardage bonus tier a line falls in', () => {
+    const scoring = {
+      pass_yd: 0.04,
+      bonus_pass_yd_300: 3,
+      bonus_pass_yd_400: 5,
+      rush_yd: 0.1,
+      bonus_rush_yd_100: 3,
+      bonus_rush_yd_200: 5,
+    };
+
+    const passer = scoreStats({ pass_yd: 420 }, scoring);
+    const rusher = scoreStats({ rush_yd: 210 }, scoring);
+
+    expect(passer.categories.bonus).toBe(5);
+    expect(passer.breakdown.map((line) => line.stat)).toEqual(['pass_yd', 'bonus_pass_yd_400']);
+    expect(rusher.categories.bonus).toBe(5);
+    expect(deriveStats({ pass_yd: 350 })).toMatchObject({
+      bonus_pass_yd_300: 1,
+      bonus_pass_yd_400: 0,
+    });
+  });
+
+  it('should derive defense points allowed buckets', () => {
+    const scoring = { def_st_sack: 1, def_st_int: 2, pts_allow_7_13: 4, pts_allow_14_20: 1 };
+
+    const result = scoreStats({ sack: 3, def_st_sack: 3, def_st_int: 1, pts_allow: 10 }, scoring);
+
+    expect(result.points).toBe(9);
+    expect(result.categories).toEqual({ special_teams: 5, defense: 4 });
+  });
+
+  it('should not override derived stats provided by the source', () => {
+    expect(deriveStats({ pts_allow: 10, pts_allow_7_13: 0 }).pts_allow_7_13).toBe(0);
+    expect(deriveStats({ rec: 5 }, 'RB').bonus_rec_rb).toBe(5);
+  });
+
+  it('should score kicking and IDP stats', () => {
+    const result = scoreStats(
+      { fgm_40_49: 2, fgm_50p: 1, xpm: 3, xpmiss: 1, idp_tkl_solo: 6, idp_sack: 1 },
+      { fgm_40_49: 4, fgm_50p: 5, xpm: 1, xpmiss: -1, idp_tkl_solo: 1, idp_sack: 4 }
+    );
+
+    expect(result.categories).toEqual({ kicking: 15, idp: 10 });
+    expect(result.points).toBe(25);
+  });
+
+  it('should map analytics season stat rows to Sleeper stat keys', () => {
+    expect(
+      statsFromSeasonRow({ passing_yards: 250, passing_tds: '2', rushing_yards: 0, season: 2023 })
+    ).toEqual({ pass_yd: 250, pass_td: 2 });
+  });
+
+  it('should score a defense shutout stored as zero points allowed', () => {
+    const row = { position: 'DEF', games_played: 1, def_sacks: 2, def_points_allowed: 0 };
+    const stats = statsFromSeasonRow(row);
+
+    expect(stats).toEqual({ sack: 2, pts_allow: 0 });
+    expect(scoreStats(stats, { sack: 1, pts_allow_0: 10 }, 'DEF').points).toBe(12);
+    // Offensive rows share the column default and must not score as a shutout
+    expect(statsFromSeasonRow({ ...row, position: 'QB' })).toEqual({ sack: 2 });
+    expect(statsFromSeasonRow({ ...row, games_played: 0 })).toEqual({ sack: 2 });
+  });
+
+  it('should categorize scoring keys', () => {
+    expect(categoryFor('bonus_pass_yd_300')).toBe('bonus');
+    expect(categoryFor('def_st_td')).toBe('special_teams');
+    expect(categoryFor('pts_allow_0')).toBe('defense');
+    expect(categoryFor('rec_fd')).toBe('receiving');
+    expect(categoryFor('fum_lost')).toBe('misc');
+  });
+});
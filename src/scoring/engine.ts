@@ -0,0 +1,237 @@
+import { SleeperPlayerStats, SleeperScoringSettings } from '../types/sleeper';
+
+export type ScoringCategory =
+  | 'passing'
+  | 'rushing'
+  | 'receiving'
+  | 'kicking'
+  | 'defense'
+  | 'special_teams'
+  | 'idp'
+  | 'bonus'
+  | 'misc';
+
+export interface ScoringLine {
+  stat: string;
+  category: ScoringCategory;
+  value: number;
+  points_per: number;
+  points: number;
+}
+
+export interface ScoreResult {
+  points: number;
+  categories: Partial<Record<ScoringCategory, number>>;
+  breakdown: ScoringLine[];
+}
+
+type ScoringSettings = Partial<SleeperScoringSettings> & Record<string, number>;
+
+// analytics player_season_stats columns -> Sleeper stat keys
+export const SEASON_STATS_COLUMNS: Record<string, string> = {
+  passing_attempts: 'pass_att',
+  passing_completions: 'pass_cmp',
+  passing_yards: 'pass_yd',
+  passing_tds: 'pass_td',
+  passing_interceptions: 'pass_int',
+  passing_2pt: 'pass_2pt',
+  rushing_attempts: 'rush_att',
+  rushing_yards: 'rush_yd',
+  rushing_tds: 'rush_td',
+  rushing_2pt: 'rush_2pt',
+  receiving_targets: 'rec_tgt',
+  receiving_receptions: 'rec',
+  receiving_yards: 'rec_yd',
+  receiving_tds: 'rec_td',
+  receiving_2pt: 'rec_2pt',
+  fumbles_lost: 'fum_lost',
+  fg_made: 'fgm',
+  fg_attempts: 'fga',
+  fg_made_0_19: 'fgm_0_19',
+  fg_made_20_29: 'fgm_20_29',
+  fg_made_30_39: 'fgm_30_39',
+  fg_made_40_49: 'fgm_40_49',
+  fg_made_50_plus: 'fgm_50p',
+  fg_missed: 'fgmiss',
+  xp_made: 'xpm',
+  xp_attempts: 'xpa',
+  xp_missed: 'xpmiss',
+  idp_solo_tackles: 'idp_tkl_solo',
+  idp_assisted_tackles: 'idp_tkl_ast',
+  idp_tackles_for_loss: 'idp_tkl_loss',
+  idp_sacks: 'idp_sack',
+  idp_qb_hits: 'idp_qb_hit',
+  idp_interceptions: 'idp_int',
+  idp_forced_fumbles: 'idp_ff',
+  idp_fumble_recoveries: 'idp_fum_rec',
+  idp_passes_defended: 'idp_pass_def',
+  idp_tds: 'idp_def_td',
+  idp_safeties: 'idp_safe',
+  def_sacks: 'sack',
+  def_interceptions: 'int',
+  def_forced_fumbles: 'ff',
+  def_fumble_recoveries: 'fum_rec',
+  def_safeties: 'safe',
+  def_blocked_kicks: 'blk_kick',
+  def_tds: 'def_td',
+  def_st_tds: 'def_st_td',
+  def_points_allowed: 'pts_allow',
+  def_yards_allowed: 'yds_allow',
+};
+
+// [stat key, lowest value, highest value]
+const POINTS_ALLOWED_BUCKETS: Array<[string, number, number]> = [
+  ['pts_allow_0', 0, 0],
+  ['pts_allow_1_6', 1, 6],
+  ['pts_allow_7_13', 7, 13],
+  ['pts_allow_14_20', 14, 20],
+  ['pts_allow_21_27', 21, 27],
+  ['pts_allow_28_34', 28, 34],
+  ['pts_allow_35p', 35, Infinity],
+];
+
+const YARDS_ALLOWED_BUCKETS: Array<[string, number, number]> = [
+  ['yds_allow_0_100', 0, 99],
+  ['yds_allow_100_199', 100, 199],
+  ['yds_allow_200_299', 200, 299],
+  ['yds_allow_300_349', 300, 349],
+  ['yds_allow_350_399', 350, 399],
+  ['yds_allow_400_449', 400, 449],
+  ['yds_allow_450_499', 450, 499],
+  ['yds_allow_500_549', 500, 549],
+  ['yds_allow_550p', 550, Infinity],
+];
+
+// [bonus key, stats summed for the range, min, max (exclusive)]
+// Sleeper's yardage tiers are exclusive: a 420-yard passer earns the 400+ bonus only.
+const THRESHOLD_BONUSES: Array<[string, string[], number, number]> = [
+  ['bonus_pass_yd_300', ['pass_yd'], 300, 400],
+  ['bonus_pass_yd_400', ['pass_yd'], 400, Infinity],
+  ['bonus_pass_cmp_25', ['pass_cmp'], 25, Infinity],
+  ['bonus_rush_yd_100', ['rush_yd'], 100, 200],
+  ['bonus_rush_yd_200', ['rush_yd'], 200, Infinity],
+  ['bonus_rush_att_20', ['rush_att'], 20, Infinity],
+  ['bonus_rec_yd_100', ['rec_yd'], 100, 200],
+  ['bonus_rec_yd_200', ['rec_yd'], 200, Infinity],
+  ['bonus_rush_rec_yd_100', ['rush_yd', 'rec_yd'], 100, 200],
+  ['bonus_rush_rec_yd_200', ['rush_yd', 'rec_yd'], 200, Infinity],
+];
+
+// Position-specific reception premiums (e.g. TE premium)
+const RECEPTION_BONUSES: Record<string, string> = {
+  RB: 'bonus_rec_rb',
+  WR: 'bonus_rec_wr',
+  TE: 'bonus_rec_te',
+};
+
+// First matching pattern decides the category of a scoring key
+const CATEGORY_PATTERNS: Array<[RegExp, ScoringCategory]> = [
+  [/^bonus_/, 'bonus'],
+  [/^idp_/, 'idp'],
+  [/^(def_st_|st_|kr_|pr_)/, 'special_teams'],
+  [/^pass_/, 'passing'],
+  [/^rush_/, 'rushing'],
+  [/^rec/, 'receiving'],
+  [/^(fg|xp)/, 'kicking'],
+  [/^(def_|pts_allow|yds_allow|sack|int|ff|fum_rec|safe|blk_kick|tkl|qb_hit)/, 'defense'],
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function categoryFor(stat: string): ScoringCategory {
+  const match = CATEGORY_PATTERNS.find(([pattern]) => pattern.test(stat));
+  return match ? match[1] : 'misc';
+}
+
+/**
+ * Convert an analytics player_season_stats row into a Sleeper stat line.
+ * Zero columns are left out, except points allowed by a defense (position
+ * DEF) that played: def_points_allowed = 0 is how a shutout is stored.
+ */
+export function statsFromSeasonRow(row: Record<string, unknown>): SleeperPlayerStats {
+  const shutoutPossible = row.position === 'DEF' && Number(row.games_played) > 0;
+  const stats: SleeperPlayerStats = {};
+  for (const [column, stat] of Object.entries(SEASON_STATS_COLUMNS)) {
+    const value = Number(row[column]);
+    if (Number.isFinite(value) && (value !== 0 || (stat === 'pts_allow' && shutoutPossible))) {
+      stats[stat] = value;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Fill in derived stats that a league may score but a stat source may omit:
+ * points/yards allowed buckets, yardage bonuses and position reception premiums.
+ * Values already present in the stat line always win.
+ */
+export function deriveStats(stats: SleeperPlayerStats, position?: string): SleeperPlayerStats {
+  const derived: SleeperPlayerStats = { ...stats };
+  const setIfMissing = (stat: string, value: number) => {
+    if (derived[stat] === undefined) {
+      derived[stat] = value;
+    }
+  };
+
+  if (stats.pts_allow !== undefined) {
+    for (const [stat, low, high] of POINTS_ALLOWED_BUCKETS) {
+      setIfMissing(stat, stats.pts_allow >= low && stats.pts_allow <= high ? 1 : 0);
+    }
+  }
+
+  if (stats.yds_allow !== undefined) {
+    for (const [stat, low, high] of YARDS_ALLOWED_BUCKETS) {
+      setIfMissing(stat, stats.yds_allow >= low && stats.yds_allow <= high ? 1 : 0);
+    }
+  }
+
+  for (const [stat, sources, min, max] of THRESHOLD_BONUSES) {
+    const total = sources.reduce((sum, source) => sum + (stats[source] || 0), 0);
+    setIfMissing(stat, total >= min && total < max ? 1 : 0);
+  }
+
+  const receptionBonus = position ? RECEPTION_BONUSES[position.toUpperCase()] : undefined;
+  if (receptionBonus) {
+    setIfMissing(receptionBonus, stats.rec || 0);
+  }
+
+  return derived;
+}
+
+/**
+ * Score a stat line with a league's scoring_settings.
+ * Every scoring setting is a points-per-unit multiplier on the stat with the same key.
+ */
+export function scoreStats(
+  stats: SleeperPlayerStats,
+  scoringSettings: ScoringSettings,
+  position?: string
+): ScoreResult {
+  const derived = deriveStats(stats, position);
+  const breakdown: ScoringLine[] = [];
+  const categories: Partial<Record<ScoringCategory, number>> = {};
+  let total = 0;
+
+  for (const [stat, pointsPer] of Object.entries(scoringSettings)) {
+    const value = derived[stat];
+    if (!pointsPer || !value) {
+      continue;
+    }
+
+    const points = value * pointsPer;
+    const category = categoryFor(stat);
+    total += points;
+    categories[category] = (categories[category] || 0) + points;
+    breakdown.push({ stat, category, value, points_per: pointsPer, points: round(points) });
+  }
+
+  for (const category of Object.keys(categories) as ScoringCategory[]) {
+    categories[category] = round(categories[category] as number);
+  }
+
+  breakdown.sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+
+  return { points: round(total), categories, breakdown };
+}
@@ -0,0 +1,226 @@
+import { sleeperAPI } from '../api/client';
+import { analyticsService } from '../analytics/service';
+import { StatLine, statsFromLine } from '../analytics/projections';
+import { playerSearchIndex } from '../players/search';
+import { logger } from '../utils/logger';
+import { scoreStats } from './engine';
+import {
+  SleeperLeague,
+  SleeperPlayer,
+  SleeperPlayerStats,
+  SleeperWeeklyStats,
+} from '../types/sleeper';
+
+export type ProjectionSource = 'sleeper' | 'analytics' | 'recent_stats' | 'prior_season' | 'none';
+
+export interface PlayerProjection {
+  player_id: string;
+  player_name: string | null;
+  position: string | null;
+  positions: string[];
+  team: string | null;
+  points_per_week: number;
+  source: ProjectionSource;
+}
+
+export interface WeeklyProjection extends PlayerProjection {
+  on_bye: boolean;
+}
+
+interface AnalyticsProjection {
+  // Full stat line from the regression model
+  stat_line?: StatLine;
+  projected_stats?: {
+    passing_yards_per_game?: number;
+    rushing_yards_per_game?: number;
+    receiving_yards_per_game?: number;
+    total_tds_per_game?: number;
+  };
+}
+
+// Moving-average analytics projections only carry yards and total TDs; receptions are
+// estimated from receiving yards and TDs credited to the position's main stat
+const YARDS_PER_RECEPTION: Record<string, number> = { RB: 8, WR: 12.5, TE: 11 };
+const TD_STAT: Record<string, string> = {
+  QB: 'pass_td',
+  RB: 'rush_td',
+  WR: 'rec_td',
+  TE: 'rec_td',
+};
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function describePlayer(
+  playerId: string,
+  player: SleeperPlayer | null
+): Omit<PlayerProjection, 'points_per_week' | 'source'> {
+  const position = player?.position ?? null;
+  return {
+    player_id: playerId,
+    player_name: player ? player.full_name || `${player.first_name} ${player.last_name}` : null,
+    position,
+    positions: player?.fantasy_positions?.length
+      ? player.fantasy_positions
+      : position
+        ? [position]
+        : [],
+    team: player?.team ?? null,
+  };
+}
+
+/**
+ * Convert an analytics per-game projection into a Sleeper stat line
+ */
+export function statsFromProjection(
+  projection: AnalyticsProjection,
+  position: string | null
+): SleeperPlayerStats | null {
+  if (projection.stat_line) {
+    return statsFromLine(projection.stat_line);
+  }
+
+  const projected = projection.projected_stats;
+  if (!projected || !position || !TD_STAT[position]) {
+    return null;
+  }
+
+  const stats: SleeperPlayerStats = {
+    pass_yd: projected.passing_yards_per_game || 0,
+    rush_yd: projected.rushing_yards_per_game || 0,
+    rec_yd: projected.receiving_yards_per_game || 0,
+    [TD_STAT[position]]: projected.total_tds_per_game || 0,
+  };
+  if (YARDS_PER_RECEPTION[position]) {
+    stats.rec = stats.rec_yd / YARDS_PER_RECEPTION[position];
+  }
+  return stats;
+}
+
+/**
+ * Projected points per week under a league's scoring settings.
+ *
+ * Analytics projections are used where available; otherwise the player's
+ * average over recent weeks of Sleeper stats. Kickers, defenses and IDP only
+ * ever use recent stats since analytics does not project them. statsSeason
+ * reads the weeks from another season, e.g. last season's before a draft.
+ */
+export async function projectPlayers(
+  league: SleeperLeague,
+  playerIds: string[],
+  recentWeeks: number[],
+  statsSeason: string = league.season
+): Promise<Map<string, PlayerProjection>> {
+  const weeklyStats = (
+    await Promise.all(recentWeeks.map((week) => sleeperAPI.getWeeklyStats(statsSeason, week)))
+  ).filter((stats): stats is SleeperWeeklyStats => stats !== null);
+
+  const projections = await Promise.all(
+    [...new Set(playerIds)].map(async (playerId): Promise<PlayerProjection> => {
+      const player = await playerSearchIndex.getPlayer(playerId);
+      const base = describePlayer(playerId, player);
+      const position = base.position;
+
+      let analytics: AnalyticsProjection | null = null;
+      try {
+        analytics = (await analyticsService.getPlayerProjections(
+          playerId
+        )) as AnalyticsProjection | null;
+      } catch (error) {
+        logger.warn(`Falling back to recent stats for player ${playerId}`, { error });
+      }
+      const projected = analytics ? statsFromProjection(analytics, position) : null;
+      if (projected) {
+        return {
+          ...base,
+          points_per_week: scoreStats(projected, league.scoring_settings, position ?? undefined)
+            .points,
+          source: 'analytics',
+        };
+      }
+
+      const games = weeklyStats
+        .map((stats) => stats[playerId])
+        .filter((stats) => stats !== undefined && (stats.gp ?? 1) > 0);
+      if (games.length > 0) {
+        const total = games.reduce(
+          (sum, stats) =>
+            sum + scoreStats(stats, league.scoring_settings, position ?? undefined).points,
+          0
+        );
+        return {
+          ...base,
+          points_per_week: round(total / games.length),
+          source: statsSeason === league.season ? 'recent_stats' : 'prior_season',
+        };
+      }
+
+      return { ...base, points_per_week: 0, source: 'none' };
+    })
+  );
+
+  return new Map(projections.map((projection) => [projection.player_id, projection]));
+}
+
+/**
+ * NFL teams with at least one projected player in a week, or null when
+ * Sleeper has not published projections for it. Teams missing from the set are on bye.
+ */
+export async function teamsPlaying(season: string, week: number): Promise<Set<string> | null> {
+  const feed = (await sleeperAPI.getWeeklyProjections(season, week)) || {};
+
+  const players =
+    ((await sleeperAPI.getAllPlayers('nfl')) as Record<string, SleeperPlayer> | null) || {};
+
+  const teams = new Set<string>();
+  for (const [playerId, stats] of Object.entries(feed)) {
+    if (Object.values(stats).some((value) => value)) {
+      const team = players[playerId]?.team;
+      if (team) {
+        teams.add(team);
+      }
+    }
+  }
+  return teams.size > 0 ? teams : null;
+}
+
+/**
+ * Projected points for one week under a league's scoring settings, using
+ * Sleeper's weekly stat projections and falling back to projectPlayers for
+ * anyone they do not cover. Players whose team is on bye project zero.
+ */
+export async function projectWeek(
+  league: SleeperLeague,
+  playerIds: string[],
+  week: number,
+  recentWeeks: number[]
+): Promise<Map<string, WeeklyProjection>> {
+  const feed = (await sleeperAPI.getWeeklyProjections(league.season, week)) || {};
+  const playing = await teamsPlaying(league.season, week);
+
+  const uncovered = playerIds.filter((playerId) => !feed[playerId]);
+  const fallback =
+    uncovered.length > 0
+      ? await projectPlayers(league, uncovered, recentWeeks)
+      : new Map<string, PlayerProjection>();
+
+  const projections = new Map<string, WeeklyProjection>();
+  for (const playerId of new Set(playerIds)) {
+    const player = await playerSearchIndex.getPlayer(playerId);
+    const onBye = playing !== null && !!player?.team && !playing.has(player.team);
+    const base: PlayerProjection = fallback.get(playerId) ?? {
+      ...describePlayer(playerId, player),
+      points_per_week: scoreStats(feed[playerId] || {}, league.scoring_settings, player?.position)
+        .points,
+      source: 'sleeper',
+    };
+
+    projections.set(playerId, {
+      ...base,
+      points_per_week: onBye ? 0 : base.points_per_week,
+      on_bye: onBye,
+    });
+  }
+  return projections;
+}
@@ -12,6 +12,7 @@ import { openRPCDocument } from '../openrpc/document';
 import { logger } from '../utils/logger';
 import { sleeperAPI } from '../api/client';
 import { MCPProtocolHandler } from '../mcp/protocol';
+import { StreamableHTTPTransport } from '../mcp/http';
 // Cache imports temporarily disabled to isolate hanging issue
 // import { cacheWarmer } from '../cache/warming';
 // import { enhancedCacheService } from '../cache/enhanced-service';
@@ -158,7 +159,8 @@ export function createServer(app: Express): Server {
 }</code></pre>
 
               <h3>Available Endpoints</h3>
-              <div class="endpoint">POST /mcp - MCP Protocol endpoint (for Claude Desktop)</div>
+              <div class="endpoint">POST /mcp - MCP Streamable HTTP endpoint (for Claude Desktop)</div>
+              <div class="endpoint">GET /mcp - MCP notification stream (SSE)</div>
               <div class="endpoint">POST ${config.ENDPOINTS.RPC} - JSON-RPC endpoint</div>
               <div class="endpoint">GET ${config.ENDPOINTS.HEALTH} - Health check</div>
               <div class="endpoint">GET ${config.ENDPOINTS.OPENRPC} - OpenRPC specification</div>
@@ -193,12 +195,18 @@ export function createServer(app: Express): Server {
     });
   }
 
-  // MCP Protocol Handler
-  const mcpHandler = new MCPProtocolHandler();
+  // MCP Protocol Handler (Streamable HTTP transport)
+  const mcpTransport = new StreamableHTTPTransport(new MCPProtocolHandler());
   
   // MCP endpoints for Claude Desktop integration
   app.post('/mcp', async (req, res) => {
-    await mcpHandler.handleMCPRequest(req, res);
+    await mcpTransport.handlePost(req, res);
+  });
+  app.get('/mcp', (req, res) => {
+    mcpTransport.handleGet(req, res);
+  });
+  app.delete('/mcp', (req, res) => {
+    mcpTransport.handleDelete(req, res);
   });
 
   // Rate limiting for RPC endpoint
@@ -0,0 +1,49 @@
+import 'dotenv/config';
+import { logger, redirectConsoleLogsToStderr } from './utils/logger';
+
+// stdout carries MCP messages only; everything else goes to stderr
+redirectConsoleLogsToStderr();
+
+async function bootstrap() {
+  // Loaded after the log redirect because these modules log while initializing
+  const { initializeCache, closeCache } = await import('./cache/redis');
+  const { analyticsService } = await import('./analytics/service');
+  const { MCPProtocolHandler } = await import('./mcp/protocol');
+  const { StdioTransport } = await import('./mcp/stdio');
+
+  // Redis is optional locally - only connect when a host is configured explicitly
+  if (process.env.REDIS_HOST) {
+    await initializeCache();
+  } else {
+    logger.info('REDIS_HOST not set, using in-memory cache only');
+  }
+
+  // Analytics is optional as well (methods return null without PostgreSQL)
+  if (process.env.DATABASE_URL || process.env.POSTGRES_HOST) {
+    await analyticsService.initialize();
+  } else {
+    logger.info('No PostgreSQL configured, analytics methods disabled');
+  }
+
+  const transport = new StdioTransport(new MCPProtocolHandler());
+
+  const shutdown = async (code: number) => {
+    transport.close();
+    await closeCache();
+    process.exit(code);
+  };
+
+  process.on('SIGTERM', () => void shutdown(0));
+  process.on('SIGINT', () => void shutdown(0));
+
+  logger.info('🚀 MCP Sleeper Server running on stdio');
+
+  // The client closing stdin ends the session
+  await transport.start();
+  await shutdown(0);
+}
+
+bootstrap().catch((error) => {
+  logger.error('Failed to start stdio server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,22 @@
+// The parts of parquetjs-lite used here; the package ships no types
+declare module 'parquetjs-lite' {
+  export class ParquetSchema {
+    constructor(fields: Record<string, { type: string; optional?: boolean; compression?: string }>);
+  }
+
+  export class ParquetWriter {
+    static openFile(schema: ParquetSchema, filePath: string): Promise<ParquetWriter>;
+    appendRow(row: Record<string, unknown>): Promise<void>;
+    close(): Promise<void>;
+  }
+
+  export class ParquetCursor {
+    next(): Promise<Record<string, unknown> | null>;
+  }
+
+  export class ParquetReader {
+    static openFile(filePath: string): Promise<ParquetReader>;
+    getCursor(columnList?: string[][]): ParquetCursor;
+    close(): Promise<void>;
+  }
+}
@@ -88,6 +88,8 @@ export interface SleeperLeagueSettings {
   pick_trading_deadline: number;
   disable_draft_standings: number;
   daily_waivers_cutoff_hour: number;
+  divisions?: number;
+  league_average_match?: number;
 }
 
 // League Scoring Settings
@@ -211,6 +213,7 @@ export interface SleeperPlayer {
   weight?: string;
   years_exp?: number;
   college?: string;
+  active?: boolean;
   status?:
     | 'Active'
     | 'Inactive'
@@ -229,6 +232,9 @@ export interface SleeperPlayer {
   rotowire_id?: string;
   rotoworld_id?: string;
   fantasy_data_id?: string;
+  sportradar_id?: string;
+  stats_id?: string | number;
+  swish_id?: string | number;
   sleeper_id?: string;
   injury_status?: 'Questionable' | 'Doubtful' | 'Out' | 'IR' | 'PUP' | 'COV' | 'SUS';
   injury_body_part?: string;
@@ -258,6 +264,15 @@ export interface SleeperTrendingPlayers {
   [type: string]: SleeperTrendingPlayer[];
 }
 
+// Stats (keys match SleeperScoringSettings, e.g. pass_yd, rec, pts_allow_7_13)
+export interface SleeperPlayerStats {
+  [stat: string]: number;
+}
+
+export interface SleeperWeeklyStats {
+  [playerId: SleeperPlayerId]: SleeperPlayerStats;
+}
+
 // Matchup
 export interface SleeperMatchup {
   starters: SleeperPlayerId[];
@@ -283,12 +298,12 @@ export interface SleeperTransaction {
   roster_ids: SleeperRosterId[];
   metadata: Record<string, any> | null;
   leg: number;
-  drops: Record<SleeperUserId, SleeperPlayerId> | null;
-  draft_picks: any[];
+  drops: Record<SleeperPlayerId, SleeperRosterId> | null;
+  draft_picks: SleeperTradedDraftPick[];
   creator: SleeperUserId;
   created: number;
   consenter_ids: SleeperUserId[];
-  adds: Record<SleeperUserId, SleeperPlayerId> | null;
+  adds: Record<SleeperPlayerId, SleeperRosterId> | null;
   waiver_budget?: Array<{
     sender: SleeperRosterId;
     receiver: SleeperRosterId;
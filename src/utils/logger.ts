@@ -25,6 +25,25 @@ export const logger = winston.createLogger({
   ],
 });
 
+/**
+ * Send all console logging to stderr. Used by the stdio MCP transport, where
+ * stdout carries protocol messages only.
+ */
+export function redirectConsoleLogsToStderr(): void {
+  for (const transport of [...logger.transports]) {
+    if (transport instanceof winston.transports.Console) {
+      logger.remove(transport);
+    }
+  }
+
+  logger.add(
+    new winston.transports.Console({
+      format: winston.format.simple(),
+      stderrLevels: Object.keys(logger.levels),
+    })
+  );
+}
+
 // Add file transport in production
 if (config.IS_PRODUCTION) {
   logger.add(
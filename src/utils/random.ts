@@ -0,0 +1,25 @@
+export type RandomSource = () => number;
+
+/**
+ * Deterministic uniform [0, 1) generator (mulberry32) so simulations can be
+ * replayed from their seed
+ */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Normally distributed sample (Box-Muller)
+ */
+export function normalSample(random: RandomSource, mean: number, stdDev: number): number {
+  const u = 1 - random();
+  const v = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}